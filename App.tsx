@@ -4,9 +4,45 @@
 */
 
 
-import React, { useState, useRef, useEffect } from 'react';
-import { generateImage, generateVoxelScene, IMAGE_SYSTEM_PROMPT, VOXEL_PROMPT } from './services/gemini';
-import { extractHtmlFromText, hideBodyText, zoomCamera, injectSceneMonitor, enhanceControls, injectLayerSlider } from './utils/html';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { generateImage, generateVoxelScene, generateVoxelGrid, refineVoxelScene, repairVoxelScene, buildRepairPrompt, withPalette, provider, IMAGE_SYSTEM_PROMPT, VOXEL_PROMPT, VOXEL_GRID_PROMPT, REFINE_PROMPT, RefinementTurn, StreamHandlers } from './services/generation';
+import { loadHistory, saveHistoryItem, deleteHistoryItem, clearHistory } from './services/storage';
+import { requestSceneVoxels, checkSceneHealth, describeSceneProblems } from './services/scene';
+import { bundleSceneHtml } from './services/bundle';
+import { callScene, SceneCaller } from './services/sceneBridge';
+import { exportLibrary, importLibrary } from './services/archive';
+import { generateLocalVoxelModel, extractPaletteFromImage, LOCAL_MODEL_ID } from './services/localVoxels';
+import { extractHtmlFromText, processSceneHtml, injectVoxelExporter, injectSceneCapture, injectSceneBridge, injectCameraRig, injectSectionTool, injectErrorReporter, injectPaletteRuntime, readPaletteRemap, writePaletteRemap, stripPaletteRemap } from './utils/html';
+import { PALETTE_PRESETS, parseHexList, remapGridPalette, remapStats, ColorRemap } from './utils/palette';
+import { injectSandboxPolicy, SCENE_SANDBOX } from './utils/sandbox';
+import { toCdnThreeImports } from './utils/threeVendor';
+import { BRIDGE_VERSION, readSceneMessage } from './utils/sceneMessages';
+import { computeVoxelStats, quantizeSceneVoxels } from './utils/voxels';
+import { encodeVox } from './utils/vox';
+import { decodeVoxelGrid, encodeVoxelGrid } from './utils/voxelGrid';
+import { renderVoxelSceneHtml } from './utils/voxelScene';
+import { DEFAULT_LOCAL_OPTIONS, describeLocalOptions, LocalVoxelOptions } from './utils/imageVoxels';
+import { greedyMesh } from './utils/mesh';
+import { encodeGlb } from './utils/gltf';
+import { downloadBlob, downloadUrl } from './utils/download';
+import PrintPanel from './components/PrintPanel';
+import BuildKitPanel from './components/BuildKitPanel';
+import CapturePanel from './components/CapturePanel';
+import ViewControls from './components/ViewControls';
+import SectionPanel from './components/SectionPanel';
+import ScenePanel from './components/ScenePanel';
+import VoxelEditor from './components/VoxelEditor';
+import VersionPanel from './components/VersionPanel';
+import CompareView from './components/CompareView';
+import StreamLog, { formatStreamProgress } from './components/StreamLog';
+import InstrumentationReport from './components/InstrumentationReport';
+import RepairLog, { RepairStep } from './components/RepairLog';
+import BatchPanel from './components/BatchPanel';
+import LocalVoxelSettings from './components/LocalVoxelSettings';
+import PaletteSelector, { PaletteChoice } from './components/PaletteSelector';
+import PalettePanel from './components/PalettePanel';
+import { createVersion, getActiveVersion, getItemVersions, getOpeningVersion, getVersionPath } from './utils/versions';
+import type { CameraView, HistoryItem, SceneInstrumentation, SectionInfo, SectionState, VoxelGrid, VoxelMode, VoxelModel, VoxelStat, VoxelVersion } from './types';
 
 // Available aspect ratios
 const ASPECT_RATIOS = ["1:1", "3:4", "4:3", "16:9", "9:16"];
@@ -20,6 +56,28 @@ const ALLOWED_MIME_TYPES = [
   'image/heif'
 ];
 
+// How often a broken generated scene is sent back to the model for a fix
+const MAX_REPAIR_ATTEMPTS = 2;
+// How long a scene may take to add its meshes before it counts as empty
+const SCENE_CHECK_MS = 4000;
+
+// Colours taken from the image when its palette is used
+const IMAGE_PALETTE_SIZE = 12;
+
+const DEFAULT_SECTION: SectionState = { mode: 'off', axis: 'y', layer: 1, box: [0, 0, 0], invert: false, caps: false };
+
+const VOXEL_MODE_LABELS: Record<VoxelMode, string> = {
+  code: 'Three.js Code',
+  grid: 'Voxel Grid',
+  local: 'Local',
+};
+
+const VOXEL_MODE_TITLES: Record<VoxelMode, string> = {
+  code: 'Model writes Three.js code',
+  grid: 'Model returns a voxel grid rendered by the app',
+  local: 'Quantize the image into a voxel relief in the browser, no model call',
+};
+
 const SAMPLE_PROMPTS = [
     "A tree house under the sea",
     "A cyberpunk street food stall", 
@@ -40,20 +98,6 @@ const EXAMPLES: Example[] = [
   { img: 'https://www.gstatic.com/aistudio/starter-apps/image_to_voxel/example3.png', html: '/examples/example3.html' },
 ];
 
-interface VoxelStat {
-    color: string;
-    count: number;
-}
-
-interface HistoryItem {
-    id: string;
-    image: string;
-    voxel: string | null;
-    prompt: string;
-    timestamp: number;
-    stats: VoxelStat[] | null;
-}
-
 const App: React.FC = () => {
   const [prompt, setPrompt] = useState('');
   const [placeholderIndex, setPlaceholderIndex] = useState(0);
@@ -61,6 +105,9 @@ const App: React.FC = () => {
   // Main View State
   const [imageData, setImageData] = useState<string | null>(null);
   const [voxelCode, setVoxelCode] = useState<string | null>(null);
+  const [voxelGrid, setVoxelGrid] = useState<VoxelGrid | null>(null);
+  // Unprocessed HTML of the current scene, used to continue the conversation when refining
+  const [voxelSource, setVoxelSource] = useState<string | null>(null);
   
   // History State
   const [history, setHistory] = useState<HistoryItem[]>([]);
@@ -71,37 +118,222 @@ const App: React.FC = () => {
   const [useOptimization, setUseOptimization] = useState(true);
   const [aspectRatio, setAspectRatio] = useState('1:1');
   const [viewMode, setViewMode] = useState<'image' | 'voxel'>('image');
+  const [voxelMode, setVoxelMode] = useState<VoxelMode>('code');
+  const [refineText, setRefineText] = useState('');
+  const [refiningInstruction, setRefiningInstruction] = useState<string | null>(null);
+  // Run generated scenes and feed their errors back to the model
+  const [autoRepair, setAutoRepair] = useState(true);
+  // Settings of the 'local' output mode
+  const [localOptions, setLocalOptions] = useState<LocalVoxelOptions>(DEFAULT_LOCAL_OPTIONS);
+  // Target palette for generation
+  const [paletteChoice, setPaletteChoice] = useState<PaletteChoice>('free');
+  const [customPaletteText, setCustomPaletteText] = useState('');
+  const [imagePalette, setImagePalette] = useState<string[] | null>(null);
+  const [repairSteps, setRepairSteps] = useState<RepairStep[]>([]);
+  // Problems of the repair being streamed, for the displayed prompt
+  const [repairProblems, setRepairProblems] = useState<string[] | null>(null);
   
   // Streaming Thoughts State
   const [thinkingText, setThinkingText] = useState<string | null>(null);
+  const [thoughtLog, setThoughtLog] = useState('');
+  // Partial model output while streaming
+  const [streamProgress, setStreamProgress] = useState<{ text: string; tokens: number | null }>({ text: '', tokens: null });
+  // True once a streamed scene is complete enough to be shown before the stream ends
+  const [isPreviewing, setIsPreviewing] = useState(false);
   
   // Stats
   const [voxelStats, setVoxelStats] = useState<VoxelStat[] | null>(null);
+  // Latest stats reported by the viewer, readable from async handlers
+  const voxelStatsRef = useRef<VoxelStat[] | null>(null);
+  // Which scene hooks took effect in the viewer
+  const [instrumentation, setInstrumentation] = useState<SceneInstrumentation | null>(null);
+  // Problems the shown scene reported while running
+  const [sceneProblems, setSceneProblems] = useState<string[]>([]);
   
   const [loadedThumbnails, setLoadedThumbnails] = useState<Record<string, string>>({});
 
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Voxel Editor: non-null while editing
+  const [editModel, setEditModel] = useState<VoxelModel | null>(null);
+
+  // Split view: ids of the two versions being compared
+  const [compareIds, setCompareIds] = useState<[string, string] | null>(null);
+
+  // Result of the last Library import/export
+  const [libraryNotice, setLibraryNotice] = useState<string | null>(null);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const libraryInputRef = useRef<HTMLInputElement>(null);
+  // Controller of the in-flight generation, if any
+  const abortRef = useRef<AbortController | null>(null);
+  const voxelFrameRef = useRef<HTMLIFrameElement>(null);
+
+  // Runtime-only instrumentation, kept out of the saved/downloaded HTML
+  // Palette remaps reach the running scene as messages, so saving them must not
+  // reload the frame: it only changes with the scene without them
+  const sceneBase = useMemo(() => voxelCode ? stripPaletteRemap(voxelCode) : null, [voxelCode]);
+  const frameHtml = useMemo(() => voxelCode ? injectSandboxPolicy(injectSceneBridge(injectSceneCapture(injectVoxelExporter(injectSectionTool(injectCameraRig(injectPaletteRuntime(injectErrorReporter(voxelCode, SCENE_CHECK_MS)))))))) : null, [sceneBase]);
+  const sceneRemaps = useMemo(() => voxelCode ? readPaletteRemap(voxelCode) : [], [voxelCode]);
+  const [orthographic, setOrthographic] = useState(false);
+  const [sectionInfo, setSectionInfo] = useState<SectionInfo | null>(null);
+  // Why the section tool can't measure the scene, if it gave up
+  const [sectionUnavailable, setSectionUnavailable] = useState<string | null>(null);
+  const [section, setSection] = useState<SectionState>(DEFAULT_SECTION);
+  // Set once the scene bridge is ready, or with the reason it never will be;
+  // clicks in the scene, for picking
+  const [sceneReady, setSceneReady] = useState(false);
+  const [sceneUnavailable, setSceneUnavailable] = useState<string | null>(null);
+  const [sceneClick, setSceneClick] = useState<{ x: number; y: number } | null>(null);
 
-  // Listen for stats messages from iframe
+  // A reloaded frame starts in perspective and uncut, and is measured again
   useEffect(() => {
+    setOrthographic(false);
+    setSectionInfo(null);
+    setSectionUnavailable(null);
+    setSection(DEFAULT_SECTION);
+    setSceneReady(false);
+    setSceneUnavailable(null);
+    setSceneClick(null);
+  }, [frameHtml]);
+
+  const customPalette = useMemo(() => parseHexList(customPaletteText), [customPaletteText]);
+  const targetPalette = useMemo((): string[] | null => {
+    if (paletteChoice === 'custom') return customPalette.colors.length > 0 ? customPalette.colors : null;
+    if (paletteChoice === 'image') return imagePalette;
+    return PALETTE_PRESETS.find(preset => preset.id === paletteChoice)?.colors || null;
+  }, [paletteChoice, customPalette, imagePalette]);
+
+  // Last persisted version of each history item, used to only write changed items
+  const persistedHistoryRef = useRef<Map<string, HistoryItem> | null>(null);
+
+  // Restore saved history on startup
+  useEffect(() => {
+    loadHistory()
+      .then(saved => {
+          persistedHistoryRef.current = new Map(saved.map(item => [item.id, item]));
+          // Keep anything created while the database was loading
+          setHistory(prev => [...prev, ...saved.filter(s => !prev.some(p => p.id === s.id))]);
+      })
+      .catch(err => {
+          console.error("Failed to load history:", err);
+          persistedHistoryRef.current = new Map();
+      });
+  }, []);
+
+  // Persist new or changed history items
+  useEffect(() => {
+    const persisted = persistedHistoryRef.current;
+    if (!persisted) return; // Still loading
+
+    history.forEach(item => {
+        if (persisted.get(item.id) === item) return;
+        persisted.set(item.id, item);
+        saveHistoryItem(item)
+          .then(evicted => {
+              if (evicted.length === 0) return;
+              evicted.forEach(id => persisted.delete(id));
+              setHistory(prev => prev.filter(h => !evicted.includes(h.id)));
+              // An evicted item can't stay open: nothing would save its changes
+              setSelectedHistoryId(prev => prev && evicted.includes(prev) ? null : prev);
+          })
+          .catch(err => console.error("Failed to save history item:", err));
+    });
+  }, [history]);
+
+  // Versions can only be compared within the open item
+  useEffect(() => {
+    if (!selectedHistoryId) setCompareIds(null);
+  }, [selectedHistoryId]);
+
+  // Listen for messages from the scene iframe
+  useEffect(() => {
+    const updateStats = (newStats: VoxelStat[]) => {
+        setVoxelStats(newStats);
+        voxelStatsRef.current = newStats;
+        
+        // Update history item (and its shown version) with stats if currently selected.
+        // A streamed preview does not belong to a version yet.
+        if (selectedHistoryId && status !== 'generating_voxels') {
+            setHistory(prev => prev.map(item => 
+                item.id === selectedHistoryId 
+                ? {
+                    ...item,
+                    stats: newStats,
+                    versions: item.versions?.map(v => v.id === item.activeVersionId ? { ...v, stats: newStats } : v),
+                  }
+                : item
+            ));
+        }
+    };
+
     const handleMessage = (event: MessageEvent) => {
-        if (event.data && event.data.type === 'voxel_stats') {
-            const newStats = event.data.stats;
-            setVoxelStats(newStats);
-            
-            // Update history item with stats if currently selected
-            if (selectedHistoryId) {
-                setHistory(prev => prev.map(item => 
-                    item.id === selectedHistoryId 
-                    ? { ...item, stats: newStats }
-                    : item
-                ));
+        // Only the main viewer reports stats for the current scene
+        const frame = voxelFrameRef.current;
+        const message = readSceneMessage(event, frame?.contentWindow);
+        if (!message || !frame) return;
+        if (message.type === 'bridge_ready') {
+            if (message.version !== BRIDGE_VERSION) {
+                console.warn(`Scene bridge version ${message.version} is not supported.`);
+                return;
             }
+            setSceneReady(true);
+            setSceneUnavailable(null);
+            callScene(frame, 'getStats', {})
+                .then(result => { if (result.stats.length > 0) updateStats(result.stats); })
+                .catch(err => console.warn("Failed to read the scene's stats:", err));
+        }
+        if (message.type === 'bridge_failed') {
+            setSceneUnavailable(message.reason);
+        }
+        if (message.type === 'bridge_event' && message.event === 'click') {
+            setSceneClick({ x: message.x, y: message.y });
+        }
+        if (message.type === 'scene_instrumentation') {
+            setInstrumentation(message.report);
+        }
+        if (message.type === 'scene_health') {
+            setSceneProblems(describeSceneProblems(message.health));
+        }
+        if (message.type === 'section_failed') {
+            setSectionUnavailable(message.reason);
+        }
+        if (message.type === 'section_info') {
+            const { layers } = message.info;
+            setSectionInfo(message.info);
+            // Start from the whole model, with a cutaway into half of it
+            setSection(prev => ({ ...prev, layer: layers[1], box: layers.map(n => Math.ceil(n / 2)) as SectionState['box'] }));
+        }
+        // Recoloured scenes report their new stats
+        if (message.type === 'voxel_stats') {
+            updateStats(message.stats);
         }
     };
     window.addEventListener('message', handleMessage);
     return () => window.removeEventListener('message', handleMessage);
-  }, [selectedHistoryId]);
+  }, [selectedHistoryId, status]);
+
+  // Colours of the current image, when they are the target palette
+  useEffect(() => {
+    setImagePalette(null);
+    if (paletteChoice !== 'image' || !imageData) return;
+    let cancelled = false;
+    extractPaletteFromImage(imageData, IMAGE_PALETTE_SIZE)
+      .then(colors => { if (!cancelled) setImagePalette(colors.length > 0 ? colors : null); })
+      .catch(err => console.error("Failed to read the image palette:", err));
+    return () => { cancelled = true; };
+  }, [paletteChoice, imageData]);
+
+  // Keep the running scene's colours in line with its saved remaps
+  useEffect(() => {
+    voxelFrameRef.current?.contentWindow?.postMessage({ type: 'set_palette_remap', remap: sceneRemaps, report: true }, '*');
+  }, [sceneRemaps]);
+
+  // A new scene reports its own hooks and problems
+  useEffect(() => {
+    setInstrumentation(null);
+    setSceneProblems([]);
+  }, [frameHtml]);
 
   // Rotate placeholders
   useEffect(() => {
@@ -151,32 +383,152 @@ const App: React.FC = () => {
       setSelectedHistoryId(newItem.id);
   };
 
-  const updateHistoryVoxel = (id: string, code: string) => {
-      setHistory(prev => prev.map(item => 
-          item.id === id ? { ...item, voxel: code } : item
+  // Finished batch items go straight into the Library without changing the view
+  const handleBatchResult = (item: HistoryItem) => {
+      setHistory(prev => [item, ...prev]);
+  };
+
+  const selectedItem = history.find(item => item.id === selectedHistoryId) || null;
+  const selectedVersions = selectedItem ? getItemVersions(selectedItem) : [];
+  const activeVersion = selectedItem ? getActiveVersion(selectedItem) : null;
+  const compareLeft = compareIds ? selectedVersions.find(v => v.id === compareIds[0]) : undefined;
+  const compareRight = compareIds ? selectedVersions.find(v => v.id === compareIds[1]) : undefined;
+
+  // Adds a version to a history item and makes it the active one
+  const addHistoryVersion = (id: string, version: VoxelVersion) => {
+      setHistory(prev => prev.map(item => {
+          if (item.id !== id) return item;
+          const versions = [...getItemVersions(item), version];
+          return { ...item, versions, activeVersionId: version.id, voxel: version.voxel, grid: version.grid || null, stats: version.stats };
+      }));
+  };
+
+  const handleTogglePin = (version: VoxelVersion) => {
+      if (!selectedHistoryId) return;
+      setHistory(prev => prev.map(item =>
+          item.id === selectedHistoryId
+          ? { ...item, versions: getItemVersions(item), pinnedVersionId: item.pinnedVersionId === version.id ? null : version.id }
+          : item
+      ));
+  };
+
+  const showVersion = (version: VoxelVersion) => {
+      setVoxelCode(version.voxel);
+      setVoxelGrid(version.grid || null);
+      setVoxelSource(version.source);
+  };
+
+  const handleSelectVersion = (version: VoxelVersion) => {
+      if (!selectedHistoryId) return;
+      showVersion(version);
+      setVoxelStats(version.stats);
+      setViewMode('voxel');
+      setCompareIds(null);
+      setHistory(prev => prev.map(item =>
+          item.id === selectedHistoryId
+          ? { ...item, versions: getItemVersions(item), activeVersionId: version.id, voxel: version.voxel, grid: version.grid || null, stats: version.stats }
+          : item
       ));
   };
 
+  const handleDeleteHistory = (id: string) => {
+      persistedHistoryRef.current?.delete(id);
+      setHistory(prev => prev.filter(item => item.id !== id));
+      if (selectedHistoryId === id) {
+          setSelectedHistoryId(null);
+          setCompareIds(null);
+      }
+      deleteHistoryItem(id).catch(err => console.error("Failed to delete history item:", err));
+  };
+
+  const handleClearHistory = () => {
+      if (!window.confirm("Delete all saved generations? This cannot be undone.")) return;
+      persistedHistoryRef.current?.clear();
+      setHistory([]);
+      setSelectedHistoryId(null);
+      setCompareIds(null);
+      clearHistory().catch(err => console.error("Failed to clear history:", err));
+  };
+
+  const handleExportLibrary = async () => {
+      setLibraryNotice(null);
+      try {
+          const archive = await exportLibrary(history);
+          downloadBlob(new Blob([archive], { type: 'application/zip' }), `voxel-library-${Date.now()}.zip`);
+      } catch (err: any) {
+          setLibraryNotice(err.message || 'Export failed.');
+          console.error(err);
+      }
+  };
+
+  const handleImportLibrary = async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      setLibraryNotice(null);
+      try {
+          const { items, duplicates } = await importLibrary(new Uint8Array(await file.arrayBuffer()), history);
+          setHistory(prev => [...items, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+          setLibraryNotice(`Imported ${items.length} item${items.length === 1 ? '' : 's'}` + (duplicates ? `, skipped ${duplicates} already in the Library.` : '.'));
+      } catch (err: any) {
+          setLibraryNotice(err.message || 'Import failed.');
+          console.error(err);
+      }
+  };
+
   const handleError = (err: any) => {
     setStatus('error');
+    setIsPreviewing(false);
     setErrorMsg(err.message || 'An unexpected error occurred.');
     console.error(err);
   };
 
+  // Starts a cancellable generation, replacing any previous controller
+  const startGeneration = (): AbortSignal => {
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // What is on screen before a generation starts, so a cancelled run can put it back
+  const snapshotView = () => ({ imageData, voxelCode, voxelGrid, voxelSource, voxelStats, viewMode, selectedHistoryId });
+
+  const restoreView = (view: ReturnType<typeof snapshotView>) => {
+    setImageData(view.imageData);
+    setVoxelCode(view.voxelCode);
+    setVoxelGrid(view.voxelGrid);
+    setVoxelSource(view.voxelSource);
+    setVoxelStats(view.voxelStats);
+    setViewMode(view.viewMode);
+    setSelectedHistoryId(view.selectedHistoryId);
+    setThinkingText(null);
+    setIsPreviewing(false);
+    setStatus('idle');
+  };
+
   const handleImageGenerate = async () => {
     if (!prompt.trim()) return;
     
+    const previousView = snapshotView();
+    const signal = startGeneration();
     setStatus('generating_image');
     setErrorMsg('');
     setImageData(null);
     setVoxelCode(null);
+    setVoxelGrid(null);
+    setVoxelSource(null);
     setVoxelStats(null);
     setThinkingText(null);
     setViewMode('image');
     setSelectedHistoryId(null);
 
     try {
-      const imageUrl = await generateImage(prompt, aspectRatio, useOptimization);
+      const imageUrl = await generateImage(prompt, aspectRatio, useOptimization, signal);
       
       setImageData(imageUrl);
       setVoxelCode(null);
@@ -185,7 +537,11 @@ const App: React.FC = () => {
       
       setStatus('idle');
     } catch (err) {
-      handleError(err);
+      if (signal.aborted) {
+        restoreView(previousView);
+      } else {
+        handleError(err);
+      }
     }
   };
 
@@ -200,6 +556,8 @@ const App: React.FC = () => {
       const result = e.target?.result as string;
       setImageData(result);
       setVoxelCode(null);
+      setVoxelGrid(null);
+      setVoxelSource(null);
       setVoxelStats(null);
       setViewMode('image');
       setStatus('idle');
@@ -233,12 +591,14 @@ const App: React.FC = () => {
       });
 
       let htmlText = '';
+      let sourceText = '';
       try {
         const htmlResponse = await fetch(example.html);
         if (htmlResponse.ok) {
             const rawText = await htmlResponse.text();
+            sourceText = extractHtmlFromText(rawText);
             // Process the HTML to inject monitors, layer sliders and fix controls
-            htmlText = enhanceControls(injectLayerSlider(injectSceneMonitor(zoomCamera(hideBodyText(extractHtmlFromText(rawText))))));
+            htmlText = processSceneHtml(sourceText);
         }
       } catch (e) {
           console.warn("Failed to fetch HTML", e);
@@ -246,6 +606,8 @@ const App: React.FC = () => {
 
       setImageData(base64Img);
       setVoxelCode(htmlText);
+      setVoxelGrid(null);
+      setVoxelSource(sourceText || null);
       setViewMode('voxel');
       setStatus('idle');
       setPrompt("");
@@ -256,42 +618,166 @@ const App: React.FC = () => {
   };
 
   const handleHistoryClick = (item: HistoryItem) => {
-      if (status !== 'idle' && status !== 'error') return;
+      if (isLocked) return;
       setImageData(item.image);
-      setVoxelCode(item.voxel);
-      setVoxelStats(item.stats);
+      const version = getOpeningVersion(item);
+      if (version) {
+          showVersion(version);
+          setVoxelStats(version.stats);
+          if (version.id !== item.activeVersionId) {
+              setHistory(prev => prev.map(h => h.id === item.id ? { ...h, versions: getItemVersions(h), activeVersionId: version.id, voxel: version.voxel, grid: version.grid || null, stats: version.stats } : h));
+          }
+      } else {
+          setVoxelCode(null);
+          setVoxelGrid(null);
+          setVoxelSource(null);
+          setVoxelStats(null);
+      }
       setPrompt(item.prompt);
       setSelectedHistoryId(item.id);
-      setViewMode(item.voxel ? 'voxel' : 'image');
+      setCompareIds(null);
+      setViewMode(version ? 'voxel' : 'image');
       setErrorMsg('');
   };
 
+  // Shows the latest bolded **header** of the model's thoughts in the overlay
+  // and keeps the full log for the expandable panel
+  const createThoughtHandler = () => {
+    let thoughtBuffer = "";
+    return (thoughtFragment: string) => {
+        thoughtBuffer += thoughtFragment;
+        setThoughtLog(thoughtBuffer);
+        const matches = thoughtBuffer.match(/\*\*([^*]+)\*\*/g);
+        if (matches && matches.length > 0) {
+            const lastMatch = matches[matches.length - 1];
+            const header = lastMatch.replace(/\*\*/g, '').trim();
+            setThinkingText(prev => prev === header ? prev : header);
+        }
+    };
+  };
+
+  // Streams thoughts and partial output into the overlay. With `earlyRender`,
+  // the scene is shown as soon as a complete document has arrived; `preview`
+  // holds the processed HTML that was shown.
+  const createStreamHandlers = (earlyRender: boolean) => {
+    setThoughtLog('');
+    setStreamProgress({ text: '', tokens: null });
+    setIsPreviewing(false);
+
+    const stream = { preview: null as string | null };
+    const handlers: StreamHandlers = {
+        onThought: createThoughtHandler(),
+        onText: (text, tokens) => {
+            setStreamProgress({ text, tokens });
+            if (earlyRender && !stream.preview && /<\/html>/i.test(text)) {
+                stream.preview = processSceneHtml(extractHtmlFromText(text));
+                voxelStatsRef.current = null;
+                setVoxelCode(stream.preview);
+                setVoxelGrid(null);
+                setVoxelStats(null);
+                setViewMode('voxel');
+                setCompareIds(null);
+                setIsPreviewing(true);
+            }
+        },
+    };
+    return { handlers, stream };
+  };
+
+  // Stats for a finished stream: when the final scene is the preview already
+  // on screen, the viewer will not report again
+  const getStreamedStats = (stream: { preview: string | null }, code: string): VoxelStat[] | null => {
+    return stream.preview === code ? voxelStatsRef.current : null;
+  };
+
+  // Runs a generated scene offscreen and, while it reports problems, asks the
+  // model to fix them (up to MAX_REPAIR_ATTEMPTS times). Each run is logged
+  // in the overlay; the last answer is returned with the stream and prompt
+  // that produced it.
+  const checkAndRepair = async (image: string, source: string, stream: { preview: string | null }, signal: AbortSignal) => {
+    let current = { source, stream, prompt: withPalette(VOXEL_PROMPT, targetPalette) };
+    for (let attempt = 0; ; attempt++) {
+        setRepairSteps(prev => [...prev, { attempt, status: 'checking', problems: [] }]);
+        setThinkingText('Running the scene');
+
+        const problems = /<script\b/i.test(current.source)
+          ? describeSceneProblems(await checkSceneHealth(processSceneHtml(current.source), SCENE_CHECK_MS, signal))
+          : ['The answer does not contain a scene script.'];
+        setRepairSteps(prev => prev.map(step => step.attempt === attempt
+          ? { ...step, status: problems.length > 0 ? 'broken' : 'ok', problems }
+          : step
+        ));
+        if (problems.length === 0 || attempt === MAX_REPAIR_ATTEMPTS) return current;
+
+        setRepairProblems(problems);
+        setThinkingText(null);
+        const next = createStreamHandlers(true);
+        const repaired = await repairVoxelScene(image, current.source, problems, next.handlers, signal, targetPalette);
+        current = { source: repaired, stream: next.stream, prompt: buildRepairPrompt(problems) };
+    }
+  };
+
   const handleVoxelize = async () => {
     if (!imageData) return;
+    const previousView = snapshotView();
+    const signal = startGeneration();
     setStatus('generating_voxels');
     setErrorMsg('');
     setThinkingText(null);
     setVoxelStats(null);
+    setRepairSteps([]);
+    setRepairProblems(null);
     
-    let thoughtBuffer = "";
+    const { handlers, stream } = createStreamHandlers(voxelMode === 'code');
 
     try {
-      const codeRaw = await generateVoxelScene(imageData, (thoughtFragment) => {
-          thoughtBuffer += thoughtFragment;
-          const matches = thoughtBuffer.match(/\*\*([^*]+)\*\*/g);
-          if (matches && matches.length > 0) {
-              const lastMatch = matches[matches.length - 1];
-              const header = lastMatch.replace(/\*\*/g, '').trim();
-              setThinkingText(prev => prev === header ? prev : header);
+      let source: string;
+      let grid: VoxelGrid | null = null;
+      let localStats: VoxelStat[] | null = null;
+      let finalStream = stream;
+      let finalPrompt = withPalette(voxelMode === 'grid' ? VOXEL_GRID_PROMPT : VOXEL_PROMPT, targetPalette);
+
+      if (voxelMode === 'local') {
+          // No model call: quantize the image and build a relief from its pixels
+          const model = await generateLocalVoxelModel(imageData, localOptions, targetPalette);
+          grid = encodeVoxelGrid(model);
+          localStats = computeVoxelStats(model);
+          source = renderVoxelSceneHtml(model, prompt || 'Voxel Scene');
+          finalPrompt = describeLocalOptions(localOptions, targetPalette);
+      } else if (voxelMode === 'grid') {
+          // Structured mode: render the returned grid with our own scene template
+          grid = await generateVoxelGrid(imageData, handlers, signal, targetPalette);
+          source = renderVoxelSceneHtml(decodeVoxelGrid(grid), prompt || 'Voxel Scene');
+      } else {
+          source = await generateVoxelScene(imageData, handlers, signal, targetPalette);
+          if (autoRepair) {
+              const checked = await checkAndRepair(imageData, source, stream, signal);
+              source = checked.source;
+              finalStream = checked.stream;
+              finalPrompt = checked.prompt;
           }
-      });
-      
-      // Process the generated code
-      const code = enhanceControls(injectLayerSlider(injectSceneMonitor(zoomCamera(hideBodyText(codeRaw)))));
-      setVoxelCode(code);
+      }
+
+      // Process the generated code; each generation becomes a new variant
+      const code = processSceneHtml(source);
+      const version = {
+          ...createVersion({
+              parentId: null,
+              instruction: null,
+              prompt: finalPrompt,
+              model: voxelMode === 'local' ? LOCAL_MODEL_ID : provider.voxelModel.id,
+              source,
+              voxel: code,
+              grid,
+          }),
+          stats: localStats || getStreamedStats(finalStream, code),
+      };
+      showVersion(version);
+      setVoxelStats(version.stats);
+      setCompareIds(null);
       
       if (selectedHistoryId) {
-          updateHistoryVoxel(selectedHistoryId, code);
+          addHistoryVersion(selectedHistoryId, version);
       } else {
           // If we generated voxels for an example or something not in history, add it now?
           // Or strictly update current view. Let's just keep it in view for now.
@@ -300,38 +786,254 @@ const App: React.FC = () => {
       setViewMode('voxel');
       setStatus('idle');
       setThinkingText(null);
+      setIsPreviewing(false);
     } catch (err) {
-      handleError(err);
+      if (signal.aborted) {
+        // Keep the previous scene untouched
+        restoreView(previousView);
+      } else {
+        handleError(err);
+      }
+    } finally {
+      setRepairProblems(null);
+    }
+  };
+
+  const handleRefine = async () => {
+    const instruction = refineText.trim();
+    if (!imageData || !voxelSource || !instruction) return;
+    const previousView = snapshotView();
+    const signal = startGeneration();
+    setStatus('generating_voxels');
+    setRefiningInstruction(instruction);
+    setErrorMsg('');
+    setThinkingText(null);
+
+    // Conversation so far: the path from the original generation to the shown version
+    const turns: RefinementTurn[] = activeVersion
+      ? getVersionPath(selectedVersions, activeVersion.id).map(v => ({ instruction: v.instruction, source: v.source, rendered: !!v.grid }))
+      : [{ instruction: null, source: voxelSource, rendered: voxelGrid !== null }];
+
+    try {
+      const { handlers, stream } = createStreamHandlers(true);
+      const source = await refineVoxelScene(imageData, turns, instruction, handlers, signal, targetPalette);
+      const code = processSceneHtml(source);
+      const version = {
+          ...createVersion({
+              parentId: activeVersion ? activeVersion.id : null,
+              instruction,
+              prompt: `${REFINE_PROMPT}\n\nInstruction: ${instruction}`,
+              model: provider.voxelModel.id,
+              source,
+              voxel: code,
+              grid: null,
+          }),
+          stats: getStreamedStats(stream, code),
+      };
+      showVersion(version);
+      setVoxelStats(version.stats);
+      setCompareIds(null);
+      if (selectedHistoryId) {
+          addHistoryVersion(selectedHistoryId, version);
+      }
+
+      setRefineText('');
+      setViewMode('voxel');
+      setStatus('idle');
+      setThinkingText(null);
+      setIsPreviewing(false);
+    } catch (err) {
+      if (signal.aborted) {
+        restoreView(previousView);
+      } else {
+        handleError(err);
+      }
+    } finally {
+      setRefiningInstruction(null);
     }
   };
 
-  const handleDownload = () => {
+  const handleDownload = async () => {
     if (viewMode === 'image' && imageData) {
-      const a = document.createElement('a');
-      a.href = imageData;
       const ext = imageData.includes('image/jpeg') ? 'jpg' : 'png';
-      a.download = `voxelize-image-${Date.now()}.${ext}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
+      downloadUrl(imageData, `voxelize-image-${Date.now()}.${ext}`);
     } else if (viewMode === 'voxel' && voxelCode) {
-      const a = document.createElement('a');
-      a.href = `data:text/html;charset=utf-8,${encodeURIComponent(voxelCode)}`;
-      a.download = `voxel-scene-${Date.now()}.html`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
+      // Single file with Three.js inlined, so it runs from disk
+      setIsExporting(true);
+      setErrorMsg('');
+      try {
+        const html = await bundleSceneHtml(voxelCode);
+        downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `voxel-scene-${Date.now()}.html`);
+      } catch (err: any) {
+        setErrorMsg(err.message || 'Download failed.');
+        console.error(err);
+      } finally {
+        setIsExporting(false);
+      }
+    }
+  };
+
+  // Small variant that loads the pinned Three.js from the CDN instead
+  const handleDownloadCdn = () => {
+    if (!voxelCode) return;
+    downloadBlob(new Blob([toCdnThreeImports(voxelCode)], { type: 'text/html;charset=utf-8' }), `voxel-scene-${Date.now()}.html`);
+  };
+
+  // Reads the voxels of the scene currently shown in the viewer
+  const getSceneModel = async (): Promise<VoxelModel> => {
+    // Grid scenes already have exact voxel data; saved remaps only live in
+    // the HTML, so they are applied here
+    if (voxelGrid) {
+      return decodeVoxelGrid(remapGridPalette(voxelGrid, sceneRemaps));
+    }
+    if (!voxelFrameRef.current) {
+      throw new Error("Open the voxel scene to export it.");
+    }
+    const model = quantizeSceneVoxels(await requestSceneVoxels(voxelFrameRef.current));
+    if (model.voxels.length === 0) {
+      throw new Error("No voxels found in this scene.");
+    }
+    return model;
+  };
+
+  const handleExport = async (format: 'vox' | 'glb') => {
+    setIsExporting(true);
+    setErrorMsg('');
+
+    try {
+      const model = await getSceneModel();
+      const blob = format === 'vox'
+        ? new Blob([encodeVox(model)], { type: 'application/octet-stream' })
+        : new Blob([encodeGlb(greedyMesh(model))], { type: 'model/gltf-binary' });
+      downloadBlob(blob, `voxel-scene-${Date.now()}.${format}`);
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Export failed.');
+      console.error(err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleStartEdit = async () => {
+    setIsExporting(true);
+    setErrorMsg('');
+    try {
+      setEditModel(await getSceneModel());
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Could not read the voxels of this scene.');
+      console.error(err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSaveEdit = (model: VoxelModel) => {
+    // Edited scenes are stored as grids and re-rendered with the built-in template
+    const grid = encodeVoxelGrid(model);
+    const source = renderVoxelSceneHtml(model, prompt || 'Voxel Scene');
+    const stats = computeVoxelStats(model);
+    const version = {
+        ...createVersion({
+            parentId: activeVersion ? activeVersion.id : null,
+            instruction: 'Edited in voxel editor',
+            prompt: 'Edited in voxel editor',
+            model: 'Voxel Editor',
+            source,
+            voxel: processSceneHtml(source),
+            grid,
+        }),
+        stats,
+    };
+
+    showVersion(version);
+    setVoxelStats(stats);
+    if (selectedHistoryId) {
+        addHistoryVersion(selectedHistoryId, version);
+    }
+    setEditModel(null);
+  };
+
+  // Saves colour remaps into the shown scene and its version; the frame picks
+  // them up by message (see sceneRemaps) and reports fresh stats
+  const saveSceneRemaps = (remaps: ColorRemap[], stats: VoxelStat[] | null) => {
+    if (!voxelCode) return;
+    const code = writePaletteRemap(voxelCode, remaps);
+    setVoxelCode(code);
+    setVoxelStats(stats);
+    voxelStatsRef.current = stats;
+    if (selectedHistoryId) {
+        setHistory(prev => prev.map(item =>
+            item.id === selectedHistoryId
+            ? {
+                ...item,
+                voxel: code,
+                stats,
+                versions: item.versions?.map(v => v.id === item.activeVersionId ? { ...v, voxel: code, stats } : v),
+              }
+            : item
+        ));
     }
   };
 
+  const handleApplyRemaps = (remaps: ColorRemap[]) => {
+    if (remaps.length === 0) return;
+    saveSceneRemaps([...sceneRemaps, ...remaps], voxelStats && remaps.reduce(remapStats, voxelStats));
+  };
+
+  // Drives the shown scene through its bridge
+  // Stable, so the panels can depend on it
+  const callVoxelScene = useCallback<SceneCaller>((method, params) => {
+    const frame = voxelFrameRef.current;
+    if (!frame) return Promise.reject(new Error("The voxel scene is not loaded."));
+    return callScene(frame, method, params);
+  }, []);
+
+  const handleCameraView = (view: CameraView) => {
+    callVoxelScene('setCamera', { view }).catch(err => setErrorMsg(err.message || 'Failed to move the camera.'));
+  };
+
+  const handleOrthographic = (value: boolean) => {
+    setOrthographic(value);
+    callVoxelScene('setCamera', { orthographic: value })
+        .then(camera => setOrthographic(camera.orthographic))
+        .catch(err => {
+            setOrthographic(!value);
+            setErrorMsg(err.message || 'Failed to change the projection.');
+        });
+  };
+
+  const handleSection = (next: SectionState) => {
+    setSection(next);
+    voxelFrameRef.current?.contentWindow?.postMessage({ type: 'set_section', section: next }, '*');
+  };
+
+  const handlePreviewRemap = (remap: ColorRemap | null) => {
+    voxelFrameRef.current?.contentWindow?.postMessage({
+        type: 'set_palette_remap',
+        remap: remap ? [...sceneRemaps, remap] : sceneRemaps,
+        report: false,
+    }, '*');
+  };
+
   const isLoading = status !== 'idle' && status !== 'error';
+  // The sidebar is also locked while the voxel editor is open
+  const isLocked = isLoading || editModel !== null;
 
   const getDisplayPrompt = () => {
     if (status === 'generating_image') {
       return useOptimization ? `${IMAGE_SYSTEM_PROMPT}\n\nSubject: ${prompt}` : prompt;
     }
     if (status === 'generating_voxels') {
-      return VOXEL_PROMPT;
+      if (refiningInstruction) {
+        return `${REFINE_PROMPT}\n\nInstruction: ${refiningInstruction}`;
+      }
+      if (repairProblems) {
+        return buildRepairPrompt(repairProblems);
+      }
+      if (voxelMode === 'local') {
+        return describeLocalOptions(localOptions, targetPalette);
+      }
+      return withPalette(voxelMode === 'grid' ? VOXEL_GRID_PROMPT : VOXEL_PROMPT, targetPalette);
     }
     return '';
   };
@@ -375,7 +1077,7 @@ const App: React.FC = () => {
                                 value={prompt}
                                 onChange={(e) => setPrompt(e.target.value)}
                                 placeholder={SAMPLE_PROMPTS[placeholderIndex]}
-                                disabled={isLoading}
+                                disabled={isLocked}
                                 className="w-full px-4 py-3 bg-gray-50 border-2 border-transparent focus:border-black focus:bg-white focus:outline-none transition-all font-medium text-sm rounded-lg"
                             />
                         </div>
@@ -384,7 +1086,7 @@ const App: React.FC = () => {
                              <select
                                 value={aspectRatio}
                                 onChange={(e) => setAspectRatio(e.target.value)}
-                                disabled={isLoading}
+                                disabled={isLocked}
                                 className="w-24 px-2 py-2 bg-gray-50 border-2 border-transparent focus:border-black rounded-lg text-xs font-bold uppercase focus:outline-none"
                             >
                                 {ASPECT_RATIOS.map(ratio => (
@@ -394,7 +1096,7 @@ const App: React.FC = () => {
                             
                             <button
                                 onClick={() => fileInputRef.current?.click()}
-                                disabled={isLoading}
+                                disabled={isLocked}
                                 className="flex-1 bg-gray-50 hover:bg-gray-100 border-2 border-dashed border-gray-300 hover:border-black rounded-lg text-xs font-bold uppercase text-gray-500 hover:text-black transition-all flex items-center justify-center gap-2"
                             >
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -413,7 +1115,7 @@ const App: React.FC = () => {
                                         className="sr-only"
                                         checked={useOptimization}
                                         onChange={(e) => setUseOptimization(e.target.checked)}
-                                        disabled={isLoading}
+                                        disabled={isLocked}
                                     />
                                     <div className={`block w-8 h-5 rounded-full transition-colors ${useOptimization ? 'bg-black' : 'bg-gray-300'}`}></div>
                                     <div className={`dot absolute left-1 top-1 bg-white w-3 h-3 rounded-full transition-transform ${useOptimization ? 'translate-x-3' : ''}`}></div>
@@ -424,7 +1126,7 @@ const App: React.FC = () => {
 
                         <button
                             onClick={handleImageGenerate}
-                            disabled={isLoading || !prompt.trim()}
+                            disabled={isLocked || !prompt.trim()}
                             className="w-full py-4 bg-black text-white font-bold uppercase text-sm rounded-lg hover:bg-gray-800 active:scale-[0.98] transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
                         >
                             {status === 'generating_image' ? 'Generating Image...' : 'Generate Image'}
@@ -440,55 +1142,232 @@ const App: React.FC = () => {
                              <div className="grid grid-cols-2 gap-2">
                                 <button
                                     onClick={() => setViewMode(viewMode === 'image' ? 'voxel' : 'image')}
-                                    disabled={isLoading || !voxelCode}
+                                    disabled={isLocked || !voxelCode}
                                     className="px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30 disabled:border-gray-200"
                                 >
                                     {viewMode === 'image' ? 'View Scene' : 'View Image'}
                                 </button>
                                 <button
                                     onClick={handleDownload}
-                                    disabled={isLoading}
+                                    disabled={isLocked || isExporting}
+                                    title={viewMode === 'voxel' ? 'Single HTML file with Three.js included, works offline' : undefined}
                                     className="px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
                                 >
                                     Download
                                 </button>
                              </div>
+                             {viewMode === 'voxel' && voxelCode && (
+                                <button
+                                    onClick={handleStartEdit}
+                                    disabled={isLocked || isExporting}
+                                    className="w-full px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+                                >
+                                    Edit Voxels
+                                </button>
+                             )}
+                             {viewMode === 'voxel' && voxelCode && (
+                                <div className="flex items-center gap-2">
+                                    <span className="text-[10px] font-bold uppercase text-gray-400">Export</span>
+                                    <button
+                                        onClick={() => handleExport('vox')}
+                                        disabled={isLocked || isExporting}
+                                        title="MagicaVoxel model"
+                                        className="flex-1 px-2 py-1 border border-gray-200 bg-white hover:border-black text-[10px] font-bold uppercase rounded-md transition-all disabled:opacity-30"
+                                    >
+                                        .VOX
+                                    </button>
+                                    <button
+                                        onClick={() => handleExport('glb')}
+                                        disabled={isLocked || isExporting}
+                                        title="glTF binary for game engines"
+                                        className="flex-1 px-2 py-1 border border-gray-200 bg-white hover:border-black text-[10px] font-bold uppercase rounded-md transition-all disabled:opacity-30"
+                                    >
+                                        .GLB
+                                    </button>
+                                    <button
+                                        onClick={handleDownloadCdn}
+                                        disabled={isLocked || isExporting}
+                                        title="Small HTML file that loads Three.js from the CDN"
+                                        className="flex-1 px-2 py-1 border border-gray-200 bg-white hover:border-black text-[10px] font-bold uppercase rounded-md transition-all disabled:opacity-30"
+                                    >
+                                        .HTML
+                                    </button>
+                                </div>
+                             )}
+                             <div className="flex items-center gap-2">
+                                <span className="text-[10px] font-bold uppercase text-gray-400">Output</span>
+                                <div className="flex-1 grid grid-cols-3 p-0.5 bg-gray-100 rounded-md">
+                                    {(['code', 'grid', 'local'] as VoxelMode[]).map(mode => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => setVoxelMode(mode)}
+                                            disabled={isLocked}
+                                            title={VOXEL_MODE_TITLES[mode]}
+                                            className={`py-1 text-[10px] font-bold uppercase rounded transition-all ${voxelMode === mode ? 'bg-white shadow-sm text-black' : 'text-gray-400 hover:text-black'}`}
+                                        >
+                                            {VOXEL_MODE_LABELS[mode]}
+                                        </button>
+                                    ))}
+                                </div>
+                             </div>
+                             {voxelMode === 'local' && (
+                                <LocalVoxelSettings options={localOptions} onChange={setLocalOptions} disabled={isLocked} />
+                             )}
+                             <PaletteSelector
+                                choice={paletteChoice}
+                                onChoiceChange={setPaletteChoice}
+                                customText={customPaletteText}
+                                onCustomTextChange={setCustomPaletteText}
+                                palette={targetPalette}
+                                invalid={paletteChoice === 'custom' ? customPalette.invalid : []}
+                                disabled={isLocked}
+                             />
+                             {voxelMode === 'code' && (
+                                <label className="flex items-center gap-2 cursor-pointer select-none" title={`Run the generated scene and send its errors back to the model, up to ${MAX_REPAIR_ATTEMPTS} times`}>
+                                    <input
+                                        type="checkbox"
+                                        checked={autoRepair}
+                                        onChange={(e) => setAutoRepair(e.target.checked)}
+                                        disabled={isLocked}
+                                        className="accent-black"
+                                    />
+                                    <span className="text-[10px] font-bold uppercase text-gray-400">Auto-repair broken scenes</span>
+                                </label>
+                             )}
                              <button
                                 onClick={handleVoxelize}
-                                disabled={isLoading}
+                                disabled={isLocked}
                                 className="w-full py-3 bg-indigo-600 text-white font-bold uppercase text-xs rounded-lg hover:bg-indigo-700 active:scale-[0.98] transition-all shadow-md disabled:opacity-50"
                             >
                                 {voxelCode ? 'Regenerate 3D Voxels' : 'Generate 3D Voxels'}
                             </button>
+                            {voxelSource && (
+                                <div className="flex gap-2">
+                                    <input
+                                        type="text"
+                                        value={refineText}
+                                        onChange={(e) => setRefineText(e.target.value)}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') handleRefine(); }}
+                                        placeholder="Refine: make the roof red..."
+                                        disabled={isLocked}
+                                        className="flex-1 min-w-0 px-3 py-2 bg-gray-50 border-2 border-transparent focus:border-indigo-600 focus:bg-white focus:outline-none transition-all text-xs rounded-lg"
+                                    />
+                                    <button
+                                        onClick={handleRefine}
+                                        disabled={isLocked || !refineText.trim()}
+                                        className="px-3 py-2 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-40"
+                                    >
+                                        Refine
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Version history of the selected generation */}
+                    {selectedVersions.length > 1 && (
+                        <VersionPanel
+                            versions={selectedVersions}
+                            activeId={activeVersion ? activeVersion.id : null}
+                            pinnedId={selectedItem?.pinnedVersionId || null}
+                            compareIds={compareIds}
+                            disabled={isLocked}
+                            onSelect={handleSelectVersion}
+                            onTogglePin={handleTogglePin}
+                            onCompare={(ids) => { setCompareIds(ids); if (ids) setViewMode('voxel'); }}
+                        />
+                    )}
+
+                    {instrumentation && viewMode === 'voxel' && voxelCode && !editModel && (
+                        <InstrumentationReport report={instrumentation} />
+                    )}
+
+                    {sceneProblems.length > 0 && viewMode === 'voxel' && voxelCode && !editModel && !isLoading && (
+                        <div className="space-y-1 p-2 bg-amber-50 border border-amber-200 rounded-lg animate-in fade-in duration-300">
+                            <label className="block text-[10px] font-bold uppercase text-amber-700">Scene Problems</label>
+                            <ul className="font-mono text-[10px] text-amber-800 space-y-0.5">
+                                {sceneProblems.map((problem, i) => (
+                                    <li key={i} className="truncate" title={problem}>• {problem}</li>
+                                ))}
+                            </ul>
                         </div>
                     )}
 
                     {/* 3. Voxel Palette */}
                     {voxelStats && viewMode === 'voxel' && (
-                        <div className="animate-in fade-in slide-in-from-left-4 duration-500">
-                            <div className="flex justify-between items-baseline mb-2">
-                                <label className="block text-xs font-bold uppercase text-gray-500">Palette</label>
-                                <span className="text-[10px] font-bold text-gray-400">{voxelStats.reduce((a,b)=>a+b.count,0)} Blocks</span>
-                            </div>
-                            <div className="bg-gray-50 p-3 rounded-xl border border-gray-100">
-                                <div className="grid grid-cols-5 gap-2">
-                                    {voxelStats.slice(0, 15).map((stat, i) => (
-                                        <div key={i} className="group relative flex flex-col items-center">
-                                            <div 
-                                                className="w-full aspect-square rounded-md shadow-sm border border-black/10" 
-                                                style={{ backgroundColor: stat.color }}
-                                            />
-                                            <span className="text-[9px] font-mono mt-1 text-gray-500">{stat.count}</span>
-                                        </div>
-                                    ))}
-                                </div>
-                            </div>
-                        </div>
+                        <PalettePanel
+                            stats={voxelStats}
+                            targetPalette={targetPalette}
+                            hasRemaps={sceneRemaps.length > 0}
+                            disabled={isLocked}
+                            onPreview={handlePreviewRemap}
+                            onApply={handleApplyRemaps}
+                            onReset={() => saveSceneRemaps([], voxelStats)}
+                        />
                     )}
                     
+                    {/* 4. Scene controls, section, capture, 3D print and build kits */}
+                    {viewMode === 'voxel' && voxelCode && (
+                        <ScenePanel
+                            ready={sceneReady}
+                            unavailable={sceneUnavailable}
+                            click={sceneClick}
+                            call={callVoxelScene}
+                            disabled={isLocked}
+                            onError={setErrorMsg}
+                        />
+                    )}
+
+                    {viewMode === 'voxel' && voxelCode && (
+                        <SectionPanel
+                            info={sectionInfo}
+                            unavailable={sectionUnavailable}
+                            section={section}
+                            disabled={isLocked}
+                            onChange={handleSection}
+                        />
+                    )}
+
+                    {viewMode === 'voxel' && voxelCode && (
+                        <CapturePanel
+                            getFrame={() => voxelFrameRef.current}
+                            disabled={isLocked || isExporting}
+                            onError={setErrorMsg}
+                        />
+                    )}
+
+                    {viewMode === 'voxel' && voxelCode && (
+                        <PrintPanel
+                            sceneHtml={voxelCode}
+                            getModel={getSceneModel}
+                            disabled={isLocked || isExporting}
+                            onError={setErrorMsg}
+                        />
+                    )}
+
+                    {viewMode === 'voxel' && voxelCode && (
+                        <BuildKitPanel
+                            sceneHtml={voxelCode}
+                            getModel={getSceneModel}
+                            disabled={isLocked || isExporting}
+                            onError={setErrorMsg}
+                        />
+                    )}
+
                     <hr className="border-gray-100" />
 
-                    {/* 4. Library / History */}
+                    {/* 5. Batch generation */}
+                    <BatchPanel
+                        aspectRatios={ASPECT_RATIOS}
+                        allowedTypes={ALLOWED_MIME_TYPES}
+                        defaults={{ aspectRatio, optimize: useOptimization, voxelMode, localOptions, palette: targetPalette }}
+                        onResult={handleBatchResult}
+                        onOpenResult={(id) => { const item = history.find(h => h.id === id); if (item) handleHistoryClick(item); }}
+                    />
+
+                    <hr className="border-gray-100" />
+
+                    {/* 6. Library / History */}
                     <div className="space-y-4">
                         <label className="block text-xs font-bold uppercase text-gray-500">Library</label>
                         
@@ -498,7 +1377,7 @@ const App: React.FC = () => {
                                 <button
                                     key={`ex-${idx}`}
                                     onClick={() => handleExampleClick(ex)}
-                                    disabled={isLoading}
+                                    disabled={isLocked}
                                     className="relative aspect-square rounded-lg overflow-hidden border-2 border-transparent hover:border-black transition-all focus:outline-none group"
                                 >
                                     {loadedThumbnails[ex.img] && (
@@ -510,16 +1389,51 @@ const App: React.FC = () => {
                         </div>
 
                         {/* User History */}
-                        {history.length > 0 && (
-                            <div className="space-y-2 mt-4">
+                        <div className="space-y-2 mt-4">
+                            <div className="flex justify-between items-baseline">
                                 <div className="text-[10px] font-bold uppercase text-gray-400">Recent Generations</div>
-                                <div className="grid grid-cols-1 gap-2">
-                                    {history.map((item) => (
+                                <div className="flex gap-3">
+                                    <button
+                                        onClick={() => libraryInputRef.current?.click()}
+                                        disabled={isLocked}
+                                        className="text-[10px] font-bold uppercase text-gray-400 hover:text-black transition-colors disabled:opacity-30"
+                                    >
+                                        Import
+                                    </button>
+                                    {history.length > 0 && (
+                                        <>
+                                            <button
+                                                onClick={handleExportLibrary}
+                                                disabled={isLocked}
+                                                className="text-[10px] font-bold uppercase text-gray-400 hover:text-black transition-colors disabled:opacity-30"
+                                            >
+                                                Export
+                                            </button>
+                                            <button
+                                                onClick={handleClearHistory}
+                                                disabled={isLocked}
+                                                className="text-[10px] font-bold uppercase text-gray-400 hover:text-red-600 transition-colors disabled:opacity-30"
+                                            >
+                                                Clear All
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                                <input type="file" ref={libraryInputRef} onChange={handleImportLibrary} className="hidden" accept=".zip,application/zip" />
+                            </div>
+                            {libraryNotice && (
+                                <div className="text-[10px] text-gray-500">{libraryNotice}</div>
+                            )}
+                            <div className="grid grid-cols-1 gap-2">
+                                {history.map((item) => (
+                                    <div
+                                        key={item.id}
+                                        className={`group flex items-center gap-1 rounded-lg transition-all border border-transparent ${selectedHistoryId === item.id ? 'bg-gray-100 border-gray-200' : 'hover:bg-gray-50'}`}
+                                    >
                                         <button
-                                            key={item.id}
                                             onClick={() => handleHistoryClick(item)}
-                                            disabled={isLoading}
-                                            className={`flex items-center gap-3 p-2 rounded-lg text-left transition-all border border-transparent ${selectedHistoryId === item.id ? 'bg-gray-100 border-gray-200' : 'hover:bg-gray-50'}`}
+                                            disabled={isLocked}
+                                            className="flex-1 min-w-0 flex items-center gap-3 p-2 text-left"
                                         >
                                             <div className="w-10 h-10 rounded-md overflow-hidden bg-gray-200 flex-shrink-0">
                                                 <img src={item.image} alt="" className="w-full h-full object-cover" />
@@ -532,10 +1446,20 @@ const App: React.FC = () => {
                                                 </div>
                                             </div>
                                         </button>
-                                    ))}
-                                </div>
+                                        <button
+                                            onClick={() => handleDeleteHistory(item.id)}
+                                            disabled={isLocked}
+                                            title="Delete"
+                                            className="p-2 mr-1 rounded text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-600 hover:bg-red-50 transition-all disabled:hidden"
+                                        >
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                                                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                                            </svg>
+                                        </button>
+                                    </div>
+                                ))}
                             </div>
-                        )}
+                        </div>
                     </div>
 
                 </div>
@@ -548,7 +1472,7 @@ const App: React.FC = () => {
             <div className="flex-1 w-full bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden relative flex flex-col items-center justify-center">
                 
                 {/* Loading / Thinking Overlay */}
-                {isLoading && (
+                {isLoading && !isPreviewing && (
                     <div className="absolute inset-0 z-30 bg-white/90 backdrop-blur-sm flex flex-col items-center justify-center p-12 text-center animate-in fade-in duration-300">
                         <div className="w-16 h-16 border-4 border-black border-t-transparent rounded-full animate-spin mb-8"></div>
                         <h2 className="text-2xl font-black mb-4">
@@ -557,7 +1481,7 @@ const App: React.FC = () => {
                         
                         <div className="max-w-xl font-mono text-xs text-gray-500 bg-gray-50 p-4 rounded-lg border border-gray-200 w-full text-left max-h-64 overflow-y-auto">
                             <div className="mb-2 font-bold text-black border-b border-gray-200 pb-2">
-                                {status === 'generating_image' ? 'Gemini 2.5 Flash Image' : 'Gemini 3 Pro'}
+                                {status === 'generating_image' ? provider.imageModel.label : provider.voxelModel.label}
                             </div>
                             <p className="whitespace-pre-wrap">
                                 {getDisplayPrompt()}
@@ -570,9 +1494,49 @@ const App: React.FC = () => {
                                 </div>
                             )}
                         </div>
+
+                        {status === 'generating_voxels' && repairSteps.length > 0 && (
+                            <div className="max-w-xl w-full mt-3">
+                                <RepairLog steps={repairSteps} maxAttempts={MAX_REPAIR_ATTEMPTS} />
+                            </div>
+                        )}
+
+                        {status === 'generating_voxels' && (
+                            <div className="max-w-xl w-full mt-3">
+                                <StreamLog text={streamProgress.text} tokens={streamProgress.tokens} thoughts={thoughtLog} />
+                            </div>
+                        )}
+
+                        <button
+                            onClick={handleCancel}
+                            className="mt-6 px-6 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all"
+                        >
+                            Cancel
+                        </button>
                     </div>
                 )}
                 
+                {/* Streamed scene is already shown; the model is still finishing */}
+                {isLoading && isPreviewing && (
+                    <div className="absolute bottom-6 right-6 z-30 w-72 bg-white/95 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-3 space-y-2 animate-in fade-in duration-300">
+                        <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 border-2 border-black border-t-transparent rounded-full animate-spin"></div>
+                            <span className="text-[10px] font-black uppercase">
+                                {repairSteps.some(step => step.status === 'checking') ? 'Preview · checking scene' : 'Preview · finishing stream'}
+                            </span>
+                        </div>
+                        <div className="text-[10px] font-mono text-gray-500">
+                            {formatStreamProgress(streamProgress.text, streamProgress.tokens)}
+                        </div>
+                        <button
+                            onClick={handleCancel}
+                            className="w-full py-1.5 border-2 border-black bg-white hover:bg-gray-50 text-[10px] font-bold uppercase rounded-lg transition-all"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                )}
+
                 {/* Empty State */}
                 {!imageData && !isLoading && (
                     <div className="text-center p-12 opacity-40">
@@ -587,7 +1551,7 @@ const App: React.FC = () => {
                 )}
 
                 {/* Content Viewer */}
-                {imageData && !isLoading && (
+                {imageData && (!isLoading || isPreviewing) && (
                     <>
                         {viewMode === 'image' && (
                              <img 
@@ -596,14 +1560,38 @@ const App: React.FC = () => {
                                 className="w-full h-full object-contain p-4" 
                              />
                         )}
-                        {viewMode === 'voxel' && voxelCode && (
-                            <iframe
-                                title="Voxel Scene"
-                                srcDoc={voxelCode}
-                                className="w-full h-full border-0"
-                                sandbox="allow-scripts allow-same-origin allow-popups"
+                        {viewMode === 'voxel' && editModel && (
+                            <VoxelEditor
+                                initialModel={editModel}
+                                swatches={(voxelStats || []).map(stat => stat.color)}
+                                onSave={handleSaveEdit}
+                                onCancel={() => setEditModel(null)}
+                            />
+                        )}
+                        {viewMode === 'voxel' && compareLeft && compareRight && !editModel && (
+                            <CompareView
+                                left={compareLeft}
+                                right={compareRight}
+                                onClose={() => setCompareIds(null)}
                             />
                         )}
+                        {viewMode === 'voxel' && frameHtml && !editModel && !compareIds && (
+                            <>
+                                <iframe
+                                    ref={voxelFrameRef}
+                                    title="Voxel Scene"
+                                    srcDoc={frameHtml}
+                                    className="w-full h-full border-0"
+                                    sandbox={SCENE_SANDBOX}
+                                />
+                                <ViewControls
+                                    orthographic={orthographic}
+                                    disabled={!sceneReady}
+                                    onView={handleCameraView}
+                                    onOrthographicChange={handleOrthographic}
+                                />
+                            </>
+                        )}
                     </>
                 )}
                 
@@ -627,7 +1615,7 @@ const App: React.FC = () => {
             
             {/* Attribution Footer */}
             <div className="mt-4 flex justify-between items-center text-[10px] font-bold text-gray-400 uppercase tracking-wider">
-                <div>Model: Gemini 2.5 Flash Image & Gemini 3 Pro</div>
+                <div>Model: {provider.imageModel.label} & {provider.voxelModel.label}</div>
                 <div>Frontend: React & Three.js</div>
             </div>
 
@@ -0,0 +1,341 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useState, useRef, useEffect } from 'react';
+import { createBatchItem, generateBatchItem, parsePromptList, BatchItem, BatchSettings, BatchStatus, MAX_BATCH_CONCURRENCY } from '../services/batch';
+import { runQueue } from '../utils/queue';
+import type { HistoryItem, VoxelMode } from '../types';
+
+interface BatchPanelProps {
+  aspectRatios: string[];
+  allowedTypes: string[];
+  // Defaults taken from the single-item controls
+  defaults: Omit<BatchSettings, 'concurrency'>;
+  onResult: (item: HistoryItem) => void;
+  onOpenResult: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<BatchStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-gray-400' },
+  generating_image: { label: 'Image…', className: 'text-indigo-600' },
+  generating_voxels: { label: 'Voxels…', className: 'text-indigo-600' },
+  waiting: { label: 'Rate limited', className: 'text-amber-600' },
+  done: { label: 'Done', className: 'text-green-600' },
+  failed: { label: 'Failed', className: 'text-red-600' },
+  cancelled: { label: 'Cancelled', className: 'text-gray-400' },
+};
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Every file in a dropped folder, recursively
+const readDirectory = async (entry: FileSystemDirectoryEntry): Promise<File[]> => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns the listing in chunks until it is empty
+  for (;;) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) break;
+    entries.push(...chunk);
+  }
+  const nested = await Promise.all(entries.map(readEntry));
+  return nested.flat();
+};
+
+const readEntry = (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isDirectory) return readDirectory(entry as FileSystemDirectoryEntry);
+  return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+};
+
+const collectDroppedFiles = async (data: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(data.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(data.files);
+  return (await Promise.all(entries.map(readEntry))).flat();
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ aspectRatios, allowedTypes, defaults, onResult, onOpenResult }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [promptText, setPromptText] = useState('');
+  const [settings, setSettings] = useState<BatchSettings>({ ...defaults, concurrency: 2 });
+  const [isRunning, setIsRunning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Latest values for the running queue
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  // Ticks the retry countdowns
+  useEffect(() => {
+    if (!items.some(item => item.status === 'waiting')) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [items]);
+
+  // Stop background work when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const handleAddPrompts = () => {
+    const prompts = parsePromptList(promptText);
+    if (prompts.length === 0) return;
+    setItems(prev => [...prev, ...prompts.map(prompt => createBatchItem({ prompt }))]);
+    setPromptText('');
+  };
+
+  const addFiles = async (files: File[]) => {
+    const images = files
+      .filter(file => allowedTypes.includes(file.type))
+      .sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name));
+    const added = await Promise.all(images.map(async file => createBatchItem({ image: await readAsDataUrl(file), name: file.name })));
+    setItems(prev => [...prev, ...added]);
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files || []));
+    event.target.value = '';
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(await collectDroppedFiles(event.dataTransfer));
+  };
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+
+    const runSettings = settingsRef.current;
+    const pending = itemsRef.current.filter(item => item.status === 'queued');
+
+    await runQueue(pending, () => settingsRef.current.concurrency, async (item: BatchItem) => {
+      // Removed from the list since the run started
+      if (!itemsRef.current.some(i => i.id === item.id && i.status === 'queued')) return;
+      try {
+        const result = await generateBatchItem(item, runSettings, changes => updateItem(item.id, changes), controller.signal);
+        onResult(result);
+        updateItem(item.id, { status: 'done', retry: null, resultId: result.id });
+      } catch (err: any) {
+        updateItem(item.id, controller.signal.aborted
+          ? { status: 'cancelled', retry: null }
+          : { status: 'failed', retry: null, error: err?.message || 'Generation failed.' });
+      }
+    }, controller.signal);
+
+    setIsRunning(false);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  // Failed and cancelled items go back into the queue
+  const handleRequeue = () => {
+    setItems(prev => prev.map(item => item.status === 'failed' || item.status === 'cancelled'
+      ? { ...item, status: 'queued', error: null, retry: null }
+      : item
+    ));
+  };
+
+  const handleClearFinished = () => {
+    setItems(prev => prev.filter(item => item.status !== 'done'));
+  };
+
+  const counts = items.reduce((acc, item) => ({ ...acc, [item.status]: (acc[item.status] || 0) + 1 }), {} as Partial<Record<BatchStatus, number>>);
+  const queuedCount = counts.queued || 0;
+  const finishedCount = (counts.done || 0) + (counts.failed || 0) + (counts.cancelled || 0);
+
+  return (
+    <div className="space-y-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-baseline text-left"
+      >
+        <span className="text-xs font-bold uppercase text-gray-500">Batch Queue</span>
+        <span className="text-[10px] font-bold uppercase text-gray-400">
+          {items.length > 0 && `${finishedCount}/${items.length} · `}{isOpen ? 'Hide' : 'Show'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 space-y-3 animate-in fade-in duration-300">
+          <textarea
+            value={promptText}
+            onChange={(e) => setPromptText(e.target.value)}
+            placeholder={'One prompt per line\nA lighthouse on a cliff\nA tiny robot café'}
+            rows={3}
+            className="w-full px-3 py-2 bg-white border border-gray-200 focus:border-black rounded-md text-xs focus:outline-none resize-none"
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={handleAddPrompts}
+              disabled={!promptText.trim()}
+              className="px-2 py-1.5 border-2 border-black bg-white hover:bg-gray-50 text-[10px] font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+            >
+              Add Prompts
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-2 py-1.5 border border-gray-200 bg-white hover:border-black text-[10px] font-bold uppercase rounded-lg transition-all"
+            >
+              Images
+            </button>
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              className="px-2 py-1.5 border border-gray-200 bg-white hover:border-black text-[10px] font-bold uppercase rounded-lg transition-all"
+            >
+              Folder
+            </button>
+            <input type="file" ref={fileInputRef} onChange={handleFileInput} className="hidden" accept={allowedTypes.join(',')} multiple />
+            <input type="file" ref={folderInputRef} onChange={handleFileInput} className="hidden" {...{ webkitdirectory: '' }} />
+          </div>
+
+          <div
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`py-3 text-center text-[10px] font-bold uppercase rounded-lg border-2 border-dashed transition-all ${isDragging ? 'border-black text-black bg-white' : 'border-gray-200 text-gray-400'}`}
+          >
+            Drop images or a folder
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={settings.aspectRatio}
+              onChange={(e) => setSettings({ ...settings, aspectRatio: e.target.value })}
+              disabled={isRunning}
+              title="Aspect ratio of generated images"
+              className="px-2 py-1 bg-white border border-gray-200 rounded-md text-[10px] font-bold uppercase focus:outline-none disabled:opacity-50"
+            >
+              {aspectRatios.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+            <select
+              value={settings.voxelMode}
+              onChange={(e) => setSettings({ ...settings, voxelMode: e.target.value as VoxelMode })}
+              disabled={isRunning}
+              className="px-2 py-1 bg-white border border-gray-200 rounded-md text-[10px] font-bold uppercase focus:outline-none disabled:opacity-50"
+            >
+              <option value="code">Three.js Code</option>
+              <option value="grid">Voxel Grid</option>
+              <option value="local">Local (no model)</option>
+            </select>
+            <label className="flex items-center gap-2 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={settings.optimize}
+                onChange={(e) => setSettings({ ...settings, optimize: e.target.checked })}
+                disabled={isRunning}
+                className="accent-black"
+              />
+              <span className="text-[10px] font-bold uppercase text-gray-500">Optimize</span>
+            </label>
+            <label className="flex items-center justify-end gap-2" title="Items generated at the same time; can be changed while running">
+              <span className="text-[10px] font-bold uppercase text-gray-500">Parallel</span>
+              <select
+                value={settings.concurrency}
+                onChange={(e) => setSettings({ ...settings, concurrency: Number(e.target.value) })}
+                className="px-2 py-1 bg-white border border-gray-200 rounded-md text-[10px] font-mono focus:outline-none"
+              >
+                {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          </div>
+
+          {items.length > 0 && (
+            <ul className="max-h-56 overflow-y-auto space-y-1">
+              {items.map(item => {
+                const style = STATUS_STYLES[item.status];
+                const waitSeconds = item.retry ? Math.max(0, Math.ceil((item.retry.until - now) / 1000)) : 0;
+                return (
+                  <li key={item.id} className="group flex items-center gap-2 bg-white rounded-md border border-gray-100 px-2 py-1">
+                    {item.image && <img src={item.image} alt="" className="w-6 h-6 rounded object-cover flex-shrink-0" />}
+                    <button
+                      onClick={() => item.resultId && onOpenResult(item.resultId)}
+                      disabled={!item.resultId}
+                      title={item.error || item.label}
+                      className="flex-1 min-w-0 text-left text-[11px] truncate disabled:cursor-default"
+                    >
+                      {item.label}
+                    </button>
+                    <span className={`flex-shrink-0 text-[9px] font-bold uppercase ${style.className}`} title={item.error || undefined}>
+                      {item.status === 'waiting' && item.retry ? `Retry ${item.retry.count} in ${waitSeconds}s` : style.label}
+                    </span>
+                    {item.status === 'queued' && (
+                      <button
+                        onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))}
+                        title="Remove"
+                        className="flex-shrink-0 text-[10px] text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-600"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {isRunning ? (
+            <button
+              onClick={handleStop}
+              className="w-full py-2 border-2 border-black bg-white hover:bg-gray-50 text-[10px] font-bold uppercase rounded-lg transition-all"
+            >
+              Stop Queue
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={queuedCount === 0}
+              className="w-full py-2 bg-black text-white text-[10px] font-bold uppercase rounded-lg hover:bg-gray-800 transition-all disabled:opacity-40"
+            >
+              Run {queuedCount} Queued
+            </button>
+          )}
+
+          {!isRunning && ((counts.failed || 0) + (counts.cancelled || 0) > 0 || (counts.done || 0) > 0) && (
+            <div className="flex justify-between">
+              <button
+                onClick={handleRequeue}
+                disabled={(counts.failed || 0) + (counts.cancelled || 0) === 0}
+                className="text-[10px] font-bold uppercase text-gray-400 hover:text-black transition-colors disabled:opacity-30"
+              >
+                Retry Failed
+              </button>
+              <button
+                onClick={handleClearFinished}
+                disabled={!counts.done}
+                className="text-[10px] font-bold uppercase text-gray-400 hover:text-black transition-colors disabled:opacity-30"
+              >
+                Clear Done
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useState, useEffect } from 'react';
+import { BUILD_CATALOGUES, buildKitToCsv, BuildKit, createBuildKit, layoutBuildSheets } from '../utils/buildKit';
+import { encodePdf } from '../utils/pdf';
+import { exportBuildSheetsZip } from '../services/buildSheets';
+import { downloadBlob } from '../utils/download';
+import type { VoxelModel } from '../types';
+
+interface BuildKitPanelProps {
+  sceneHtml: string;
+  getModel: () => Promise<VoxelModel>;
+  disabled: boolean;
+  onError: (message: string) => void;
+}
+
+/**
+ * Turns the scene into a parts list and layer-by-layer build sheets for
+ * bricks or fuse beads.
+ */
+const BuildKitPanel: React.FC<BuildKitPanelProps> = ({ sceneHtml, getModel, disabled, onError }) => {
+  const [catalogueId, setCatalogueId] = useState(BUILD_CATALOGUES[0].id);
+  const [kit, setKit] = useState<BuildKit | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // A new scene or catalogue invalidates the last kit
+  useEffect(() => {
+    setKit(null);
+  }, [sceneHtml, catalogueId]);
+
+  const handlePrepare = async () => {
+    setIsWorking(true);
+    onError('');
+    try {
+      const catalogue = BUILD_CATALOGUES.find(c => c.id === catalogueId) || BUILD_CATALOGUES[0];
+      setKit(createBuildKit(await getModel(), catalogue));
+    } catch (err: any) {
+      onError(err.message || 'Failed to prepare the build kit.');
+      console.error(err);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDownload = async (format: 'csv' | 'pdf' | 'zip') => {
+    if (!kit) return;
+    const name = `voxel-build-${Date.now()}.${format}`;
+    if (format === 'csv') {
+      downloadBlob(new Blob([buildKitToCsv(kit)], { type: 'text/csv' }), name);
+    } else if (format === 'pdf') {
+      downloadBlob(new Blob([encodePdf(layoutBuildSheets(kit), 'Voxel build instructions')], { type: 'application/pdf' }), name);
+    } else {
+      setIsWorking(true);
+      try {
+        downloadBlob(new Blob([await exportBuildSheetsZip(kit)], { type: 'application/zip' }), name);
+      } catch (err: any) {
+        onError(err.message || 'Failed to render the build sheets.');
+        console.error(err);
+      } finally {
+        setIsWorking(false);
+      }
+    }
+  };
+
+  const total = kit ? kit.parts.reduce((sum, part) => sum + part.count, 0) : 0;
+
+  return (
+    <div className="space-y-3 animate-in fade-in slide-in-from-left-4 duration-500">
+      <label className="block text-xs font-bold uppercase text-gray-500">Build Kit</label>
+
+      <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] font-bold uppercase text-gray-500">Parts</span>
+          <select
+            value={catalogueId}
+            onChange={(e) => setCatalogueId(e.target.value)}
+            disabled={disabled}
+            className="flex-1 max-w-[65%] px-2 py-1 bg-white border border-gray-200 rounded-md text-[10px] font-bold uppercase focus:outline-none disabled:opacity-50"
+          >
+            {BUILD_CATALOGUES.map(catalogue => <option key={catalogue.id} value={catalogue.id}>{catalogue.label}</option>)}
+          </select>
+        </div>
+
+        {kit && (
+          <div className="space-y-1 border-t border-gray-200 pt-3">
+            <div className="flex justify-between text-[10px] font-mono text-gray-600">
+              <span>{total} × {kit.catalogue.unit}</span>
+              <span>{kit.layers.length} layers</span>
+            </div>
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {kit.parts.map((part, i) => (
+                <div key={part.color.id} className="flex items-center gap-2 text-[10px] font-mono text-gray-600" title={`From ${part.sources.join(' ')}`}>
+                  <span className="w-4 text-right text-gray-400">{i + 1}</span>
+                  <div className="w-4 h-4 rounded-sm border border-black/10" style={{ backgroundColor: part.color.hex }} />
+                  <span className="flex-1 truncate">{part.color.name} <span className="text-gray-400">{part.color.id}</span></span>
+                  <span>{part.count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!kit ? (
+          <button
+            onClick={handlePrepare}
+            disabled={disabled || isWorking}
+            className="w-full px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+          >
+            {isWorking ? 'Preparing...' : 'Prepare Build Kit'}
+          </button>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={() => handleDownload('csv')}
+              disabled={disabled}
+              title="Bill of materials"
+              className="px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+            >
+              .CSV
+            </button>
+            <button
+              onClick={() => handleDownload('pdf')}
+              disabled={disabled}
+              title="Parts list and one page per layer"
+              className="px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+            >
+              .PDF
+            </button>
+            <button
+              onClick={() => handleDownload('zip')}
+              disabled={disabled || isWorking}
+              title="Parts list and one PNG per layer"
+              className="px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+            >
+              {isWorking ? '...' : 'PNGs'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BuildKitPanel;
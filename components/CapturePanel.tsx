@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useState } from 'react';
+import { captureScreenshot, captureTurntable, MAX_CAPTURE_SIZE, MAX_GIF_SIZE, TurntableFormat } from '../services/capture';
+import { downloadBlob } from '../utils/download';
+
+interface CapturePanelProps {
+  getFrame: () => HTMLIFrameElement | null;
+  disabled: boolean;
+  onError: (message: string) => void;
+}
+
+const SIZE_PRESETS: [string, number, number][] = [
+  ['Square 1080', 1080, 1080],
+  ['HD 1920×1080', 1920, 1080],
+  ['4K 3840×2160', 3840, 2160],
+  ['Portrait 1080×1350', 1080, 1350],
+];
+
+const clampSize = (value: string) => Math.min(MAX_CAPTURE_SIZE, Math.max(16, parseInt(value) || 16));
+
+/**
+ * Saves the voxel view as a PNG at a chosen size, or as a turntable GIF/WebM.
+ */
+const CapturePanel: React.FC<CapturePanelProps> = ({ getFrame, disabled, onError }) => {
+  const [width, setWidth] = useState(1080);
+  const [height, setHeight] = useState(1080);
+  const [transparent, setTransparent] = useState(false);
+  const [format, setFormat] = useState<TurntableFormat>('gif');
+  const [seconds, setSeconds] = useState(4);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const run = async (label: string, capture: (frame: HTMLIFrameElement) => Promise<Blob>, extension: string) => {
+    const frame = getFrame();
+    if (!frame) return;
+    setProgress(label);
+    onError('');
+    try {
+      downloadBlob(await capture(frame), `voxel-${extension === 'png' ? 'capture' : 'turntable'}-${Date.now()}.${extension}`);
+    } catch (err: any) {
+      onError(err.message || 'Capture failed.');
+      console.error(err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleScreenshot = () =>
+    run('Rendering...', frame => captureScreenshot(frame, { width, height, transparent }), 'png');
+
+  const handleTurntable = () =>
+    run('Rendering...', frame => captureTurntable(frame, { width, height, transparent, format, seconds }, (done, total) => {
+      setProgress(done < total ? `Frame ${done + 1} / ${total}` : 'Encoding...');
+    }), format);
+
+  const busy = progress !== null;
+
+  return (
+    <div className="space-y-3 animate-in fade-in slide-in-from-left-4 duration-500">
+      <label className="block text-xs font-bold uppercase text-gray-500">Capture</label>
+
+      <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 space-y-3">
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={16}
+            max={MAX_CAPTURE_SIZE}
+            value={width}
+            onChange={(e) => setWidth(clampSize(e.target.value))}
+            disabled={disabled || busy}
+            className="w-16 px-2 py-1 bg-white border border-gray-200 focus:border-black rounded-md text-xs font-mono focus:outline-none"
+          />
+          <span className="text-[10px] text-gray-400">×</span>
+          <input
+            type="number"
+            min={16}
+            max={MAX_CAPTURE_SIZE}
+            value={height}
+            onChange={(e) => setHeight(clampSize(e.target.value))}
+            disabled={disabled || busy}
+            className="w-16 px-2 py-1 bg-white border border-gray-200 focus:border-black rounded-md text-xs font-mono focus:outline-none"
+          />
+          <select
+            value=""
+            onChange={(e) => {
+              const preset = SIZE_PRESETS.find(p => p[0] === e.target.value);
+              if (preset) {
+                setWidth(preset[1]);
+                setHeight(preset[2]);
+              }
+            }}
+            disabled={disabled || busy}
+            className="flex-1 min-w-0 px-2 py-1 bg-white border border-gray-200 rounded-md text-[10px] font-bold uppercase focus:outline-none disabled:opacity-50"
+          >
+            <option value="">Presets</option>
+            {SIZE_PRESETS.map(([label]) => <option key={label} value={label}>{label}</option>)}
+          </select>
+        </div>
+
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={transparent}
+            onChange={(e) => setTransparent(e.target.checked)}
+            disabled={disabled || busy}
+            className="accent-black"
+          />
+          <span className="text-[10px] font-bold uppercase text-gray-500">Transparent background</span>
+        </label>
+
+        <button
+          onClick={handleScreenshot}
+          disabled={disabled || busy}
+          className="w-full px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+        >
+          Save PNG
+        </button>
+
+        <div className="space-y-2 border-t border-gray-200 pt-3">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-bold uppercase text-gray-500">Turntable</span>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as TurntableFormat)}
+              disabled={disabled || busy}
+              className="flex-1 px-2 py-1 bg-white border border-gray-200 rounded-md text-[10px] font-bold uppercase focus:outline-none disabled:opacity-50"
+            >
+              <option value="gif">GIF</option>
+              <option value="webm">WebM</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={seconds}
+              onChange={(e) => setSeconds(Math.min(20, Math.max(1, parseInt(e.target.value) || 1)))}
+              disabled={disabled || busy}
+              title="Seconds per turn"
+              className="w-12 px-2 py-1 bg-white border border-gray-200 focus:border-black rounded-md text-xs font-mono focus:outline-none"
+            />
+            <span className="text-[10px] text-gray-400">s</span>
+          </div>
+          <div className="text-[10px] text-gray-400">
+            {format === 'gif'
+              ? `Scaled to at most ${MAX_GIF_SIZE} px.`
+              : 'Always opaque.'}
+          </div>
+          <button
+            onClick={handleTurntable}
+            disabled={disabled || busy}
+            className="w-full px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+          >
+            {progress || 'Record Turntable'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CapturePanel;
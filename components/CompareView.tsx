@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef, useEffect, useMemo } from 'react';
+import { injectCameraSync } from '../utils/html';
+import { injectSandboxPolicy, SCENE_SANDBOX } from '../utils/sandbox';
+import { readSceneMessage } from '../utils/sceneMessages';
+import type { VoxelVersion } from '../types';
+
+interface CompareViewProps {
+  left: VoxelVersion;
+  right: VoxelVersion;
+  onClose: () => void;
+}
+
+const prepareFrame = (source: string) => injectSandboxPolicy(injectCameraSync(source));
+
+const CompareView: React.FC<CompareViewProps> = ({ left, right, onClose }) => {
+  const frameRefs = [useRef<HTMLIFrameElement>(null), useRef<HTMLIFrameElement>(null)];
+  const leftFrame = useMemo(() => prepareFrame(left.voxel), [left.voxel]);
+  const rightFrame = useMemo(() => prepareFrame(right.voxel), [right.voxel]);
+  const versions = [left, right];
+  const frames = [leftFrame, rightFrame];
+
+  // Mirror camera moves from either frame into the other one
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const from = frameRefs.findIndex(ref => ref.current && event.source === ref.current.contentWindow);
+      if (from === -1) return;
+      const message = readSceneMessage(event, frameRefs[from].current?.contentWindow);
+      if (!message || message.type !== 'camera_state') return;
+      // Sandboxed frames have an opaque origin, so '*' is the only target that reaches them
+      const other = frameRefs[1 - from].current;
+      other?.contentWindow?.postMessage({ type: 'set_camera', position: message.position, target: message.target }, '*');
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  return (
+    <div className="relative w-full h-full flex">
+      {versions.map((version, i) => (
+        <div key={version.id} className={`relative flex-1 h-full ${i > 0 ? 'border-l-2 border-black' : ''}`}>
+          <iframe
+            ref={frameRefs[i]}
+            title={`Version ${i + 1}`}
+            srcDoc={frames[i]}
+            className="w-full h-full border-0"
+            sandbox={SCENE_SANDBOX}
+          />
+          <div className="absolute bottom-4 left-4 right-4 bg-white/95 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 px-3 py-2 pointer-events-none">
+            <div className="text-[11px] font-bold truncate">{version.instruction || 'Original'}</div>
+            <div className="flex justify-between gap-2 text-[9px] font-mono text-gray-400">
+              <span className="truncate">{version.model}</span>
+              <span className="flex-shrink-0">{new Date(version.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={onClose}
+        className="absolute top-4 left-1/2 -translate-x-1/2 px-4 py-1.5 bg-black text-white text-[10px] font-bold uppercase rounded-full shadow-lg hover:bg-gray-800"
+      >
+        Exit Compare
+      </button>
+    </div>
+  );
+};
+
+export default CompareView;
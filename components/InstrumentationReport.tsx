@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import type { SceneHookKind, SceneInstrumentation } from '../types';
+
+// What each hook enables in the viewer
+const HOOK_LABELS: { kind: SceneHookKind; label: string; hint: string }[] = [
+  { kind: 'scene', label: 'Scene', hint: 'Palette stats, exports and layer view' },
+  { kind: 'renderer', label: 'Renderer', hint: 'Clipping for the section view' },
+  { kind: 'camera', label: 'Camera', hint: 'Auto-framing and view presets' },
+  { kind: 'controls', label: 'Controls', hint: 'Fitted zoom limits and smooth orbiting' },
+];
+
+interface InstrumentationReportProps {
+  report: SceneInstrumentation;
+}
+
+const InstrumentationReport: React.FC<InstrumentationReportProps> = ({ report }) => (
+  <div className="space-y-1.5 animate-in fade-in duration-300">
+    <div className="flex justify-between items-baseline">
+      <label className="block text-[10px] font-bold uppercase text-gray-500">Scene Hooks</label>
+      <span className="text-[9px] text-gray-400" title={report.parsed ? 'Scripts were parsed and instrumented' : 'Scripts did not parse; fell back to pattern matching'}>
+        {report.parsed ? 'AST' : 'Fallback'}
+      </span>
+    </div>
+    <div className="grid grid-cols-4 gap-1">
+      {HOOK_LABELS.map(({ kind, label, hint }) => (
+        <span
+          key={kind}
+          title={`${hint}: ${report.hooks[kind] ? 'hooked' : 'not found'}`}
+          className={`py-1 text-center text-[9px] font-bold uppercase rounded-md border ${report.hooks[kind] ? 'border-green-200 bg-green-50 text-green-700' : 'border-amber-200 bg-amber-50 text-amber-700'}`}
+        >
+          {report.hooks[kind] ? '✓' : '✗'} {label}
+        </span>
+      ))}
+    </div>
+  </div>
+);
+
+export default InstrumentationReport;
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { MAX_GRID_COLORS, MAX_GRID_SIZE } from '../utils/voxelGrid';
+import { MAX_LOCAL_DEPTH, LocalVoxelOptions, Quantizer, ReliefMode } from '../utils/imageVoxels';
+
+interface LocalVoxelSettingsProps {
+  options: LocalVoxelOptions;
+  onChange: (options: LocalVoxelOptions) => void;
+  disabled: boolean;
+}
+
+const NUMBER_FIELDS: { key: 'resolution' | 'colors' | 'depth'; label: string; min: number; max: number }[] = [
+  { key: 'resolution', label: 'Width', min: 4, max: MAX_GRID_SIZE },
+  { key: 'colors', label: 'Colours', min: 2, max: MAX_GRID_COLORS },
+  { key: 'depth', label: 'Depth', min: 1, max: MAX_LOCAL_DEPTH },
+];
+
+const RELIEF_LABELS: Record<ReliefMode, string> = {
+  flat: 'Flat extrusion',
+  brightness: 'Bright parts raised',
+  darkness: 'Dark parts raised',
+};
+
+const QUANTIZER_LABELS: Record<Quantizer, string> = {
+  'median-cut': 'Median cut',
+  'k-means': 'K-means',
+};
+
+/**
+ * Settings of the local (no model) image-to-voxel conversion.
+ */
+const LocalVoxelSettings: React.FC<LocalVoxelSettingsProps> = ({ options, onChange, disabled }) => {
+  const update = <K extends keyof LocalVoxelOptions>(key: K, value: LocalVoxelOptions[K]) => {
+    onChange({ ...options, [key]: value });
+  };
+
+  return (
+    <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        {NUMBER_FIELDS.map(field => (
+          <label key={field.key} className="space-y-1">
+            <span className="block text-[10px] font-bold uppercase text-gray-500">{field.label}</span>
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={1}
+              value={options[field.key]}
+              onChange={(e) => update(field.key, Math.min(field.max, Math.max(field.min, parseInt(e.target.value) || field.min)))}
+              disabled={disabled}
+              className="w-full px-2 py-1 bg-white border border-gray-200 focus:border-black rounded-md text-xs font-mono focus:outline-none disabled:opacity-50"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={options.relief}
+          onChange={(e) => update('relief', e.target.value as ReliefMode)}
+          disabled={disabled}
+          title="How deep each column of voxels is"
+          className="px-2 py-1 bg-white border border-gray-200 rounded-md text-[10px] font-bold uppercase focus:outline-none disabled:opacity-50"
+        >
+          {(Object.keys(RELIEF_LABELS) as ReliefMode[]).map(mode => <option key={mode} value={mode}>{RELIEF_LABELS[mode]}</option>)}
+        </select>
+        <select
+          value={options.quantizer}
+          onChange={(e) => update('quantizer', e.target.value as Quantizer)}
+          disabled={disabled}
+          title="How the palette is chosen"
+          className="px-2 py-1 bg-white border border-gray-200 rounded-md text-[10px] font-bold uppercase focus:outline-none disabled:opacity-50"
+        >
+          {(Object.keys(QUANTIZER_LABELS) as Quantizer[]).map(q => <option key={q} value={q}>{QUANTIZER_LABELS[q]}</option>)}
+        </select>
+      </div>
+      <label className="flex items-center gap-2 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={options.removeBackground}
+          onChange={(e) => update('removeBackground', e.target.checked)}
+          disabled={disabled}
+          className="accent-black"
+        />
+        <span className="text-[10px] font-bold uppercase text-gray-500">Remove plain background</span>
+      </label>
+    </div>
+  );
+};
+
+export default LocalVoxelSettings;
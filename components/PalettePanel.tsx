@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useState, useEffect } from 'react';
+import { ColorRemap, findOffPaletteColors, getSnapRemaps } from '../utils/palette';
+import type { VoxelStat } from '../types';
+
+interface PalettePanelProps {
+  stats: VoxelStat[];
+  // Palette chosen for generation, used to flag and snap stray colours
+  targetPalette: string[] | null;
+  hasRemaps: boolean;
+  disabled: boolean;
+  // Shows a remap in the scene without saving it (null restores the saved colours)
+  onPreview: (remap: ColorRemap | null) => void;
+  onApply: (remaps: ColorRemap[]) => void;
+  onReset: () => void;
+}
+
+/**
+ * Colours used by the scene. Clicking a swatch recolours every voxel of that
+ * colour: the change is previewed live and saved into the scene on Apply.
+ */
+const PalettePanel: React.FC<PalettePanelProps> = ({ stats, targetPalette, hasRemaps, disabled, onPreview, onApply, onReset }) => {
+  const [editing, setEditing] = useState<ColorRemap | null>(null);
+
+  // A new scene (or colour set) ends the edit
+  useEffect(() => {
+    setEditing(current => current && stats.some(s => s.color === current.from) ? current : null);
+  }, [stats]);
+
+  const offPalette = targetPalette ? findOffPaletteColors(stats, targetPalette) : [];
+
+  const startEdit = (color: string) => {
+    if (editing) onPreview(null);
+    setEditing(editing?.from === color ? null : { from: color, to: color });
+  };
+
+  const changeTarget = (to: string) => {
+    if (!editing) return;
+    const next = { ...editing, to };
+    setEditing(next);
+    onPreview(next);
+  };
+
+  const cancel = () => {
+    onPreview(null);
+    setEditing(null);
+  };
+
+  const apply = () => {
+    if (editing && editing.to !== editing.from) onApply([editing]);
+    setEditing(null);
+  };
+
+  return (
+    <div className="animate-in fade-in slide-in-from-left-4 duration-500">
+      <div className="flex justify-between items-baseline mb-2">
+        <label className="block text-xs font-bold uppercase text-gray-500">Palette</label>
+        <div className="flex items-baseline gap-3">
+          {hasRemaps && (
+            <button
+              onClick={() => { setEditing(null); onReset(); }}
+              disabled={disabled}
+              title="Restore the colours the scene was generated with"
+              className="text-[10px] font-bold uppercase text-gray-400 hover:text-black transition-colors disabled:opacity-30"
+            >
+              Reset
+            </button>
+          )}
+          <span className="text-[10px] font-bold text-gray-400">{stats.reduce((a, b) => a + b.count, 0)} Blocks</span>
+        </div>
+      </div>
+      <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 space-y-3">
+        <div className="grid grid-cols-5 gap-2">
+          {stats.slice(0, 15).map(stat => (
+            <button
+              key={stat.color}
+              onClick={() => startEdit(stat.color)}
+              disabled={disabled}
+              title={`${stat.color} · click to recolour`}
+              className="group relative flex flex-col items-center disabled:cursor-default"
+            >
+              <div
+                className={`w-full aspect-square rounded-md shadow-sm border ${editing?.from === stat.color ? 'border-black ring-2 ring-black/20' : 'border-black/10'}`}
+                style={{ backgroundColor: editing?.from === stat.color ? editing.to : stat.color }}
+              />
+              <span className="text-[9px] font-mono mt-1 text-gray-500">{stat.count}</span>
+            </button>
+          ))}
+        </div>
+
+        {editing && (
+          <div className="space-y-2 border-t border-gray-200 pt-3">
+            <div className="flex items-center gap-2">
+              <div className="w-5 h-5 rounded-sm border border-black/10" style={{ backgroundColor: editing.from }} />
+              <span className="text-[10px] text-gray-400">→</span>
+              <input
+                type="color"
+                value={editing.to}
+                onChange={(e) => changeTarget(e.target.value)}
+                className="w-8 h-6 p-0 border border-gray-200 rounded cursor-pointer"
+              />
+              <span className="text-[10px] font-mono text-gray-500">{editing.to}</span>
+            </div>
+            {targetPalette && (
+              <div className="flex flex-wrap gap-1">
+                {targetPalette.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => changeTarget(color)}
+                    title={color}
+                    className={`w-4 h-4 rounded-sm border ${editing.to === color ? 'border-black' : 'border-black/10'}`}
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={cancel}
+                className="px-2 py-1 border border-gray-200 bg-white hover:border-black text-[10px] font-bold uppercase rounded-md transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={apply}
+                disabled={editing.to === editing.from}
+                className="px-2 py-1 bg-black text-white text-[10px] font-bold uppercase rounded-md transition-all disabled:opacity-30"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        )}
+
+        {offPalette.length > 0 && (
+          <div className="flex items-center justify-between gap-2 border-t border-gray-200 pt-3">
+            <span className="text-[10px] text-amber-700">
+              {offPalette.length} colour{offPalette.length === 1 ? '' : 's'} outside the chosen palette
+            </span>
+            <button
+              onClick={() => targetPalette && onApply(getSnapRemaps(stats, targetPalette))}
+              disabled={disabled}
+              className="px-2 py-1 border border-gray-200 bg-white hover:border-black text-[10px] font-bold uppercase rounded-md transition-all disabled:opacity-30"
+            >
+              Snap to Palette
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PalettePanel;
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { PALETTE_PRESETS } from '../utils/palette';
+
+// 'free' leaves colours to the model; otherwise a preset id, 'custom' or 'image'
+export type PaletteChoice = string;
+
+interface PaletteSelectorProps {
+  choice: PaletteChoice;
+  onChoiceChange: (choice: PaletteChoice) => void;
+  customText: string;
+  onCustomTextChange: (text: string) => void;
+  // The palette the choice resolves to
+  palette: string[] | null;
+  invalid: string[];
+  disabled: boolean;
+}
+
+/**
+ * Picks the colours a generation may use.
+ */
+const PaletteSelector: React.FC<PaletteSelectorProps> = ({ choice, onChoiceChange, customText, onCustomTextChange, palette, invalid, disabled }) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-bold uppercase text-gray-400">Colours</span>
+        <select
+          value={choice}
+          onChange={(e) => onChoiceChange(e.target.value)}
+          disabled={disabled}
+          className="flex-1 px-2 py-1 bg-white border border-gray-200 rounded-md text-[10px] font-bold uppercase focus:outline-none disabled:opacity-50"
+        >
+          <option value="free">Free</option>
+          {PALETTE_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+          <option value="custom">Custom</option>
+          <option value="image">From image</option>
+        </select>
+      </div>
+      {choice === 'custom' && (
+        <textarea
+          value={customText}
+          onChange={(e) => onCustomTextChange(e.target.value)}
+          disabled={disabled}
+          rows={2}
+          placeholder="#1d2b53, #ff004d, ffa300…"
+          className="w-full px-2 py-1 bg-white border border-gray-200 focus:border-black rounded-md text-xs font-mono focus:outline-none resize-none disabled:opacity-50"
+        />
+      )}
+      {invalid.length > 0 && (
+        <div className="text-[10px] text-amber-700">Ignored: {invalid.join(' ')}</div>
+      )}
+      {choice === 'image' && !palette && (
+        <div className="text-[10px] text-gray-400">Reading the image's colours…</div>
+      )}
+      {palette && (
+        <div className="flex flex-wrap gap-1" title={palette.join(' ')}>
+          {palette.map(color => (
+            <div key={color} className="w-4 h-4 rounded-sm border border-black/10" style={{ backgroundColor: color }} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaletteSelector;
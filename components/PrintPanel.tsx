@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useState, useEffect } from 'react';
+import { analyzePrintModel, buildPrintMesh, preparePrintModel, DEFAULT_PRINT_OPTIONS, PrintModel, PrintOptions, PrintReport } from '../utils/print';
+import { encodeStl } from '../utils/stl';
+import { encode3mf } from '../utils/threemf';
+import { downloadBlob } from '../utils/download';
+import type { VoxelModel } from '../types';
+
+interface PrintPanelProps {
+  sceneHtml: string;
+  getModel: () => Promise<VoxelModel>;
+  disabled: boolean;
+  onError: (message: string) => void;
+}
+
+interface PreparedPrint {
+  model: PrintModel;
+  report: PrintReport;
+  options: PrintOptions;
+}
+
+const PrintPanel: React.FC<PrintPanelProps> = ({ sceneHtml, getModel, disabled, onError }) => {
+  const [options, setOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+  const [prepared, setPrepared] = useState<PreparedPrint | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+
+  // A new scene or new settings invalidate the last analysis
+  useEffect(() => {
+    setPrepared(null);
+  }, [sceneHtml, options]);
+
+  const updateOption = <K extends keyof PrintOptions>(key: K, value: PrintOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleAnalyze = async () => {
+    setIsPreparing(true);
+    onError('');
+    try {
+      const model = preparePrintModel(await getModel(), options);
+      setPrepared({ model, report: analyzePrintModel(model, options), options });
+    } catch (err: any) {
+      onError(err.message || 'Failed to prepare the model for printing.');
+      console.error(err);
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleDownload = (format: 'stl' | '3mf') => {
+    if (!prepared) return;
+    const mesh = buildPrintMesh(prepared.model, prepared.options.mmPerVoxel);
+    const blob = format === 'stl'
+      ? new Blob([encodeStl(mesh)], { type: 'model/stl' })
+      : new Blob([encode3mf(mesh, prepared.model.palette)], { type: 'model/3mf' });
+    downloadBlob(blob, `voxel-print-${Date.now()}.${format}`);
+  };
+
+  const report = prepared?.report;
+
+  return (
+    <div className="space-y-3 animate-in fade-in slide-in-from-left-4 duration-500">
+      <label className="block text-xs font-bold uppercase text-gray-500">3D Print</label>
+
+      <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] font-bold uppercase text-gray-500">mm / voxel</span>
+          <input
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={options.mmPerVoxel}
+            onChange={(e) => updateOption('mmPerVoxel', Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+            disabled={disabled}
+            className="w-20 px-2 py-1 bg-white border border-gray-200 focus:border-black rounded-md text-xs font-mono focus:outline-none"
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={options.hollow}
+              onChange={(e) => updateOption('hollow', e.target.checked)}
+              disabled={disabled}
+              className="accent-black"
+            />
+            <span className="text-[10px] font-bold uppercase text-gray-500">Hollow</span>
+          </label>
+          <div className={`flex items-center gap-2 ${options.hollow ? '' : 'opacity-30'}`}>
+            <span className="text-[10px] font-bold uppercase text-gray-500">Wall</span>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={options.wallThickness}
+              onChange={(e) => updateOption('wallThickness', Math.max(1, parseInt(e.target.value) || 1))}
+              disabled={disabled || !options.hollow}
+              className="w-14 px-2 py-1 bg-white border border-gray-200 focus:border-black rounded-md text-xs font-mono focus:outline-none"
+            />
+            <span className="text-[10px] text-gray-400">vox</span>
+          </div>
+        </div>
+
+        {report && (
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[10px] font-mono text-gray-600 border-t border-gray-200 pt-3">
+            <span>Size</span>
+            <span className="text-right">{report.dimensionsMm.map(d => d.toFixed(0)).join(' × ')} mm</span>
+            <span>Volume</span>
+            <span className="text-right">{report.volumeCm3.toFixed(1)} cm³</span>
+            <span>Islands</span>
+            <span className={`text-right ${report.islands > 1 ? 'text-amber-600 font-bold' : ''}`}>
+              {report.islands}{report.islands > 1 ? ` (largest ${(report.largestIslandShare * 100).toFixed(0)}%)` : ''}
+            </span>
+            <span>Overhangs</span>
+            <span className={`text-right ${report.overhangPercent > 10 ? 'text-amber-600 font-bold' : ''}`}>
+              {report.overhangPercent.toFixed(1)}%
+            </span>
+          </div>
+        )}
+
+        {!report ? (
+          <button
+            onClick={handleAnalyze}
+            disabled={disabled || isPreparing}
+            className="w-full px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+          >
+            {isPreparing ? 'Analyzing...' : 'Analyze for Print'}
+          </button>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => handleDownload('stl')}
+              disabled={disabled}
+              className="px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+            >
+              .STL
+            </button>
+            <button
+              onClick={() => handleDownload('3mf')}
+              disabled={disabled}
+              title="Includes voxel colours"
+              className="px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+            >
+              .3MF
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrintPanel;
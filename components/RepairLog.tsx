@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+
+/**
+ * One run of the generated scene: the original answer (attempt 0) or a
+ * repaired one, with the problems found when it was checked.
+ */
+export interface RepairStep {
+  attempt: number;
+  status: 'checking' | 'ok' | 'broken';
+  problems: string[];
+}
+
+interface RepairLogProps {
+  steps: RepairStep[];
+  maxAttempts: number;
+}
+
+const STATUS_LABELS: Record<RepairStep['status'], string> = {
+  checking: 'Running…',
+  ok: 'Works',
+  broken: 'Broken',
+};
+
+const RepairLog: React.FC<RepairLogProps> = ({ steps, maxAttempts }) => (
+  <div className="bg-gray-50 rounded-lg border border-gray-200 p-3 text-left space-y-2">
+    <label className="block text-[10px] font-bold uppercase text-gray-500">Scene Check</label>
+    {steps.map(step => (
+      <div key={step.attempt} className="space-y-1">
+        <div className="flex justify-between items-baseline text-[10px] font-bold uppercase">
+          <span>{step.attempt === 0 ? 'Generated scene' : `Repair ${step.attempt} of ${maxAttempts}`}</span>
+          <span className={step.status === 'ok' ? 'text-green-600' : step.status === 'broken' ? 'text-red-600' : 'text-gray-400'}>
+            {STATUS_LABELS[step.status]}
+          </span>
+        </div>
+        {step.problems.length > 0 && (
+          <ul className="font-mono text-[10px] text-red-700 space-y-0.5">
+            {step.problems.map((problem, i) => (
+              <li key={i} className="truncate" title={problem}>• {problem}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default RepairLog;
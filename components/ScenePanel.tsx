@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { SceneCaller } from '../services/sceneBridge';
+import type { SceneLighting, VoxelPick } from '../types';
+
+interface ScenePanelProps {
+  ready: boolean;
+  // Why the scene can't be driven, once the bridge gave up on it
+  unavailable: string | null;
+  // Last click in the scene, in normalised device coordinates
+  click: { x: number; y: number } | null;
+  call: SceneCaller;
+  disabled: boolean;
+  onError: (message: string) => void;
+}
+
+const DEFAULT_LIGHTING: SceneLighting = { intensity: 1, ambient: 0, background: null };
+
+const formatVec = (v: number[]) => v.map(n => Math.round(n * 100) / 100).join(', ');
+
+/**
+ * Wireframe, lighting and voxel picking for the shown scene, driven through
+ * the scene bridge.
+ */
+const ScenePanel: React.FC<ScenePanelProps> = ({ ready, unavailable, click, call, disabled, onError }) => {
+  const [wireframe, setWireframe] = useState(false);
+  const [lighting, setLighting] = useState<SceneLighting>(DEFAULT_LIGHTING);
+  const [picking, setPicking] = useState(false);
+  // Undefined until a click was picked; null when it missed
+  const [pick, setPick] = useState<VoxelPick | null | undefined>(undefined);
+
+  // A reloaded scene starts as authored
+  useEffect(() => {
+    if (ready) return;
+    setWireframe(false);
+    setLighting(DEFAULT_LIGHTING);
+    setPick(undefined);
+  }, [ready]);
+
+  // Only clicks made while picking count, not the last one before it
+  const handledClick = useRef(click);
+  useEffect(() => {
+    if (click === handledClick.current) return;
+    handledClick.current = click;
+    if (!picking || !click) return;
+    call('pickVoxel', click)
+      .then(setPick)
+      .catch(err => onError(err.message || 'Failed to pick a voxel.'));
+  }, [click, picking, call, onError]);
+
+  const handleWireframe = (enabled: boolean) => {
+    setWireframe(enabled);
+    call('setWireframe', { enabled }).catch(err => onError(err.message || 'Failed to change the scene.'));
+  };
+
+  const handleLighting = (changes: Partial<SceneLighting>) => {
+    setLighting(prev => ({ ...prev, ...changes }));
+    call('setLighting', changes)
+      .then(setLighting)
+      .catch(err => onError(err.message || 'Failed to change the lighting.'));
+  };
+
+  const locked = disabled || !ready;
+
+  return (
+    <div className="space-y-3 animate-in fade-in slide-in-from-left-4 duration-500">
+      <label className="block text-xs font-bold uppercase text-gray-500">Scene</label>
+
+      <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 space-y-3">
+        {!ready && (
+          <div className="text-[10px] text-gray-400">
+            {unavailable ? `Scene controls are unavailable: ${unavailable}` : 'Waiting for the scene...'}
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={wireframe}
+            onChange={(e) => handleWireframe(e.target.checked)}
+            disabled={locked}
+            className="accent-black"
+          />
+          <span className="text-[10px] font-bold uppercase text-gray-500">Wireframe</span>
+        </label>
+
+        {([['intensity', 'Lights'], ['ambient', 'Ambient']] as const).map(([key, label]) => (
+          <div key={key} className="flex items-center gap-2">
+            <span className="w-14 text-[10px] font-bold uppercase text-gray-500">{label}</span>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={lighting[key]}
+              onChange={(e) => handleLighting({ [key]: parseFloat(e.target.value) })}
+              disabled={locked}
+              className="flex-1 accent-black"
+            />
+            <span className="w-6 text-right text-[10px] font-mono text-gray-600">{lighting[key].toFixed(1)}</span>
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2">
+          <span className="w-14 text-[10px] font-bold uppercase text-gray-500">Backdrop</span>
+          <input
+            type="color"
+            value={lighting.background || '#f0f0f0'}
+            onChange={(e) => handleLighting({ background: e.target.value })}
+            disabled={locked}
+            className="w-8 h-6 rounded border border-gray-200 bg-white disabled:opacity-50"
+          />
+          <button
+            onClick={() => handleLighting({ background: null })}
+            disabled={locked || !lighting.background}
+            className="text-[10px] font-bold uppercase text-gray-400 hover:text-black disabled:opacity-30"
+          >
+            Scene's own
+          </button>
+        </div>
+
+        <div className="space-y-2 border-t border-gray-200 pt-3">
+          <button
+            onClick={() => {
+              setPicking(!picking);
+              setPick(undefined);
+            }}
+            disabled={locked}
+            className={`w-full px-3 py-2 border-2 border-black text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30 ${picking ? 'bg-black text-white' : 'bg-white hover:bg-gray-50'}`}
+          >
+            {picking ? 'Click a Voxel...' : 'Pick Voxel'}
+          </button>
+          {picking && pick && (
+            <div className="flex items-center gap-2 text-[10px] font-mono text-gray-600">
+              <div className="w-4 h-4 rounded-sm border border-black/10" style={{ backgroundColor: pick.color }} />
+              <span>{pick.color}</span>
+              <span className="flex-1 text-right" title={`Size ${formatVec(pick.size)}`}>at {formatVec(pick.center)}</span>
+            </div>
+          )}
+          {picking && pick === null && <div className="text-[10px] text-gray-400">No voxel there.</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenePanel;
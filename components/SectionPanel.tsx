@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import type { SectionAxis, SectionInfo, SectionState } from '../types';
+
+interface SectionPanelProps {
+  info: SectionInfo | null;
+  // Why the scene could not be measured, once the section tool gave up
+  unavailable: string | null;
+  section: SectionState;
+  disabled: boolean;
+  onChange: (section: SectionState) => void;
+}
+
+const MODES: { mode: SectionState['mode']; label: string; title: string }[] = [
+  { mode: 'off', label: 'Off', title: 'Show the whole model' },
+  { mode: 'plane', label: 'Plane', title: 'Cut along one axis, layer by layer' },
+  { mode: 'box', label: 'Box', title: 'Cut a corner out of the model' },
+];
+
+const AXES: SectionAxis[] = ['x', 'y', 'z'];
+
+const toggleClass = (active: boolean) =>
+  `flex-1 px-2 py-1 text-[10px] font-bold uppercase rounded-md transition-colors disabled:opacity-30 ${active ? 'bg-black text-white' : 'bg-white border border-gray-200 text-gray-500 hover:text-black'}`;
+
+/**
+ * Cuts the voxel view open along X, Y or Z at whole voxel layers, or cuts a
+ * box out of one corner.
+ */
+const SectionPanel: React.FC<SectionPanelProps> = ({ info, unavailable, section, disabled, onChange }) => {
+  const update = (changes: Partial<SectionState>) => onChange({ ...section, ...changes });
+  const axisIndex = AXES.indexOf(section.axis);
+
+  return (
+    <div className="space-y-3 animate-in fade-in slide-in-from-left-4 duration-500">
+      <label className="block text-xs font-bold uppercase text-gray-500">Section</label>
+
+      <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 space-y-3">
+        <div className="flex gap-1">
+          {MODES.map(({ mode, label, title }) => (
+            <button
+              key={mode}
+              onClick={() => update({ mode })}
+              disabled={disabled || !info}
+              title={title}
+              className={toggleClass(section.mode === mode)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {!info && (
+          <div className="text-[10px] text-gray-400">
+            {unavailable ? `The section tool is unavailable: ${unavailable}` : 'Measuring the scene...'}
+          </div>
+        )}
+
+        {info && section.mode === 'plane' && (
+          <div className="space-y-2">
+            <div className="flex gap-1">
+              {AXES.map((axis, i) => (
+                <button
+                  key={axis}
+                  // A new axis starts from the whole model
+                  onClick={() => update({ axis, layer: section.invert ? 1 : info.layers[i] })}
+                  disabled={disabled}
+                  className={toggleClass(section.axis === axis)}
+                >
+                  {axis}
+                </button>
+              ))}
+            </div>
+            <input
+              type="range"
+              min={1}
+              max={info.layers[axisIndex]}
+              step={1}
+              value={Math.min(section.layer, info.layers[axisIndex])}
+              onChange={(e) => update({ layer: parseInt(e.target.value) })}
+              disabled={disabled}
+              className="w-full accent-black"
+            />
+            <div className="text-[10px] font-mono text-gray-600 text-center">
+              Layer {Math.min(section.layer, info.layers[axisIndex])} of {info.layers[axisIndex]}
+            </div>
+          </div>
+        )}
+
+        {info && section.mode === 'box' && (
+          <div className="space-y-1">
+            {AXES.map((axis, i) => (
+              <div key={axis} className="flex items-center gap-2">
+                <span className="w-3 text-[10px] font-bold uppercase text-gray-500">{axis}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={info.layers[i]}
+                  step={1}
+                  value={Math.min(section.box[i], info.layers[i])}
+                  onChange={(e) => {
+                    const box = [...section.box] as SectionState['box'];
+                    box[i] = parseInt(e.target.value);
+                    update({ box });
+                  }}
+                  disabled={disabled}
+                  className="flex-1 accent-black"
+                />
+                <span className="w-12 text-right text-[10px] font-mono text-gray-600">{Math.min(section.box[i], info.layers[i])} / {info.layers[i]}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {info && section.mode !== 'off' && (
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={section.invert}
+                onChange={(e) => update({ invert: e.target.checked })}
+                disabled={disabled}
+                className="accent-black"
+              />
+              <span className="text-[10px] font-bold uppercase text-gray-500">Invert</span>
+            </label>
+            {section.mode === 'plane' && (
+              <label className="flex items-center gap-2 cursor-pointer select-none" title="Fill cut faces so the model looks solid">
+                <input
+                  type="checkbox"
+                  checked={section.caps}
+                  onChange={(e) => update({ caps: e.target.checked })}
+                  disabled={disabled}
+                  className="accent-black"
+                />
+                <span className="text-[10px] font-bold uppercase text-gray-500">Caps</span>
+              </label>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SectionPanel;
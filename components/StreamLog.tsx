@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef, useEffect } from 'react';
+
+// Only the tail of the partial code is rendered to keep updates cheap
+const MAX_VISIBLE_CHARS = 6000;
+
+interface StreamLogProps {
+  text: string;
+  tokens: number | null;
+  thoughts: string;
+}
+
+export const formatStreamProgress = (text: string, tokens: number | null): string => {
+  // Rough estimate (~4 characters per token) until the API reports usage
+  const tokenLabel = tokens !== null ? `${tokens.toLocaleString()} tokens` : `~${Math.round(text.length / 4).toLocaleString()} tokens`;
+  return `${text.length.toLocaleString()} chars · ${tokenLabel}`;
+};
+
+const StreamLog: React.FC<StreamLogProps> = ({ text, tokens, thoughts }) => {
+  const codeRef = useRef<HTMLPreElement>(null);
+
+  // Follow the stream like a terminal
+  useEffect(() => {
+    if (codeRef.current) codeRef.current.scrollTop = codeRef.current.scrollHeight;
+  }, [text]);
+
+  return (
+    <div className="w-full space-y-2 text-left">
+      {text && (
+        <div className="rounded-lg border border-gray-200 bg-gray-900 overflow-hidden">
+          <div className="flex justify-between px-3 py-1.5 text-[10px] font-bold uppercase text-gray-400 border-b border-gray-700">
+            <span>Code</span>
+            <span className="font-mono normal-case">{formatStreamProgress(text, tokens)}</span>
+          </div>
+          <pre ref={codeRef} className="p-3 h-40 overflow-y-auto custom-scrollbar font-mono text-[10px] leading-snug text-green-300 whitespace-pre-wrap break-all">
+            {text.length > MAX_VISIBLE_CHARS ? '…' + text.slice(-MAX_VISIBLE_CHARS) : text}
+          </pre>
+        </div>
+      )}
+
+      {thoughts && (
+        <details className="rounded-lg border border-gray-200 bg-gray-50">
+          <summary className="px-3 py-1.5 text-[10px] font-bold uppercase text-gray-500 cursor-pointer select-none">
+            Thought Log
+          </summary>
+          <div className="px-3 pb-3 max-h-48 overflow-y-auto custom-scrollbar font-mono text-[10px] text-gray-600 whitespace-pre-wrap">
+            {thoughts}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default StreamLog;
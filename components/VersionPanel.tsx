@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useState } from 'react';
+import { flattenVersionTree } from '../utils/versions';
+import type { VoxelVersion } from '../types';
+
+interface VersionPanelProps {
+  versions: VoxelVersion[];
+  activeId: string | null;
+  pinnedId: string | null;
+  compareIds: [string, string] | null;
+  disabled: boolean;
+  onSelect: (version: VoxelVersion) => void;
+  onTogglePin: (version: VoxelVersion) => void;
+  onCompare: (ids: [string, string] | null) => void;
+}
+
+const VersionPanel: React.FC<VersionPanelProps> = ({ versions, activeId, pinnedId, compareIds, disabled, onSelect, onTogglePin, onCompare }) => {
+  const [checked, setChecked] = useState<string[]>([]);
+  const rows = flattenVersionTree(versions);
+  const activeIndex = rows.findIndex(row => row.version.id === activeId);
+
+  const step = (delta: number) => {
+    const next = rows[activeIndex + delta];
+    if (next) onSelect(next.version);
+  };
+
+  // Keeps at most two versions ticked; the oldest tick drops off
+  const toggleChecked = (id: string) => {
+    setChecked(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id].slice(-2));
+  };
+
+  const handleCompare = () => {
+    if (compareIds) {
+      onCompare(null);
+    } else if (checked.length === 2) {
+      onCompare([checked[0], checked[1]]);
+    }
+  };
+
+  return (
+    <div className="space-y-2 animate-in fade-in slide-in-from-left-4 duration-500">
+      <div className="flex justify-between items-center">
+        <label className="block text-xs font-bold uppercase text-gray-500">Versions</label>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => step(-1)}
+            disabled={disabled || activeIndex <= 0}
+            className="w-6 h-6 text-xs font-bold rounded border border-gray-200 hover:border-black disabled:opacity-30"
+          >
+            ‹
+          </button>
+          <span className="text-[10px] font-mono text-gray-400 w-12 text-center">
+            {activeIndex + 1} / {rows.length}
+          </span>
+          <button
+            onClick={() => step(1)}
+            disabled={disabled || activeIndex >= rows.length - 1}
+            className="w-6 h-6 text-xs font-bold rounded border border-gray-200 hover:border-black disabled:opacity-30"
+          >
+            ›
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-gray-50 rounded-xl border border-gray-100 p-1 max-h-48 overflow-y-auto custom-scrollbar">
+        {rows.map(({ version, depth }) => (
+          <div
+            key={version.id}
+            style={{ paddingLeft: 8 + depth * 12 }}
+            className={`w-full flex items-center gap-2 pr-2 py-1.5 rounded-lg transition-all ${version.id === activeId ? 'bg-white shadow-sm' : 'hover:bg-white/60'}`}
+          >
+            <input
+              type="checkbox"
+              checked={checked.includes(version.id)}
+              onChange={() => toggleChecked(version.id)}
+              disabled={disabled}
+              title="Select for comparison"
+              className="accent-black flex-shrink-0"
+            />
+            {depth > 0 && <span className="text-gray-300 text-[10px]">↳</span>}
+            <button
+              onClick={() => onSelect(version)}
+              disabled={disabled}
+              title={`${version.model} · ${version.stats ? version.stats.reduce((sum, s) => sum + s.count, 0) + ' blocks' : 'no stats yet'}`}
+              className={`flex-1 min-w-0 truncate text-[11px] text-left ${version.id === activeId ? 'font-bold text-black' : 'text-gray-600'}`}
+            >
+              {version.instruction || 'Original'}
+            </button>
+            <button
+              onClick={() => onTogglePin(version)}
+              disabled={disabled}
+              title={version.id === pinnedId ? 'Unpin' : 'Pin as favourite (opens first)'}
+              className={`text-xs flex-shrink-0 ${version.id === pinnedId ? 'text-amber-500' : 'text-gray-300 hover:text-gray-500'}`}
+            >
+              {version.id === pinnedId ? '★' : '☆'}
+            </button>
+            <span className="text-[9px] text-gray-400 flex-shrink-0">
+              {new Date(version.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {rows.length > 1 && (
+        <button
+          onClick={handleCompare}
+          disabled={disabled || (!compareIds && checked.length !== 2)}
+          className="w-full px-3 py-2 border-2 border-black bg-white hover:bg-gray-50 text-xs font-bold uppercase rounded-lg transition-all disabled:opacity-30"
+        >
+          {compareIds ? 'Exit Compare' : `Compare Selected (${checked.length}/2)`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VersionPanel;
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import type { CameraView } from '../types';
+
+interface ViewControlsProps {
+  orthographic: boolean;
+  // Until the scene bridge is ready
+  disabled: boolean;
+  onView: (view: CameraView) => void;
+  onOrthographicChange: (orthographic: boolean) => void;
+}
+
+const VIEWS: { view: CameraView; label: string; title: string }[] = [
+  { view: 'fit', label: 'Fit', title: 'Frame the whole model' },
+  { view: 'iso', label: 'Iso', title: 'Isometric view' },
+  { view: 'front', label: 'Front', title: 'Front view' },
+  { view: 'top', label: 'Top', title: 'Top view' },
+  { view: 'side', label: 'Side', title: 'Side view' },
+];
+
+/**
+ * Camera preset buttons floating over the voxel view.
+ */
+const ViewControls: React.FC<ViewControlsProps> = ({ orthographic, disabled, onView, onOrthographicChange }) => (
+  <div className="absolute top-4 left-4 z-20 flex items-center gap-1 bg-white/95 backdrop-blur-sm rounded-lg shadow-sm border border-gray-200 p-1">
+    {VIEWS.map(({ view, label, title }) => (
+      <button
+        key={view}
+        onClick={() => onView(view)}
+        disabled={disabled}
+        title={title}
+        className="px-2 py-1 text-[10px] font-bold uppercase rounded-md text-gray-500 hover:text-black hover:bg-gray-100 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-500"
+      >
+        {label}
+      </button>
+    ))}
+    <div className="w-px h-4 bg-gray-200 mx-1" />
+    <button
+      onClick={() => onOrthographicChange(!orthographic)}
+      disabled={disabled}
+      title="Orthographic projection (no perspective)"
+      className={`px-2 py-1 text-[10px] font-bold uppercase rounded-md transition-colors disabled:opacity-30 ${orthographic ? 'bg-black text-white' : 'text-gray-500 hover:text-black hover:bg-gray-100'}`}
+    >
+      Ortho
+    </button>
+  </div>
+);
+
+export default ViewControls;
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useState, useRef, useEffect } from 'react';
+import { renderVoxelSceneHtml, toVoxelSceneData } from '../utils/voxelScene';
+import { injectVoxelEditor } from '../utils/html';
+import { injectSandboxPolicy, SCENE_SANDBOX } from '../utils/sandbox';
+import { readSceneMessage, SceneMessageOf } from '../utils/sceneMessages';
+import { fillBox, paintBox, getVoxelColor, withPaletteColor, Vec3 } from '../utils/voxelEdit';
+import type { VoxelModel } from '../types';
+
+type EditorTool = 'add' | 'remove' | 'paint' | 'box' | 'pick';
+
+const TOOLS: { id: EditorTool; label: string; hint: string }[] = [
+  { id: 'add', label: 'Add', hint: 'Click a face to add a voxel' },
+  { id: 'remove', label: 'Erase', hint: 'Click a voxel to remove it' },
+  { id: 'paint', label: 'Paint', hint: 'Click a voxel to recolour it' },
+  { id: 'box', label: 'Box', hint: 'Click two corners to fill a box' },
+  { id: 'pick', label: 'Pick', hint: 'Click a voxel to use its colour' },
+];
+
+const MAX_UNDO = 100;
+
+interface VoxelEditorProps {
+  initialModel: VoxelModel;
+  swatches: string[];
+  onSave: (model: VoxelModel) => void;
+  onCancel: () => void;
+}
+
+const VoxelEditor: React.FC<VoxelEditorProps> = ({ initialModel, swatches, onSave, onCancel }) => {
+  const [model, setModel] = useState<VoxelModel>(initialModel);
+  const [undoStack, setUndoStack] = useState<VoxelModel[]>([]);
+  const [redoStack, setRedoStack] = useState<VoxelModel[]>([]);
+  const [tool, setTool] = useState<EditorTool>('add');
+  const [previousTool, setPreviousTool] = useState<EditorTool>('add');
+  const [color, setColor] = useState(initialModel.palette[0] || '#4f46e5');
+  const [boxStart, setBoxStart] = useState<Vec3 | null>(null);
+
+  // The page is rendered once; later edits are pushed into it by message
+  const [frameHtml] = useState(() => injectSandboxPolicy(injectVoxelEditor(renderVoxelSceneHtml(initialModel, 'Voxel Editor'))));
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  // Latest state for the message handler, which is registered once
+  const stateRef = useRef({ model, tool, previousTool, color, boxStart });
+  stateRef.current = { model, tool, previousTool, color, boxStart };
+
+  const post = (message: object) => {
+    frameRef.current?.contentWindow?.postMessage(message, '*');
+  };
+
+  const commit = (next: VoxelModel) => {
+    setUndoStack(prev => [...prev.slice(-(MAX_UNDO - 1)), stateRef.current.model]);
+    setRedoStack([]);
+    setModel(next);
+  };
+
+  const undo = () => {
+    if (undoStack.length === 0) return;
+    setRedoStack(prev => [...prev, model]);
+    setModel(undoStack[undoStack.length - 1]);
+    setUndoStack(prev => prev.slice(0, -1));
+  };
+
+  const redo = () => {
+    if (redoStack.length === 0) return;
+    setUndoStack(prev => [...prev, model]);
+    setModel(redoStack[redoStack.length - 1]);
+    setRedoStack(prev => prev.slice(0, -1));
+  };
+
+  const selectTool = (next: EditorTool) => {
+    if (next === 'pick' && tool !== 'pick') setPreviousTool(tool);
+    setTool(next);
+    setBoxStart(null);
+  };
+
+  const handlePick = (pick: SceneMessageOf<'voxel_pick'>) => {
+    const { model, tool, previousTool, color, boxStart } = stateRef.current;
+    const onVoxel = pick.hit === 'voxel';
+    // Same rule as the in-scene hover box: add/box target the neighbouring cell
+    const target = (tool === 'add' || tool === 'box' || !onVoxel)
+      ? pick.cell.map((c, i) => c + pick.normal[i]) as Vec3
+      : pick.cell;
+
+    switch (tool) {
+      case 'add': {
+        const [withColor, index] = withPaletteColor(model, color);
+        commit(fillBox(withColor, target, target, index));
+        break;
+      }
+      case 'remove':
+        if (onVoxel) commit(fillBox(model, pick.cell, pick.cell, null));
+        break;
+      case 'paint':
+        if (onVoxel) {
+          const [withColor, index] = withPaletteColor(model, color);
+          commit(paintBox(withColor, pick.cell, pick.cell, index));
+        }
+        break;
+      case 'box':
+        if (!boxStart) {
+          setBoxStart(target);
+        } else {
+          const [withColor, index] = withPaletteColor(model, color);
+          commit(fillBox(withColor, boxStart, target, index));
+          setBoxStart(null);
+        }
+        break;
+      case 'pick':
+        if (onVoxel) {
+          const index = getVoxelColor(model, pick.cell);
+          if (index !== null) setColor(model.palette[index]);
+          setTool(previousTool);
+        }
+        break;
+    }
+  };
+
+  // Messages from the editor iframe
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const message = readSceneMessage(event, frameRef.current?.contentWindow);
+      if (!message) return;
+      if (message.type === 'voxel_pick') {
+        handlePick(message);
+      } else if (message.type === 'voxel_editor_ready') {
+        post({ type: 'voxel_grid_update', data: toVoxelSceneData(stateRef.current.model) });
+        post({ type: 'voxel_editor_state', tool: stateRef.current.tool, marker: stateRef.current.boxStart });
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  // Push edits and tool changes into the scene
+  useEffect(() => {
+    post({ type: 'voxel_grid_update', data: toVoxelSceneData(model) });
+  }, [model]);
+
+  useEffect(() => {
+    post({ type: 'voxel_editor_state', tool, marker: boxStart });
+  }, [tool, boxStart, model]);
+
+  // Undo / redo shortcuts while focus is outside the iframe
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const palette = Array.from(new Set([...swatches, ...model.palette].map(c => c.toLowerCase()))).slice(0, 24);
+  const activeHint = boxStart ? 'Click the opposite corner' : TOOLS.find(t => t.id === tool)?.hint;
+
+  return (
+    <div className="relative w-full h-full">
+      <iframe
+        ref={frameRef}
+        title="Voxel Editor"
+        srcDoc={frameHtml}
+        className="w-full h-full border-0"
+        sandbox={SCENE_SANDBOX}
+      />
+
+      <div className="absolute top-4 left-4 w-56 bg-white/95 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-3 space-y-3">
+        <div className="flex justify-between items-baseline">
+          <span className="text-xs font-black uppercase">Edit Voxels</span>
+          <span className="text-[10px] font-mono text-gray-400">{model.voxels.length} blocks</span>
+        </div>
+
+        <div className="grid grid-cols-5 gap-1">
+          {TOOLS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => selectTool(t.id)}
+              title={t.hint}
+              className={`py-1 text-[9px] font-bold uppercase rounded-md border transition-all ${tool === t.id ? 'bg-black text-white border-black' : 'bg-white text-gray-500 border-gray-200 hover:border-black'}`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+        <div className="text-[10px] text-gray-400 h-3">{activeHint}</div>
+
+        <div className="flex items-center gap-2">
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            className="w-8 h-8 rounded cursor-pointer border border-gray-200"
+            title="Custom colour"
+          />
+          <span className="text-[10px] font-mono text-gray-500">{color}</span>
+        </div>
+
+        <div className="grid grid-cols-8 gap-1">
+          {palette.map(swatch => (
+            <button
+              key={swatch}
+              onClick={() => setColor(swatch)}
+              title={swatch}
+              className={`aspect-square rounded-sm border ${swatch === color.toLowerCase() ? 'border-black ring-1 ring-black' : 'border-black/10'}`}
+              style={{ backgroundColor: swatch }}
+            />
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-1">
+          <button
+            onClick={undo}
+            disabled={undoStack.length === 0}
+            className="py-1 text-[10px] font-bold uppercase rounded-md border border-gray-200 hover:border-black disabled:opacity-30"
+          >
+            Undo
+          </button>
+          <button
+            onClick={redo}
+            disabled={redoStack.length === 0}
+            className="py-1 text-[10px] font-bold uppercase rounded-md border border-gray-200 hover:border-black disabled:opacity-30"
+          >
+            Redo
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-1 pt-2 border-t border-gray-100">
+          <button
+            onClick={onCancel}
+            className="py-2 text-[10px] font-bold uppercase rounded-md border-2 border-black bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(model)}
+            className="py-2 text-[10px] font-bold uppercase rounded-md bg-black text-white hover:bg-gray-800"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoxelEditor;
@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { createZip, readZip, ZipEntry } from "../utils/zip";
+import { dropItemStats, getItemVersions } from "../utils/versions";
+import { parseVoxelGrid, VoxelGridError } from "../utils/voxelGrid";
+import { isVoxelStats } from "../utils/sceneMessages";
+import type { HistoryItem, VoxelGrid, VoxelStat, VoxelVersion } from "../types";
+
+export const ARCHIVE_FORMAT = 'image-to-voxel-library';
+// Version 2 counts colours as sRGB hex, like the Library's DB_VERSION 2
+export const ARCHIVE_VERSION = 2;
+const MANIFEST_NAME = 'manifest.json';
+
+/**
+ * A version inside the archive. The scene HTML lives in separate files so the
+ * archive can be browsed by hand; `source` and `voxel` are their paths.
+ */
+interface ArchiveVersion extends Omit<VoxelVersion, 'source' | 'voxel'> {
+  source: string;
+  voxel: string;
+}
+
+interface ArchiveItem {
+  id: string;
+  prompt: string;
+  timestamp: number;
+  // Path of the image file and its MIME type
+  image: string;
+  imageType: string;
+  stats: VoxelStat[] | null;
+  grid: VoxelGrid | null;
+  activeVersionId: string | null;
+  pinnedVersionId: string | null;
+  versions: ArchiveVersion[];
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  items: ArchiveItem[];
+}
+
+export interface ImportResult {
+  items: HistoryItem[];
+  duplicates: number;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+const IMAGE_TYPE = /^image\/[\w.+-]+$/;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: Uint8Array | string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? encoder.encode(data) : data));
+
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const parseDataUrl = (url: string): { mimeType: string; bytes: Uint8Array } | null => {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!match) return null;
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { mimeType: match[1], bytes };
+};
+
+const toDataUrl = (mimeType: string, bytes: Uint8Array): string => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isNullableString = (value: unknown): value is string | null | undefined => value == null || isString(value);
+
+// Grids are trusted by the viewer and exporters, so they are checked here
+const readGrid = (value: unknown, where: string): VoxelGrid | null => {
+  if (value == null) return null;
+  try {
+    return parseVoxelGrid(value);
+  } catch (error) {
+    if (error instanceof VoxelGridError) throw new Error(`${where} has an invalid voxel grid.`);
+    throw error;
+  }
+};
+
+const readStats = (value: unknown, where: string): VoxelStat[] | null => {
+  if (value == null) return null;
+  if (!isVoxelStats(value)) throw new Error(`${where} has malformed colour stats.`);
+  return value;
+};
+
+/**
+ * Content hash of a Library item: its prompt, image and the scene of every
+ * version. Ids and timestamps are left out, so the same generation exported
+ * and imported again is recognised as a duplicate.
+ */
+export const hashHistoryItem = (item: HistoryItem): Promise<string> => {
+  const sources = getItemVersions(item).map(v => v.source).sort();
+  return sha256(JSON.stringify([item.prompt, item.image, sources]));
+};
+
+/**
+ * Packs Library items into a zip: `manifest.json` with the items, their
+ * versions and stats, `images/<sha256>.<ext>` for each distinct image and
+ * `scenes/<item>/<version>.html` (plus `.source.html` when the unprocessed
+ * scene differs) for every voxel version.
+ */
+export const exportLibrary = async (items: HistoryItem[]): Promise<Uint8Array> => {
+  const entries: ZipEntry[] = [];
+  const images = new Map<string, string>();
+  const manifestItems: ArchiveItem[] = [];
+
+  for (const item of items) {
+    // 1. Store each distinct image once, named by its hash
+    const parsed = parseDataUrl(item.image);
+    if (!parsed) {
+      throw new Error(`"${item.prompt}" has no embedded image, so it cannot be exported.`);
+    }
+    const imageHash = await sha256(parsed.bytes);
+    if (!images.has(imageHash)) {
+      const path = `images/${imageHash}.${IMAGE_EXTENSIONS[parsed.mimeType] || 'bin'}`;
+      images.set(imageHash, path);
+      entries.push({ name: path, data: parsed.bytes });
+    }
+
+    // 2. Scene files per version
+    const versions = getItemVersions(item).map((version): ArchiveVersion => {
+      const base = `scenes/${item.id}/${version.id}`;
+      entries.push({ name: `${base}.html`, data: version.voxel });
+      if (version.source !== version.voxel) {
+        entries.push({ name: `${base}.source.html`, data: version.source });
+      }
+      return {
+        ...version,
+        source: version.source !== version.voxel ? `${base}.source.html` : `${base}.html`,
+        voxel: `${base}.html`,
+      };
+    });
+
+    manifestItems.push({
+      id: item.id,
+      prompt: item.prompt,
+      timestamp: item.timestamp,
+      image: images.get(imageHash)!,
+      imageType: parsed.mimeType,
+      stats: item.stats,
+      grid: item.grid || null,
+      activeVersionId: item.activeVersionId ?? null,
+      pinnedVersionId: item.pinnedVersionId ?? null,
+      versions,
+    });
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    items: manifestItems,
+  };
+
+  return createZip([{ name: MANIFEST_NAME, data: JSON.stringify(manifest, null, 2) }, ...entries]);
+};
+
+/**
+ * Reads a Library archive written by exportLibrary. Items whose content hash
+ * matches one of `existing` (or an earlier item of the archive) are skipped;
+ * ids that are already taken are replaced. Returned items are newest first.
+ */
+export const importLibrary = async (archive: Uint8Array, existing: HistoryItem[]): Promise<ImportResult> => {
+  const files = new Map((await readZip(archive)).map(file => [file.name, file.data]));
+
+  // 1. Manifest
+  const manifestData = files.get(MANIFEST_NAME);
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(decoder.decode(manifestData));
+  } catch {
+    throw new Error("This file is not a Library archive (manifest.json is missing or invalid).");
+  }
+  if (manifest?.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.items)) {
+    throw new Error("This file is not a Library archive.");
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error("This archive was made by a newer version of the app.");
+  }
+
+  const readText = (path: unknown): string => {
+    const data = isString(path) ? files.get(path) : undefined;
+    if (!data) throw new Error(`The archive is missing ${String(path)}.`);
+    return decoder.decode(data);
+  };
+  // Only images stored in the archive are accepted: anything else would end
+  // up as the src of an <img> in the Library
+  const readImage = (path: unknown, type: unknown): string => {
+    if (!isString(path) || !path.startsWith('images/')) {
+      throw new Error("The archive refers to an image outside of it.");
+    }
+    const data = files.get(path);
+    if (!data) throw new Error(`The archive is missing ${path}.`);
+    // Version 1 archives only name the type by the file extension
+    const extension = path.split('.').pop() || '';
+    const mimeType = isString(type) && IMAGE_TYPE.test(type)
+      ? type
+      : Object.keys(IMAGE_EXTENSIONS).find(t => IMAGE_EXTENSIONS[t] === extension) || 'application/octet-stream';
+    return toDataUrl(mimeType, data);
+  };
+
+  // 2. Rebuild items, hashing the content that was actually read
+  const knownHashes = new Set(await Promise.all(existing.map(hashHistoryItem)));
+  const takenIds = new Set(existing.map(item => item.id));
+  const items: HistoryItem[] = [];
+  let duplicates = 0;
+
+  for (const [index, entry] of (manifest.items as unknown[]).entries()) {
+    const where = `Item ${index + 1} of the archive`;
+    if (!isRecord(entry) || !isString(entry.id) || !(entry.versions === undefined || Array.isArray(entry.versions))) {
+      throw new Error(`${where} is malformed.`);
+    }
+
+    const versions: VoxelVersion[] = ((entry.versions ?? []) as unknown[]).map((version, i) => {
+      if (!isRecord(version) || !isString(version.id) || !isNullableString(version.parentId)
+        || !isNullableString(version.instruction) || !isNullableString(version.prompt) || !isNullableString(version.model)) {
+        throw new Error(`${where} has a malformed version ${i + 1}.`);
+      }
+      return {
+        id: version.id,
+        parentId: version.parentId ?? null,
+        instruction: version.instruction ?? null,
+        prompt: version.prompt ?? '',
+        model: version.model ?? 'unknown',
+        source: readText(version.source),
+        voxel: readText(version.voxel),
+        grid: readGrid(version.grid, where),
+        stats: readStats(version.stats, where),
+        timestamp: isNumber(version.timestamp) ? version.timestamp : Date.now(),
+      };
+    });
+    const active = versions.find(v => v.id === entry.activeVersionId) || versions[versions.length - 1];
+
+    const item: HistoryItem = {
+      id: entry.id,
+      image: readImage(entry.image, entry.imageType),
+      voxel: active ? active.voxel : null,
+      prompt: isString(entry.prompt) ? entry.prompt : '',
+      timestamp: isNumber(entry.timestamp) ? entry.timestamp : Date.now(),
+      stats: readStats(entry.stats, where),
+      grid: readGrid(entry.grid, where),
+      versions,
+      activeVersionId: active ? active.id : null,
+      pinnedVersionId: isString(entry.pinnedVersionId) ? entry.pinnedVersionId : null,
+    };
+
+    const hash = await hashHistoryItem(item);
+    if (knownHashes.has(hash)) {
+      duplicates++;
+      continue;
+    }
+    knownHashes.add(hash);
+
+    if (takenIds.has(item.id)) item.id = newId();
+    takenIds.add(item.id);
+    // Older stats are counted again when the scene is next shown
+    items.push(manifest.version < 2 ? dropItemStats(item) : item);
+  }
+
+  return { items: items.sort((a, b) => b.timestamp - a.timestamp), duplicates };
+};
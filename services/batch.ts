@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { generateImage, generateVoxelScene, generateVoxelGrid, provider, withPalette, VOXEL_PROMPT, VOXEL_GRID_PROMPT } from "./generation";
+import { generateLocalVoxelModel, LOCAL_MODEL_ID } from "./localVoxels";
+import { processSceneHtml } from "../utils/html";
+import { decodeVoxelGrid, encodeVoxelGrid } from "../utils/voxelGrid";
+import { renderVoxelSceneHtml } from "../utils/voxelScene";
+import { createVersion } from "../utils/versions";
+import { withRetry } from "../utils/queue";
+import { computeVoxelStats } from "../utils/voxels";
+import { describeLocalOptions, LocalVoxelOptions } from "../utils/imageVoxels";
+import type { HistoryItem, VoxelGrid, VoxelMode, VoxelStat } from "../types";
+
+export type BatchStatus = 'queued' | 'generating_image' | 'generating_voxels' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * One entry of the batch queue: a prompt to turn into an image first, or an
+ * image that goes straight to voxel generation.
+ */
+export interface BatchItem {
+  id: string;
+  label: string;
+  prompt: string | null;
+  image: string | null;
+  status: BatchStatus;
+  // Set while waiting to retry after a rate limit
+  retry: { count: number; until: number } | null;
+  error: string | null;
+  // History item the result was saved as
+  resultId: string | null;
+}
+
+export interface BatchSettings {
+  aspectRatio: string;
+  optimize: boolean;
+  voxelMode: VoxelMode;
+  localOptions: LocalVoxelOptions;
+  palette: string[] | null;
+  concurrency: number;
+}
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+const RETRY_OPTIONS = { retries: 5, baseDelayMs: 2000, maxDelayMs: 60000 };
+
+export const createBatchItem = (source: { prompt: string } | { image: string; name: string }): BatchItem => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  label: 'prompt' in source ? source.prompt : source.name,
+  prompt: 'prompt' in source ? source.prompt : null,
+  image: 'image' in source ? source.image : null,
+  status: 'queued',
+  retry: null,
+  error: null,
+  resultId: null,
+});
+
+/**
+ * Parses pasted prompts: one per line, blank lines and `#` comments skipped.
+ */
+export const parsePromptList = (text: string): string[] =>
+  text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+
+/**
+ * Runs one queue item (image if needed, then voxels), retrying each model call
+ * with backoff while it is rate limited. Resolves with a finished Library
+ * item. `onUpdate` reports progress for the item's row.
+ */
+export const generateBatchItem = async (
+  item: BatchItem,
+  settings: BatchSettings,
+  onUpdate: (changes: Partial<BatchItem>) => void,
+  signal: AbortSignal
+): Promise<HistoryItem> => {
+  const retryOptions = {
+    ...RETRY_OPTIONS,
+    signal,
+    onRetry: (count: number, delayMs: number) => {
+      onUpdate({ status: 'waiting', retry: { count, until: Date.now() + delayMs } });
+    },
+  };
+  // Each (re)try marks the row as working again
+  const attempt = <T>(status: BatchStatus, task: () => Promise<T>): Promise<T> =>
+    withRetry(() => {
+      onUpdate({ status, retry: null });
+      return task();
+    }, retryOptions);
+
+  const image = item.image
+    || await attempt('generating_image', () => generateImage(item.prompt || '', settings.aspectRatio, settings.optimize, signal));
+
+  const title = item.prompt || item.label;
+  let source: string;
+  let grid: VoxelGrid | null = null;
+  let stats: VoxelStat[] | null = null;
+  if (settings.voxelMode === 'local') {
+    onUpdate({ status: 'generating_voxels', retry: null });
+    const model = await generateLocalVoxelModel(image, settings.localOptions, settings.palette);
+    grid = encodeVoxelGrid(model);
+    stats = computeVoxelStats(model);
+    source = renderVoxelSceneHtml(model, title);
+  } else if (settings.voxelMode === 'grid') {
+    grid = await attempt('generating_voxels', () => generateVoxelGrid(image, {}, signal, settings.palette));
+    source = renderVoxelSceneHtml(decodeVoxelGrid(grid), title);
+  } else {
+    source = await attempt('generating_voxels', () => generateVoxelScene(image, {}, signal, settings.palette));
+  }
+
+  const version = {
+    ...createVersion({
+      parentId: null,
+      instruction: null,
+      prompt: settings.voxelMode === 'local' ? describeLocalOptions(settings.localOptions, settings.palette)
+        : withPalette(settings.voxelMode === 'grid' ? VOXEL_GRID_PROMPT : VOXEL_PROMPT, settings.palette),
+      model: settings.voxelMode === 'local' ? LOCAL_MODEL_ID : provider.voxelModel.id,
+      source,
+      voxel: processSceneHtml(source),
+      grid,
+    }),
+    stats,
+  };
+
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    image,
+    voxel: version.voxel,
+    prompt: item.prompt || item.label,
+    timestamp: Date.now(),
+    stats,
+    grid,
+    versions: [version],
+    activeVersionId: version.id,
+  };
+};
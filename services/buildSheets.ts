@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { buildKitToCsv, BuildKit, layoutLayerPage, layoutPartsPages } from "../utils/buildKit";
+import { createZip, ZipEntry } from "../utils/zip";
+import type { DrawPage } from "../utils/pdf";
+
+// Pixels per point: A4 comes out at about 144 dpi
+const PNG_SCALE = 2;
+
+/**
+ * Draws a sheet on a canvas and encodes it as PNG.
+ */
+export const renderPagePng = (page: DrawPage, scale = PNG_SCALE): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(page.width * scale);
+    canvas.height = Math.round(page.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error("Canvas is not available in this browser."));
+      return;
+    }
+
+    ctx.scale(scale, scale);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, page.width, page.height);
+    ctx.lineWidth = 0.5;
+    page.ops.forEach(op => {
+      if (op.kind === 'rect') {
+        if (op.fill) {
+          ctx.fillStyle = op.fill;
+          ctx.fillRect(op.x, op.y, op.w, op.h);
+        }
+        if (op.stroke) {
+          ctx.strokeStyle = op.stroke;
+          ctx.strokeRect(op.x, op.y, op.w, op.h);
+        }
+      } else {
+        ctx.fillStyle = op.color || '#000000';
+        ctx.font = `${op.bold ? 'bold ' : ''}${op.size}px Helvetica, Arial, sans-serif`;
+        ctx.fillText(op.text, op.x, op.y);
+      }
+    });
+
+    canvas.toBlob(async blob => {
+      if (!blob) {
+        reject(new Error("Failed to encode the build sheet."));
+        return;
+      }
+      resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, 'image/png');
+  });
+
+/**
+ * A zip with the bill of materials as CSV and every sheet as a PNG.
+ */
+export const exportBuildSheetsZip = async (kit: BuildKit): Promise<Uint8Array> => {
+  const pad = (n: number) => String(n).padStart(String(kit.layers.length).length, '0');
+  const entries: ZipEntry[] = [{ name: 'parts.csv', data: buildKitToCsv(kit) }];
+
+  const partsPages = layoutPartsPages(kit);
+  for (let i = 0; i < partsPages.length; i++) {
+    entries.push({ name: `parts${partsPages.length > 1 ? `-${i + 1}` : ''}.png`, data: await renderPagePng(partsPages[i]) });
+  }
+  for (let i = 0; i < kit.layers.length; i++) {
+    entries.push({ name: `layer-${pad(i + 1)}.png`, data: await renderPagePng(layoutLayerPage(kit, i)) });
+  }
+  return createZip(entries);
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { localizeThreeImports, readImportMap, writeImportMap, THREE_VENDOR_PATH } from "../utils/threeVendor";
+
+// Vendored files already read as data: URLs, by path
+const dataUrlCache = new Map<string, Promise<string>>();
+
+const readDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const fetchModuleDataUrl = (path: string): Promise<string> => {
+  let cached = dataUrlCache.get(path);
+  if (!cached) {
+    cached = fetch(path)
+      .then(response => {
+        if (!response.ok) throw new Error(`Could not load ${path} (${response.status}).`);
+        return response.arrayBuffer();
+      })
+      .then(buffer => readDataUrl(new Blob([buffer], { type: 'text/javascript' })));
+    // A failed load is retried next time
+    cached.catch(() => dataUrlCache.delete(path));
+    dataUrlCache.set(path, cached);
+  }
+  return cached;
+};
+
+// Bare `three` specifiers a scene imports, statically or dynamically
+const IMPORTED_SPECIFIER_REGEX = /(?:\bfrom|\bimport\s*\(?)\s*['"](three(?:\/[^'"]*)?)['"]/g;
+
+/**
+ * Builds a single HTML file that runs from disk: the import map entries served
+ * by the app (Three.js and the vendored addons the scene imports) are replaced
+ * with data: URLs. Addons that are not vendored keep loading from the CDN.
+ */
+export const bundleSceneHtml = async (html: string): Promise<string> => {
+  const localized = localizeThreeImports(html);
+  const imports = readImportMap(localized);
+  if (!imports) return html;
+
+  const used = new Set(Array.from(localized.matchAll(IMPORTED_SPECIFIER_REGEX), match => match[1]));
+  // Addons import three themselves
+  used.add('three');
+
+  const bundled: Record<string, string> = {};
+  for (const [specifier, url] of Object.entries(imports)) {
+    if (!url.startsWith(`${THREE_VENDOR_PATH}/`)) {
+      bundled[specifier] = url;
+    } else if (used.has(specifier)) {
+      bundled[specifier] = await fetchModuleDataUrl(url);
+    }
+  }
+  return writeImportMap(localized, bundled);
+};
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { createGifEncoder } from "../utils/gif";
+import { callScene } from "./sceneBridge";
+import type { CapturedImage } from "../types";
+
+export interface CaptureOptions {
+  width: number;
+  height: number;
+  transparent: boolean;
+}
+
+export type TurntableFormat = 'gif' | 'webm';
+
+export interface TurntableOptions extends CaptureOptions {
+  format: TurntableFormat;
+  // One full turn takes this long
+  seconds: number;
+}
+
+// Larger outputs exceed common GPU limits or take very long to encode
+export const MAX_CAPTURE_SIZE = 4096;
+export const MAX_GIF_SIZE = 640;
+export const TURNTABLE_FPS: Record<TurntableFormat, number> = { gif: 15, webm: 30 };
+// Pixels rendered over a whole turn. Frames are encoded as they arrive, but
+// beyond this the turn takes too long to render and the output grows too big
+export const MAX_TURNTABLE_PIXELS = 1_000_000_000;
+// Evenly spaced views the GIF palette is built from
+const GIF_PALETTE_VIEWS = 8;
+
+/**
+ * Asks the scene running inside `frame` to render one frame through the scene
+ * bridge, optionally orbited `angle` radians about its target.
+ */
+export const requestSceneCapture = (frame: HTMLIFrameElement, options: CaptureOptions, angle: number = 0, timeoutMs: number = 10000): Promise<CapturedImage> =>
+  callScene(frame, 'screenshot', { ...options, angle }, timeoutMs);
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  return { canvas, ctx };
+};
+
+const imageToCanvas = (image: CapturedImage): HTMLCanvasElement => {
+  const { canvas, ctx } = createCanvas(image.width, image.height);
+  ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return canvas;
+};
+
+/**
+ * Renders the scene at the requested size and encodes it as PNG.
+ */
+export const captureScreenshot = async (frame: HTMLIFrameElement, options: CaptureOptions): Promise<Blob> => {
+  const canvas = imageToCanvas(await requestSceneCapture(frame, options));
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode the screenshot."))), 'image/png');
+  });
+};
+
+const pickWebmType = (): string => {
+  const types = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  const type = types.find(t => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(t));
+  if (!type) throw new Error("This browser cannot record WebM video.");
+  return type;
+};
+
+// Takes turntable frames as they are rendered; none of them are kept
+interface TurntableEncoder {
+  addFrame: (image: CapturedImage) => Promise<void>;
+  finish: () => Promise<Blob>;
+  discard: () => void;
+}
+
+// Draws each frame into a canvas stream as it arrives. The recorder is paused
+// while the next frame renders, so every frame lasts exactly 1/fps.
+const createWebmEncoder = (width: number, height: number, fps: number): TurntableEncoder => {
+  const mimeType = pickWebmType();
+  const { canvas, ctx } = createCanvas(width, height);
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  let failed: Error | null = null;
+
+  recorder.ondataavailable = event => { if (event.data.size > 0) chunks.push(event.data); };
+  recorder.onerror = () => { failed = new Error("Video recording failed."); };
+  recorder.start();
+  recorder.pause();
+
+  const stop = (): Promise<void> => new Promise(resolve => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(t => t.stop());
+      resolve();
+    };
+    recorder.stop();
+  });
+
+  return {
+    async addFrame(image) {
+      if (failed) throw failed;
+      ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+      recorder.resume();
+      track.requestFrame();
+      await new Promise(resolve => setTimeout(resolve, 1000 / fps));
+      recorder.pause();
+    },
+    async finish() {
+      await stop();
+      if (failed) throw failed;
+      return new Blob(chunks, { type: 'video/webm' });
+    },
+    discard() {
+      stop();
+    },
+  };
+};
+
+/**
+ * Orbits the camera one full turn and encodes the frames as an animated GIF
+ * or a WebM video, one frame at a time. GIFs are scaled to at most
+ * MAX_GIF_SIZE; WebM is always opaque, since browsers drop the alpha channel
+ * when recording. Turns of more than MAX_TURNTABLE_PIXELS are refused.
+ */
+export const captureTurntable = async (
+  frame: HTMLIFrameElement,
+  options: TurntableOptions,
+  onProgress: (done: number, total: number) => void = () => {},
+): Promise<Blob> => {
+  // 1. Output size and frame count
+  const scale = options.format === 'gif' ? Math.min(1, MAX_GIF_SIZE / Math.max(options.width, options.height)) : 1;
+  const size = {
+    width: Math.max(1, Math.round(options.width * scale)),
+    height: Math.max(1, Math.round(options.height * scale)),
+    transparent: options.format === 'gif' && options.transparent,
+  };
+  const fps = TURNTABLE_FPS[options.format];
+  const count = Math.max(2, Math.round(options.seconds * fps));
+  if (count * size.width * size.height > MAX_TURNTABLE_PIXELS) {
+    throw new Error(`A ${options.seconds} s turntable at ${size.width}×${size.height} is too large to record. Use a smaller size or a shorter turn.`);
+  }
+  const angleOf = (i: number) => (i / count) * Math.PI * 2;
+
+  // 2. Encoder. The GIF palette comes from a few views around the turn
+  let encoder: TurntableEncoder;
+  if (options.format === 'gif') {
+    const views = Math.min(GIF_PALETTE_VIEWS, count);
+    const samples: CapturedImage[] = [];
+    for (let i = 0; i < views; i++) {
+      samples.push(await requestSceneCapture(frame, size, angleOf(Math.floor(i * count / views))));
+    }
+    const gif = createGifEncoder(size.width, size.height, 1000 / fps, samples);
+    encoder = {
+      addFrame: async image => gif.addFrame(image),
+      finish: async () => new Blob([gif.finish()], { type: 'image/gif' }),
+      discard: () => {},
+    };
+  } else {
+    encoder = createWebmEncoder(size.width, size.height, fps);
+  }
+
+  // 3. One frame per step of the turn, encoded as soon as it is rendered
+  try {
+    for (let i = 0; i < count; i++) {
+      onProgress(i, count);
+      await encoder.addFrame(await requestSceneCapture(frame, size, angleOf(i)));
+    }
+  } catch (error) {
+    encoder.discard();
+    throw error;
+  }
+  onProgress(count, count);
+  return encoder.finish();
+};
@@ -1,122 +0,0 @@
-/**
- * @license
- * SPDX-License-Identifier: Apache-2.0
-*/
-
-
-import { GoogleGenAI, Modality } from "@google/genai";
-import { extractHtmlFromText } from "../utils/html";
-
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export const IMAGE_SYSTEM_PROMPT = "Generate an isolated object/scene on a simple background.";
-export const VOXEL_PROMPT = "I have provided an image. Code a beautiful voxel art scene inspired by this image. Write threejs code as a single-page. Configure OrbitControls with reasonable minDistance (e.g. 10) and maxDistance (e.g. 300) to prevent clipping or getting lost.";
-
-export const generateImage = async (prompt: string, aspectRatio: string = '1:1', optimize: boolean = true): Promise<string> => {
-  try {
-    let finalPrompt = prompt;
-
-    // Apply the shortened optimization prompt if enabled
-    if (optimize) {
-      finalPrompt = `${IMAGE_SYSTEM_PROMPT}\n\nSubject: ${prompt}`;
-    }
-
-    // Note: gemini-2.5-flash-image now supports multiple aspect ratios.
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: finalPrompt,
-          },
-        ],
-      },
-      config: {
-        responseModalities: [
-            'IMAGE',
-        ],
-        imageConfig: {
-          aspectRatio: aspectRatio,
-        },
-      },
-    });
-
-    const part = response.candidates?.[0]?.content?.parts?.[0];
-    if (part && part.inlineData) {
-        const base64ImageBytes = part.inlineData.data;
-        const mimeType = part.inlineData.mimeType || 'image/png';
-        return `data:${mimeType};base64,${base64ImageBytes}`;
-    } else {
-      throw new Error("No image generated.");
-    }
-  } catch (error) {
-    console.error("Image generation failed:", error);
-    throw error;
-  }
-};
-
-export const generateVoxelScene = async (
-  imageBase64: string, 
-  onThoughtUpdate?: (thought: string) => void
-): Promise<string> => {
-  // Extract the base64 data part if it includes the prefix
-  const base64Data = imageBase64.split(',')[1] || imageBase64;
-  
-  // Extract MIME type from the data URL if present, otherwise default to jpeg
-  const mimeMatch = imageBase64.match(/^data:(.*?);base64,/);
-  const mimeType = mimeMatch ? mimeMatch[1] : 'image/jpeg';
-
-  let fullHtml = "";
-
-  try {
-    // Using gemini-3-pro-preview for complex code generation with thinking
-    const response = await ai.models.generateContentStream({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Data
-            }
-          },
-          {
-            text: VOXEL_PROMPT
-          }
-        ]
-      },
-      config: {
-        thinkingConfig: {
-          includeThoughts: true,
-        },
-      },
-    });
-
-    for await (const chunk of response) {
-      const candidates = chunk.candidates;
-      if (candidates && candidates[0] && candidates[0].content && candidates[0].content.parts) {
-        for (const part of candidates[0].content.parts) {
-          // Cast to any to access 'thought' property if not in current type definition
-          const p = part as any;
-          
-          if (p.thought) {
-            if (onThoughtUpdate && p.text) {
-              onThoughtUpdate(p.text);
-            }
-          } else {
-            if (p.text) {
-              fullHtml += p.text;
-            }
-          }
-        }
-      }
-    }
-
-    return extractHtmlFromText(fullHtml);
-
-  } catch (error) {
-    console.error("Voxel scene generation failed:", error);
-    throw error;
-  }
-};
\ No newline at end of file
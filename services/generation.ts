@@ -0,0 +1,276 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { Type } from "@google/genai";
+import { extractHtmlFromText } from "../utils/html";
+import { parseVoxelGrid, MAX_GRID_COLORS, MAX_GRID_SIZE } from "../utils/voxelGrid";
+import { snapGridToPalette } from "../utils/palette";
+import { createProvider, Message, StreamChunk } from "./providers";
+import type { VoxelGrid } from "../types";
+
+// Backend selected at build time (see MODEL_PROVIDER in vite.config.ts)
+export const provider = createProvider(process.env.MODEL_PROVIDER);
+
+export const IMAGE_SYSTEM_PROMPT = "Generate an isolated object/scene on a simple background.";
+export const VOXEL_PROMPT = "I have provided an image. Code a beautiful voxel art scene inspired by this image. Write threejs code as a single-page. Configure OrbitControls with reasonable minDistance (e.g. 10) and maxDistance (e.g. 300) to prevent clipping or getting lost.";
+
+export const VOXEL_GRID_PROMPT = `I have provided an image. Design a beautiful voxel art model inspired by this image and return it as JSON.
+Use a grid of at most ${MAX_GRID_SIZE} voxels per side (width = x, height = y, depth = z) and a palette of at most ${MAX_GRID_COLORS} #RRGGBB colors.
+Encode the voxels in "rle" as a flat list of [count, colorIndex] pairs covering every cell exactly once, ordered x fastest, then z, then y from the bottom layer up.
+colorIndex 0 means empty; 1 refers to the first palette color.`;
+
+// JSON schema the model must follow in grid mode
+const VOXEL_GRID_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    width: { type: Type.INTEGER, description: `Size along x, 1-${MAX_GRID_SIZE}` },
+    height: { type: Type.INTEGER, description: `Size along y (up), 1-${MAX_GRID_SIZE}` },
+    depth: { type: Type.INTEGER, description: `Size along z, 1-${MAX_GRID_SIZE}` },
+    palette: {
+      type: Type.ARRAY,
+      description: 'Colors as #RRGGBB',
+      items: { type: Type.STRING },
+    },
+    rle: {
+      type: Type.ARRAY,
+      description: 'Flat [count, colorIndex] pairs; colorIndex 0 is empty',
+      items: { type: Type.INTEGER },
+    },
+  },
+  required: ['width', 'height', 'depth', 'palette', 'rle'],
+  propertyOrdering: ['width', 'height', 'depth', 'palette', 'rle'],
+};
+
+export const REFINE_PROMPT = "Update the voxel scene according to the instruction below, keeping everything else the same. Return the complete updated single-page HTML.";
+
+export const REPAIR_PROMPT = "The voxel scene you wrote does not work when run in the browser. Fix the problems listed below without changing what the scene shows. Return the complete corrected single-page HTML.";
+
+// First turn of a refinement whose scene the app rendered from a voxel grid
+// (grid and local modes), so the model did not write it
+export const RENDERED_SCENE_PROMPT = "I have provided an image. Show the voxel art model built from this image as a single-page threejs scene.";
+
+export const PALETTE_PROMPT = "Use only these colors, as exact hex values, for every voxel:";
+
+// A voxel prompt restricted to the chosen palette, if any
+export const withPalette = (prompt: string, palette: string[] | null): string =>
+  palette && palette.length > 0 ? `${prompt}\n\n${PALETTE_PROMPT} ${palette.join(', ')}.` : prompt;
+
+// The repair turn for a list of problems reported by the scene
+export const buildRepairPrompt = (problems: string[]): string =>
+  `${REPAIR_PROMPT}\n\nProblems:\n${problems.map(p => `- ${p}`).join('\n')}`;
+
+/**
+ * A previous step of a refinement conversation: the instruction that was
+ * given (null for the initial generation) and the HTML the model returned.
+ * `rendered` marks HTML the app rendered from a voxel grid instead.
+ */
+export interface RefinementTurn {
+  instruction: string | null;
+  source: string;
+  rendered: boolean;
+}
+
+/**
+ * Callbacks for streamed generations. `onThought` receives each thought
+ * fragment; `onText` receives the answer text so far and the output token
+ * count when the API reports one.
+ */
+export interface StreamHandlers {
+  onThought?: (thought: string) => void;
+  onText?: (text: string, tokens: number | null) => void;
+}
+
+/**
+ * Collects the answer text of a streamed response, forwarding thoughts and
+ * partial text to `handlers` as they arrive. Stops with an AbortError as soon
+ * as `signal` is aborted.
+ */
+const readStream = async (
+  response: AsyncGenerator<StreamChunk>,
+  handlers: StreamHandlers = {},
+  signal?: AbortSignal
+): Promise<string> => {
+  let text = "";
+  let tokens: number | null = null;
+  for await (const chunk of response) {
+    signal?.throwIfAborted();
+    tokens = chunk.tokens ?? tokens;
+    if (chunk.thought) {
+      handlers.onThought?.(chunk.thought);
+    }
+    if (chunk.text) {
+      text += chunk.text;
+      handlers.onText?.(text, tokens);
+    }
+  }
+  return text;
+};
+
+// Splits a data URL (or bare base64, assumed JPEG) into a message part
+const toImagePart = (imageBase64: string) => {
+  // Extract the base64 data part if it includes the prefix
+  const base64Data = imageBase64.split(',')[1] || imageBase64;
+  
+  // Extract MIME type from the data URL if present, otherwise default to jpeg
+  const mimeMatch = imageBase64.match(/^data:(.*?);base64,/);
+  const mimeType = mimeMatch ? mimeMatch[1] : 'image/jpeg';
+
+  return { image: { mimeType, data: base64Data } };
+};
+
+/**
+ * Generates an image for the prompt. Pass `signal` to cancel the request.
+ */
+export const generateImage = async (
+  prompt: string,
+  aspectRatio: string = '1:1',
+  optimize: boolean = true,
+  signal?: AbortSignal
+): Promise<string> => {
+  try {
+    let finalPrompt = prompt;
+
+    // Apply the shortened optimization prompt if enabled
+    if (optimize) {
+      finalPrompt = `${IMAGE_SYSTEM_PROMPT}\n\nSubject: ${prompt}`;
+    }
+
+    return await provider.generateImage({ prompt: finalPrompt, aspectRatio }, signal);
+  } catch (error) {
+    if (!signal?.aborted) console.error("Image generation failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * Asks the model for a Three.js voxel scene inspired by the image. With a
+ * `palette` the prompt lists the only colours it may use; the scene's actual
+ * colours are checked once it runs (see findOffPaletteColors).
+ */
+export const generateVoxelScene = async (
+  imageBase64: string, 
+  handlers: StreamHandlers = {},
+  signal?: AbortSignal,
+  palette: string[] | null = null
+): Promise<string> => {
+  try {
+    const response = provider.streamText({
+      messages: [{ role: 'user', parts: [toImagePart(imageBase64), { text: withPalette(VOXEL_PROMPT, palette) }] }],
+    }, signal);
+
+    const fullHtml = await readStream(response, handlers, signal);
+    return extractHtmlFromText(fullHtml);
+
+  } catch (error) {
+    if (!signal?.aborted) console.error("Voxel scene generation failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * Structured alternative to generateVoxelScene: asks the model for a voxel
+ * grid as schema-constrained JSON instead of free-form Three.js code. Colours
+ * outside `palette` are snapped to their nearest allowed colour.
+ */
+export const generateVoxelGrid = async (
+  imageBase64: string,
+  handlers: StreamHandlers = {},
+  signal?: AbortSignal,
+  palette: string[] | null = null
+): Promise<VoxelGrid> => {
+  try {
+    const response = provider.streamText({
+      messages: [{ role: 'user', parts: [toImagePart(imageBase64), { text: withPalette(VOXEL_GRID_PROMPT, palette) }] }],
+      responseSchema: VOXEL_GRID_SCHEMA,
+    }, signal);
+
+    const fullJson = await readStream(response, handlers, signal);
+
+    let data: unknown;
+    try {
+      data = JSON.parse(fullJson);
+    } catch {
+      throw new Error("The model did not return valid JSON for the voxel grid.");
+    }
+    const grid = parseVoxelGrid(data);
+    return palette && palette.length > 0 ? snapGridToPalette(grid, palette) : grid;
+
+  } catch (error) {
+    if (!signal?.aborted) console.error("Voxel grid generation failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * Continues the conversation that produced a scene: the original request, every
+ * earlier refinement and the model's HTML answers are replayed as turns, followed
+ * by the new instruction. With a `palette` the original request lists the only
+ * colours allowed; the result is checked like generateVoxelScene's.
+ */
+export const refineVoxelScene = async (
+  imageBase64: string,
+  turns: RefinementTurn[],
+  instruction: string,
+  handlers: StreamHandlers = {},
+  signal?: AbortSignal,
+  palette: string[] | null = null
+): Promise<string> => {
+  const request = turns[0]?.rendered ? RENDERED_SCENE_PROMPT : VOXEL_PROMPT;
+  const messages: Message[] = [
+    { role: 'user', parts: [toImagePart(imageBase64), { text: withPalette(request, palette) }] },
+  ];
+
+  turns.forEach(turn => {
+    if (turn.instruction) {
+      messages.push({ role: 'user', parts: [{ text: `${REFINE_PROMPT}\n\nInstruction: ${turn.instruction}` }] });
+    }
+    messages.push({ role: 'model', parts: [{ text: turn.source }] });
+  });
+
+  messages.push({ role: 'user', parts: [{ text: `${REFINE_PROMPT}\n\nInstruction: ${instruction}` }] });
+
+  try {
+    const response = provider.streamText({ messages }, signal);
+
+    const fullHtml = await readStream(response, handlers, signal);
+    return extractHtmlFromText(fullHtml);
+
+  } catch (error) {
+    if (!signal?.aborted) console.error("Voxel scene refinement failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * Asks the model to fix a scene it generated, given the problems reported when
+ * running it (errors, missing meshes). The original request, with its
+ * `palette`, and the broken answer are replayed as turns so only the fix is new.
+ */
+export const repairVoxelScene = async (
+  imageBase64: string,
+  source: string,
+  problems: string[],
+  handlers: StreamHandlers = {},
+  signal?: AbortSignal,
+  palette: string[] | null = null
+): Promise<string> => {
+  const messages: Message[] = [
+    { role: 'user', parts: [toImagePart(imageBase64), { text: withPalette(VOXEL_PROMPT, palette) }] },
+    { role: 'model', parts: [{ text: source }] },
+    { role: 'user', parts: [{ text: buildRepairPrompt(problems) }] },
+  ];
+
+  try {
+    const response = provider.streamText({ messages }, signal);
+
+    const fullHtml = await readStream(response, handlers, signal);
+    return extractHtmlFromText(fullHtml);
+
+  } catch (error) {
+    if (!signal?.aborted) console.error("Voxel scene repair failed:", error);
+    throw error;
+  }
+};
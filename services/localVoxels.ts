@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { extractImagePalette, imageToVoxelModel, LocalVoxelOptions, PixelImage } from "../utils/imageVoxels";
+import type { VoxelModel } from "../types";
+
+// Identifies versions made by the local converter (VoxelVersion.model)
+export const LOCAL_MODEL_ID = 'Local Converter';
+
+// Larger images are scaled down by the browser first; the voxel grid is at
+// most 64 wide, so this only saves time
+const MAX_SOURCE_SIZE = 512;
+
+/**
+ * Decodes an image (data URL or same-origin URL) into RGBA pixels.
+ */
+export const loadImagePixels = (src: string): Promise<PixelImage> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, MAX_SOURCE_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+      const width = Math.max(1, Math.round(img.naturalWidth * scale));
+      const height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas is not available in this browser."));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, width, height);
+      resolve(ctx.getImageData(0, 0, width, height));
+    };
+    img.onerror = () => reject(new Error("Failed to decode the image."));
+    img.src = src;
+  });
+
+/**
+ * Converts an image to voxels locally, without calling a model. Same image and
+ * options give the same model. With a `palette` every voxel uses one of its colours.
+ */
+export const generateLocalVoxelModel = async (image: string, options: LocalVoxelOptions, palette: string[] | null = null): Promise<VoxelModel> => {
+  return imageToVoxelModel(await loadImagePixels(image), options, palette);
+};
+
+/**
+ * The main colours of an image, for use as a target palette.
+ */
+export const extractPaletteFromImage = async (image: string, count: number): Promise<string[]> => {
+  return extractImagePalette(await loadImagePixels(image), count);
+};
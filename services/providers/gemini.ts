@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GoogleGenAI, Content } from "@google/genai";
+import type { Message, ModelProvider, StreamChunk } from "./types";
+
+const toContents = (messages: Message[]): Content[] =>
+  messages.map(message => ({
+    role: message.role,
+    parts: message.parts.map(part =>
+      'image' in part ? { inlineData: { mimeType: part.image.mimeType, data: part.image.data } } : { text: part.text }
+    ),
+  }));
+
+/**
+ * Provider backed by the Gemini API: gemini-2.5-flash-image for images and
+ * gemini-3-pro-preview (with thoughts) for scene code.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const imageModel = { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image' };
+  const voxelModel = { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro' };
+
+  return {
+    id: 'gemini',
+    imageModel,
+    voxelModel,
+
+    generateImage: async ({ prompt, aspectRatio }, signal) => {
+      // Note: gemini-2.5-flash-image now supports multiple aspect ratios.
+      const response = await ai.models.generateContent({
+        model: imageModel.id,
+        contents: {
+          parts: [
+            {
+              text: prompt,
+            },
+          ],
+        },
+        config: {
+          responseModalities: [
+              'IMAGE',
+          ],
+          imageConfig: {
+            aspectRatio: aspectRatio,
+          },
+          abortSignal: signal,
+        },
+      });
+
+      const part = response.candidates?.[0]?.content?.parts?.[0];
+      if (part && part.inlineData) {
+          const base64ImageBytes = part.inlineData.data;
+          const mimeType = part.inlineData.mimeType || 'image/png';
+          return `data:${mimeType};base64,${base64ImageBytes}`;
+      }
+      throw new Error("No image generated.");
+    },
+
+    streamText: async function* ({ messages, responseSchema }, signal) {
+      const response = await ai.models.generateContentStream({
+        model: voxelModel.id,
+        contents: toContents(messages),
+        config: {
+          ...(responseSchema ? { responseMimeType: 'application/json', responseSchema } : {}),
+          thinkingConfig: {
+            includeThoughts: true,
+          },
+          abortSignal: signal,
+        },
+      });
+
+      for await (const chunk of response) {
+        const tokens = chunk.usageMetadata?.candidatesTokenCount;
+        const parts = chunk.candidates?.[0]?.content?.parts || [];
+        for (const part of parts) {
+          if (!part.text) continue;
+          const piece: StreamChunk = part.thought ? { thought: part.text } : { text: part.text };
+          if (tokens !== undefined) piece.tokens = tokens;
+          yield piece;
+        }
+      }
+    },
+  };
+};
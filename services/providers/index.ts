@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { MODEL_PROVIDERS, type ModelProvider } from "./types";
+
+export type { ImageRequest, Message, MessagePart, ModelInfo, ModelProvider, StreamChunk, TextRequest } from "./types";
+
+/**
+ * Picks the backend from the MODEL_PROVIDER setting ("gemini" by default,
+ * "mock" to run fully offline).
+ */
+export const createProvider = (name: string | undefined): ModelProvider => {
+  switch (name || 'gemini') {
+    case 'gemini':
+      return createGeminiProvider(process.env.API_KEY);
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown model provider "${name}". Use ${MODEL_PROVIDERS.map(p => `"${p}"`).join(' or ')}.`);
+  }
+};
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { encodeVoxelGrid } from "../../utils/voxelGrid";
+import type { GridVoxel } from "../../types";
+import type { Message, ModelProvider, StreamChunk } from "./types";
+
+// Recorded answers replayed for scene requests
+const RECORDED_SCENES = ['/examples/example1.html', '/examples/example2.html', '/examples/example3.html'];
+
+const RECORDED_THOUGHTS = [
+  "**Analyzing the Image**\n\nLooking at the main subject, its silhouette and the dominant colours so the voxel version stays recognisable.\n\n",
+  "**Planning the Voxel Layout**\n\nChoosing a grid size that keeps the detail while staying fast, and splitting the scene into a base, the subject and small animated accents.\n\n",
+  "**Choosing the Palette**\n\nPicking a handful of saturated colours plus darker shades for the sides so the blocks read well under the lights.\n\n",
+  "**Writing the Three.js Code**\n\nUsing InstancedMesh for the blocks, OrbitControls with sensible limits and a soft hemisphere plus directional light.\n\n",
+];
+
+const CHUNK_SIZE = 400;
+const CHUNK_DELAY_MS = 40;
+const THOUGHT_DELAY_MS = 600;
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Stable choice of recording for the same input
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i += 97) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+const lastText = (messages: Message[], role: Message['role']): string => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role !== role) continue;
+    const part = messages[i].parts.find(p => 'text' in p);
+    if (part && 'text' in part) return part.text;
+  }
+  return '';
+};
+
+/**
+ * A small tree on a grass tile, returned for structured grid requests.
+ */
+const buildRecordedGrid = (): string => {
+  const size = 12;
+  const voxels: GridVoxel[] = [];
+  for (let x = 0; x < size; x++) {
+    for (let z = 0; z < size; z++) {
+      voxels.push({ x, y: 0, z, color: (x + z) % 5 === 0 ? 1 : 0 });
+    }
+  }
+  for (let y = 1; y < 6; y++) voxels.push({ x: 5, y, z: 5, color: 2 });
+  for (let y = 5; y < 10; y++) {
+    const r = y < 8 ? 3 : 2;
+    for (let x = 5 - r; x <= 5 + r; x++) {
+      for (let z = 5 - r; z <= 5 + r; z++) {
+        if (Math.abs(x - 5) + Math.abs(z - 5) <= r + 1 && !(x === 5 && z === 5 && y < 6)) {
+          voxels.push({ x, y, z, color: (x + y + z) % 4 === 0 ? 4 : 3 });
+        }
+      }
+    }
+  }
+
+  const grid = encodeVoxelGrid({
+    size: [size, 11, size],
+    palette: ['#6ab04c', '#78c257', '#8d5a34', '#2f9e44', '#51cf66'],
+    voxels,
+  });
+  return JSON.stringify(grid);
+};
+
+/**
+ * Draws a placeholder picture (a few isometric blocks and the prompt) so the
+ * image step works without a backend.
+ */
+const renderPlaceholderImage = (prompt: string, aspectRatio: string): string => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const scale = 768 / Math.max(w || 1, h || 1);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round((w || 1) * scale);
+  canvas.height = Math.round((h || 1) * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available.");
+
+  const hue = hashString(prompt) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+  gradient.addColorStop(0, `hsl(${hue}, 60%, 92%)`);
+  gradient.addColorStop(1, `hsl(${hue}, 50%, 78%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Isometric cube: top, left and right faces in three shades
+  const cube = (cx: number, cy: number, s: number, shade: number) => {
+    const faces: [number, number][][] = [
+      [[cx, cy - s], [cx + s, cy - s / 2], [cx, cy], [cx - s, cy - s / 2]],
+      [[cx - s, cy - s / 2], [cx, cy], [cx, cy + s], [cx - s, cy + s / 2]],
+      [[cx, cy], [cx + s, cy - s / 2], [cx + s, cy + s / 2], [cx, cy + s]],
+    ];
+    faces.forEach((face, i) => {
+      ctx.fillStyle = `hsl(${(hue + shade) % 360}, 55%, ${62 - i * 12}%)`;
+      ctx.beginPath();
+      face.forEach(([x, y], j) => (j === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.closePath();
+      ctx.fill();
+    });
+  };
+
+  const s = Math.min(canvas.width, canvas.height) / 10;
+  const cx = canvas.width / 2;
+  const cy = canvas.height / 2;
+  [[0, 1], [-1, 0.5], [1, 0.5], [0, 0], [0, -1]].forEach(([dx, dy], i) => {
+    cube(cx + dx * s, cy + dy * s, s, i * 40);
+  });
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.font = `bold ${Math.round(s / 3)}px sans-serif`;
+  ctx.textAlign = 'center';
+  const subject = prompt.split('Subject:').pop()!.trim();
+  ctx.fillText(subject.length > 48 ? subject.slice(0, 47) + '…' : subject, cx, canvas.height - s);
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Offline provider that replays recorded responses: the scenes in examples/
+ * for code requests, a built-in grid for structured requests, and the previous
+ * answer for refinements. Thoughts and text are streamed in small chunks with
+ * delays so the streaming UI behaves as it does against a live model.
+ */
+export const createMockProvider = (): ModelProvider => ({
+  id: 'mock',
+  imageModel: { id: 'mock-image', label: 'Mock Image (offline)' },
+  voxelModel: { id: 'mock-voxel', label: 'Mock Replay (offline)' },
+
+  generateImage: async ({ prompt, aspectRatio }, signal) => {
+    await sleep(THOUGHT_DELAY_MS, signal);
+    return renderPlaceholderImage(prompt, aspectRatio);
+  },
+
+  streamText: async function* ({ messages, responseSchema }, signal) {
+    const isRefinement = messages.some(m => m.role === 'model');
+
+    let answer: string;
+    if (responseSchema) {
+      answer = buildRecordedGrid();
+    } else if (isRefinement) {
+      // Replays the previous answer, noting the instruction (or repair request) in the document
+      const request = lastText(messages, 'user');
+      const note = request.includes('Instruction:')
+        ? `Mock refinement: ${request.split('Instruction:').pop()!.trim()}`
+        : 'Mock repair';
+      answer = lastText(messages, 'model').replace(/<html([^>]*)>/i, `<html$1>\n<!-- ${note.replace(/--/g, '- -')} -->`);
+    } else {
+      const image = messages[0]?.parts.find(p => 'image' in p);
+      const key = image && 'image' in image ? image.image.data : lastText(messages, 'user');
+      const url = RECORDED_SCENES[hashString(key) % RECORDED_SCENES.length];
+      const response = await fetch(url, { signal });
+      if (!response.ok) throw new Error(`Mock provider could not load ${url}.`);
+      answer = await response.text();
+    }
+
+    for (const thought of RECORDED_THOUGHTS) {
+      await sleep(THOUGHT_DELAY_MS, signal);
+      yield { thought };
+    }
+
+    let tokens = 0;
+    for (let i = 0; i < answer.length; i += CHUNK_SIZE) {
+      await sleep(CHUNK_DELAY_MS, signal);
+      const text = answer.slice(i, i + CHUNK_SIZE);
+      tokens += Math.ceil(text.length / 4);
+      const chunk: StreamChunk = { text, tokens };
+      yield chunk;
+    }
+  },
+});
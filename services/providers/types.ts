@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Values MODEL_PROVIDER may take; vite.config.ts rejects any other
+export const MODEL_PROVIDERS = ['gemini', 'mock'] as const;
+
+export interface ModelInfo {
+  id: string;
+  label: string; // Shown in the UI, e.g. "Gemini 3 Pro"
+}
+
+export type MessagePart =
+  | { text: string }
+  | { image: { mimeType: string; data: string } }; // Base64 without the data: prefix
+
+/**
+ * One conversation turn; `model` turns are earlier answers being replayed.
+ */
+export interface Message {
+  role: 'user' | 'model';
+  parts: MessagePart[];
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio: string;
+}
+
+export interface TextRequest {
+  messages: Message[];
+  // When set, the answer must be JSON matching this (OpenAPI-style) schema
+  responseSchema?: object;
+}
+
+/**
+ * A piece of a streamed answer. `tokens` is the output token count so far,
+ * when the backend reports one.
+ */
+export interface StreamChunk {
+  thought?: string;
+  text?: string;
+  tokens?: number;
+}
+
+/**
+ * A backend that can produce images and stream text answers. Prompt building
+ * and response parsing stay in services/generation.ts so every provider sees
+ * the same requests.
+ */
+export interface ModelProvider {
+  id: string;
+  imageModel: ModelInfo;
+  voxelModel: ModelInfo;
+  // Resolves to a data URL
+  generateImage(request: ImageRequest, signal?: AbortSignal): Promise<string>;
+  streamText(request: TextRequest, signal?: AbortSignal): AsyncGenerator<StreamChunk>;
+}
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { injectErrorReporter } from "../utils/html";
+import { injectSandboxPolicy, SCENE_SANDBOX } from "../utils/sandbox";
+import { readSceneMessage } from "../utils/sceneMessages";
+import type { SceneHealth, SceneVoxel } from "../types";
+
+/**
+ * Asks the scene running inside `frame` (instrumented with injectVoxelExporter)
+ * for all of its voxels.
+ */
+export const requestSceneVoxels = (frame: HTMLIFrameElement, timeoutMs: number = 10000): Promise<SceneVoxel[]> => {
+  return new Promise((resolve, reject) => {
+    const target = frame.contentWindow;
+    if (!target) {
+      reject(new Error("The voxel scene is not loaded."));
+      return;
+    }
+
+    const requestId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      window.removeEventListener('message', handleMessage);
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      const message = readSceneMessage(event, target);
+      if (!message || message.type !== 'voxel_data' || message.requestId !== requestId) return;
+      cleanup();
+      resolve(message.voxels);
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error("The voxel scene did not respond. It may still be loading."));
+    }, timeoutMs);
+
+    window.addEventListener('message', handleMessage);
+    // The frame's origin is opaque, so it cannot be targeted by name
+    target.postMessage({ type: 'request_voxels', requestId }, '*');
+  });
+};
+
+/**
+ * Runs a scene in a hidden iframe and resolves with its health report (see
+ * injectErrorReporter). A scene that never finishes loading resolves with a
+ * report holding a timeout error instead of hanging the caller.
+ */
+export const checkSceneHealth = (html: string, emptyAfterMs: number = 4000, signal?: AbortSignal): Promise<SceneHealth> => {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+
+    // Offscreen rather than display:none, so the renderer gets a real size
+    const frame = document.createElement('iframe');
+    frame.setAttribute('sandbox', SCENE_SANDBOX);
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.cssText = 'position:fixed;left:-10000px;top:0;width:640px;height:480px;border:0;visibility:hidden;';
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      window.removeEventListener('message', handleMessage);
+      signal?.removeEventListener('abort', handleAbort);
+      frame.remove();
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      const message = readSceneMessage(event, frame.contentWindow);
+      if (!message || message.type !== 'scene_health') return;
+      cleanup();
+      resolve(message.health);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(signal?.reason);
+    };
+
+    const loadTimeoutMs = emptyAfterMs + 15000;
+    const timer = setTimeout(() => {
+      cleanup();
+      resolve({
+        errors: [{ kind: 'uncaught', message: `The scene did not finish loading within ${Math.round(loadTimeoutMs / 1000)}s.` }],
+        sceneFound: false,
+        meshCount: 0,
+        checkedAfterMs: loadTimeoutMs,
+      });
+    }, loadTimeoutMs);
+
+    window.addEventListener('message', handleMessage);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    frame.srcdoc = injectSandboxPolicy(injectErrorReporter(html, emptyAfterMs));
+    document.body.appendChild(frame);
+  });
+};
+
+/**
+ * Turns a health report into the list of problems shown to the user and fed
+ * back to the model. Empty when the scene looks fine.
+ */
+export const describeSceneProblems = (health: SceneHealth): string[] => {
+  const problems = health.errors.map(error => {
+    switch (error.kind) {
+      case 'resource': return error.message;
+      case 'rejection': return `Unhandled promise rejection: ${error.message}`;
+      case 'console': return `console.error: ${error.message}`;
+      default: return `Uncaught error: ${error.message}`;
+    }
+  });
+  // Without a hooked scene there is nothing to count
+  if (health.sceneFound && health.meshCount === 0) {
+    problems.push(`The scene contains no meshes after ${Math.round(health.checkedAfterMs / 100) / 10}s.`);
+  }
+  return problems;
+};
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { BRIDGE_VERSION, BridgeMethod, BridgeMethods, isBridgeResult, readSceneMessage } from "../utils/sceneMessages";
+
+/**
+ * Calls `method` on the scene bridge running inside `frame` (see
+ * injectSceneBridge) and resolves with its result. Rejects when the scene
+ * reports an error, answers with another protocol version or a malformed
+ * result, or does not answer within `timeoutMs`.
+ */
+export const callScene = <M extends BridgeMethod>(
+  frame: HTMLIFrameElement,
+  method: M,
+  params: BridgeMethods[M]['params'],
+  timeoutMs: number = 10000,
+): Promise<BridgeMethods[M]['result']> => {
+  return new Promise((resolve, reject) => {
+    const target = frame.contentWindow;
+    if (!target) {
+      reject(new Error("The voxel scene is not loaded."));
+      return;
+    }
+
+    const requestId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      window.removeEventListener('message', handleMessage);
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      const message = readSceneMessage(event, target);
+      if (!message || message.type !== 'bridge_response' || message.requestId !== requestId) return;
+      cleanup();
+      if (message.version !== BRIDGE_VERSION) {
+        reject(new Error(`The scene speaks bridge version ${message.version}, not ${BRIDGE_VERSION}.`));
+      } else if (message.ok === false) {
+        reject(new Error(message.error));
+      } else if (!isBridgeResult(method, message.result)) {
+        reject(new Error(`The scene sent a malformed ${method} result.`));
+      } else {
+        resolve(message.result);
+      }
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error("The voxel scene did not respond. It may still be loading."));
+    }, timeoutMs);
+
+    window.addEventListener('message', handleMessage);
+    target.postMessage({ type: 'bridge_request', version: BRIDGE_VERSION, requestId, method, params }, '*');
+  });
+};
+
+/**
+ * A bound bridge call, as handed to the panels that drive the scene.
+ */
+export type SceneCaller = <M extends BridgeMethod>(method: M, params: BridgeMethods[M]['params']) => Promise<BridgeMethods[M]['result']>;
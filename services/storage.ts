@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { dropItemStats } from "../utils/versions";
+import type { HistoryItem } from "../types";
+
+const DB_NAME = 'image-to-voxel';
+// Version 2 counts colours as sRGB hex (see COLLECT_STATS_FUNCTIONS)
+const DB_VERSION = 2;
+const STORE_NAME = 'history';
+
+// Rough upper bound for what we keep locally. Images and voxel HTML are stored
+// as strings, so the budget is measured in UTF-16 characters * 2 bytes.
+export const STORAGE_BUDGET_BYTES = 200 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      } else if (event.oldVersion < 2) {
+        // Stats saved in version 1 used raw linear components; they are
+        // counted again when each scene is next shown
+        request.transaction!.objectStore(STORE_NAME).openCursor().onsuccess = (cursorEvent) => {
+          const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          cursor.update(dropItemStats(cursor.value));
+          cursor.continue();
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against the history store and resolves once the
+ * surrounding transaction has completed.
+ */
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const isQuotaError = (error: unknown): boolean => {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
+
+/**
+ * Approximate size of a history item in bytes.
+ */
+export const estimateItemSize = (item: HistoryItem): number => {
+  return JSON.stringify(item).length * 2;
+};
+
+// Approximate size and age of every stored item, so the budget can be checked
+// without reading the store back. Filled by loadHistory (or a scan when
+// something is saved first) and kept up to date by every write below.
+interface StoredEntry {
+  size: number;
+  timestamp: number;
+}
+
+let storedIndex: Promise<Map<string, StoredEntry>> | null = null;
+
+const toEntry = (item: HistoryItem): StoredEntry => ({ size: estimateItemSize(item), timestamp: item.timestamp });
+
+const getStoredIndex = (): Promise<Map<string, StoredEntry>> => {
+  if (!storedIndex) {
+    storedIndex = runTransaction<HistoryItem[]>('readonly', store => store.getAll())
+      .then(items => new Map((items || []).map(item => [item.id, toEntry(item)])));
+    storedIndex.catch(() => { storedIndex = null; });
+  }
+  return storedIndex;
+};
+
+// Writes to the same id run one after another, so a delete is never
+// overtaken by a save that started before it
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+const queueWrite = <T>(id: string, write: () => Promise<T>): Promise<T> => {
+  const next = (pendingWrites.get(id) || Promise.resolve()).catch(() => {}).then(write);
+  pendingWrites.set(id, next);
+  const settle = () => {
+    if (pendingWrites.get(id) === next) pendingWrites.delete(id);
+  };
+  next.then(settle, settle);
+  return next;
+};
+
+const removeItem = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+  (await getStoredIndex()).delete(id);
+};
+
+/**
+ * Loads all saved history items, newest first.
+ */
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  const items = await runTransaction<HistoryItem[]>('readonly', store => store.getAll()) || [];
+  storedIndex ??= Promise.resolve(new Map(items.map(item => [item.id, toEntry(item)])));
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Removes the oldest items until the store fits within the budget, never
+ * evicting the item identified by `keepId` or one that is being written.
+ * Returns the ids that were removed.
+ */
+const evictOldest = async (budget: number, keepId: string, force: boolean = false): Promise<string[]> => {
+  const index = await getStoredIndex();
+  let total = 0;
+  index.forEach(entry => { total += entry.size; });
+  const evicted: string[] = [];
+  if (!force && total <= budget) return evicted;
+
+  const oldestFirst = Array.from(index).sort((a, b) => a[1].timestamp - b[1].timestamp);
+  for (const [id, entry] of oldestFirst) {
+    if (!force && total <= budget) break;
+    if (id === keepId || pendingWrites.has(id)) continue;
+
+    await removeItem(id);
+    total -= entry.size;
+    evicted.push(id);
+
+    // When recovering from a quota error, free one item at a time
+    if (force) break;
+  }
+
+  return evicted;
+};
+
+/**
+ * Saves (inserts or replaces) a history item. When the size budget or the
+ * browser quota is exceeded, the oldest items are evicted to make room.
+ * Returns the ids of any evicted items so the caller can drop them from state.
+ */
+export const saveHistoryItem = async (item: HistoryItem): Promise<string[]> => {
+  const evicted: string[] = [];
+
+  await queueWrite(item.id, async () => {
+    while (true) {
+      try {
+        await runTransaction('readwrite', store => store.put(item));
+        (await getStoredIndex()).set(item.id, toEntry(item));
+        return;
+      } catch (error) {
+        if (!isQuotaError(error)) throw error;
+
+        const removed = await evictOldest(0, item.id, true);
+        if (removed.length === 0) {
+          throw new Error("Not enough storage space to save this generation.");
+        }
+        evicted.push(...removed);
+      }
+    }
+  });
+
+  evicted.push(...await evictOldest(STORAGE_BUDGET_BYTES, item.id));
+  return evicted;
+};
+
+/**
+ * Deletes a single history item, after any save of it still in flight.
+ */
+export const deleteHistoryItem = (id: string): Promise<void> => queueWrite(id, () => removeItem(id));
+
+/**
+ * Removes every saved history item.
+ */
+export const clearHistory = async (): Promise<void> => {
+  await runTransaction('readwrite', store => store.clear());
+  (await getStoredIndex()).clear();
+};
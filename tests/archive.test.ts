@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { createZip, crc32, readZip } from '../utils/zip';
+import { exportLibrary, importLibrary } from '../services/archive';
+import type { HistoryItem } from '../types';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+const item = (id: string, scene: string, extra: Partial<HistoryItem> = {}): HistoryItem => ({
+  id,
+  image: PIXEL,
+  voxel: `<html>${scene}</html>`,
+  prompt: `Prompt ${id}`,
+  timestamp: 1700000000000 + Number(id),
+  stats: [{ color: '#ff0000', count: 3 }],
+  versions: [{
+    id: `${id}-a`,
+    parentId: null,
+    instruction: null,
+    prompt: 'voxelize',
+    model: 'mock',
+    source: `<html>${scene} source</html>`,
+    voxel: `<html>${scene}</html>`,
+    grid: null,
+    stats: [{ color: '#ff0000', count: 3 }],
+    timestamp: 1700000000000,
+  }],
+  activeVersionId: `${id}-a`,
+  ...extra,
+});
+
+describe('readZip', () => {
+  it('reads back what createZip writes', async () => {
+    const files = await readZip(createZip([
+      { name: 'a.txt', data: 'hello' },
+      { name: 'dir/b.bin', data: new Uint8Array([1, 2, 3]) },
+    ]));
+    expect(files.map(f => f.name)).toEqual(['a.txt', 'dir/b.bin']);
+    expect(new TextDecoder().decode(files[0].data)).toBe('hello');
+    expect(Array.from(files[1].data)).toEqual([1, 2, 3]);
+  });
+
+  it('inflates deflated entries', async () => {
+    const text = new TextEncoder().encode('voxel '.repeat(200));
+    const stored = createZip([{ name: 'scene.html', data: text }]);
+    const compressed = deflateRawSync(text);
+
+    // Rewrite the single entry as deflated: method 8 and the compressed size
+    // in both headers, the compressed bytes in place of the stored ones
+    const name = 'scene.html'.length;
+    const local = stored.slice(0, 30 + name);
+    const central = stored.slice(30 + name + text.length, 30 + name + text.length + 46 + name);
+    const end = stored.slice(stored.length - 22);
+    const out = new Uint8Array(local.length + compressed.length + central.length + end.length);
+    out.set(local, 0);
+    out.set(compressed, local.length);
+    out.set(central, local.length + compressed.length);
+    out.set(end, local.length + compressed.length + central.length);
+    const dv = new DataView(out.buffer);
+    const centralAt = local.length + compressed.length;
+    dv.setUint16(8, 8, true);
+    dv.setUint32(18, compressed.length, true);
+    dv.setUint16(centralAt + 10, 8, true);
+    dv.setUint32(centralAt + 20, compressed.length, true);
+    dv.setUint32(centralAt + central.length + 16, centralAt, true);
+
+    const [file] = await readZip(out);
+    expect(crc32(file.data)).toBe(crc32(text));
+    expect(new TextDecoder().decode(file.data)).toBe('voxel '.repeat(200));
+  });
+
+  it('rejects corrupt data', async () => {
+    const zip = createZip([{ name: 'a.txt', data: 'hello' }]);
+    zip[30 + 'a.txt'.length] ^= 0xff;
+    await expect(readZip(zip)).rejects.toThrow('corrupt');
+    await expect(readZip(new Uint8Array(100))).rejects.toThrow('Not a zip');
+  });
+});
+
+// Rewrites the manifest of an archive, keeping its other files
+const editManifest = async (archive: Uint8Array, edit: (manifest: any) => void): Promise<Uint8Array> => {
+  const files = await readZip(archive);
+  return createZip(files.map(file => {
+    if (file.name !== 'manifest.json') return file;
+    const manifest = JSON.parse(new TextDecoder().decode(file.data));
+    edit(manifest);
+    return { name: file.name, data: JSON.stringify(manifest) };
+  }));
+};
+
+describe('Library archive', () => {
+  it('round-trips items with their images, versions and stats', async () => {
+    const items = [item('1', 'castle'), item('2', 'tree', { pinnedVersionId: '2-a' })];
+    const archive = await exportLibrary(items);
+
+    const names = (await readZip(archive)).map(f => f.name);
+    expect(names).toContain('manifest.json');
+    // The shared image is stored once
+    expect(names.filter(n => n.startsWith('images/'))).toHaveLength(1);
+    expect(names).toContain('scenes/1/1-a.html');
+    expect(names).toContain('scenes/1/1-a.source.html');
+
+    const { items: imported, duplicates } = await importLibrary(archive, []);
+    expect(duplicates).toBe(0);
+    expect(imported).toEqual([...items].reverse().map(i => ({ ...i, grid: null, pinnedVersionId: i.pinnedVersionId ?? null })));
+  });
+
+  it('skips items already in the Library by content hash', async () => {
+    const archive = await exportLibrary([item('1', 'castle'), item('2', 'tree')]);
+
+    // Same content under a different id and time is still a duplicate
+    const existing = [item('9', 'castle', { prompt: 'Prompt 1', timestamp: 1 })];
+    const { items, duplicates } = await importLibrary(archive, existing);
+    expect(duplicates).toBe(1);
+    expect(items.map(i => i.prompt)).toEqual(['Prompt 2']);
+  });
+
+  it('gives imported items a new id when theirs is taken', async () => {
+    const archive = await exportLibrary([item('1', 'castle')]);
+    const { items } = await importLibrary(archive, [item('1', 'other scene')]);
+    expect(items).toHaveLength(1);
+    expect(items[0].id).not.toBe('1');
+  });
+
+  it('drops stats counted in the encoding of version 1 archives', async () => {
+    const archive = await editManifest(await exportLibrary([item('1', 'castle')]), manifest => { manifest.version = 1; });
+    const { items } = await importLibrary(archive, []);
+    expect(items[0].stats).toBeNull();
+    expect(items[0].versions?.[0].stats).toBeNull();
+  });
+
+  it('keeps the image type, so re-imports of any image are recognised', async () => {
+    const svg = `data:image/svg+xml;base64,${btoa('<svg xmlns="http://www.w3.org/2000/svg"/>')}`;
+    const archive = await exportLibrary([item('1', 'castle', { image: svg })]);
+    const { items } = await importLibrary(archive, []);
+    expect(items[0].image).toBe(svg);
+    expect((await importLibrary(archive, items)).duplicates).toBe(1);
+  });
+
+  it('rejects images from outside the archive', async () => {
+    for (const image of ['javascript:alert(1)', 'https://example.com/a.png', 'scenes/1/1-a.html']) {
+      const archive = await editManifest(await exportLibrary([item('1', 'castle')]), manifest => { manifest.items[0].image = image; });
+      await expect(importLibrary(archive, [])).rejects.toThrow('image outside of it');
+    }
+  });
+
+  it('rejects malformed items, grids and stats', async () => {
+    const archive = await exportLibrary([item('1', 'castle')]);
+    const broken: ((entry: any) => void)[] = [
+      entry => { entry.versions = 'none'; },
+      entry => { entry.versions[0] = 42; },
+      entry => { entry.grid = { width: 2, height: 1, depth: 1, palette: [], rle: [2, 1] }; },
+      entry => { entry.versions[0].grid = { width: 999 }; },
+      entry => { entry.stats = [{ color: 'red', count: 3 }]; },
+    ];
+    for (const edit of broken) {
+      const edited = await editManifest(archive, manifest => edit(manifest.items[0]));
+      await expect(importLibrary(edited, [])).rejects.toThrow('Item 1 of the archive');
+    }
+  });
+
+  it('rejects zips that are not Library archives', async () => {
+    await expect(importLibrary(createZip([{ name: 'a.txt', data: 'x' }]), [])).rejects.toThrow('not a Library archive');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { BUILD_CATALOGUES, buildKitToCsv, createBuildKit, deltaE2000, hexToLab, layoutBuildSheets, nearestCatalogueColor } from '../utils/buildKit';
+import { encodePdf } from '../utils/pdf';
+import type { VoxelModel } from '../types';
+
+const bricks = BUILD_CATALOGUES.find(c => c.id === 'bricks')!;
+
+// Two-layer model: a 2×1 red and white base with one blue voxel on top
+const model: VoxelModel = {
+  size: [2, 2, 1],
+  palette: ['#ff0000', '#ffffff', '#2060b0', '#fa0a0a'],
+  voxels: [
+    { x: 0, y: 0, z: 0, color: 0 },
+    { x: 1, y: 0, z: 0, color: 3 },
+    { x: 1, y: 1, z: 0, color: 2 },
+  ],
+};
+
+describe('colour matching', () => {
+  it('converts sRGB to Lab', () => {
+    hexToLab('#ffffff').forEach((v, i) => expect(v).toBeCloseTo([100, 0, 0][i], 2));
+    expect(hexToLab('#ff0000').map(v => Math.round(v))).toEqual([53, 80, 67]);
+  });
+
+  it('matches the CIEDE2000 reference data', () => {
+    // Pairs 1 and 7 of Sharma, Wu & Dalal's test set
+    expect(deltaE2000([50, 2.6772, -79.7751], [50, 0, -82.7485])).toBeCloseTo(2.0425, 4);
+    expect(deltaE2000([50, 0, 0], [50, -1, 2])).toBeCloseTo(2.3669, 4);
+  });
+
+  it('picks the perceptually nearest catalogue colour', () => {
+    expect(bricks.colors[nearestCatalogueColor('#f4f4f4', bricks)].name).toBe('White');
+    expect(bricks.colors[nearestCatalogueColor('#cc0000', bricks)].name).toBe('Bright Red');
+    expect(bricks.colors[nearestCatalogueColor('#959595', bricks)].name).toBe('Medium Stone Grey');
+  });
+});
+
+describe('build kits', () => {
+  it('counts parts, merging scene colours that map to the same part', () => {
+    const kit = createBuildKit(model, bricks);
+    expect(kit.parts.map(p => [p.color.name, p.count])).toEqual([['Bright Red', 2], ['Bright Blue', 1]]);
+    expect(kit.parts[0].sources).toEqual(['#ff0000', '#fa0a0a']);
+    expect(buildKitToCsv(kit).split('\n')[1]).toBe('1,21,Bright Red,#b40000,2,#ff0000 #fa0a0a');
+  });
+
+  it('slices one layer per voxel row from the bottom up', () => {
+    const kit = createBuildKit(model, bricks);
+    expect(kit.layers.map(l => l.cells)).toEqual([[0, 0], [-1, 1]]);
+    expect(kit.layers.map(l => l.count)).toEqual([2, 1]);
+  });
+
+  it('rejects an empty scene', () => {
+    expect(() => createBuildKit({ size: [0, 0, 0], palette: [], voxels: [] }, bricks)).toThrow(/no voxels/);
+  });
+
+  it('lays out a parts page and one sheet per layer', () => {
+    const pages = layoutBuildSheets(createBuildKit(model, bricks));
+    expect(pages).toHaveLength(3);
+    const texts = pages.map(page => page.ops.flatMap(op => (op.kind === 'text' ? [op.text] : [])));
+    expect(texts[1]).toContain('Layer 1 of 2');
+    expect(texts[2]).toContain('Layer 2 of 2');
+    // The empty cell of layer 2 sits on a filled cell and is shaded as support
+    expect(pages[2].ops.some(op => op.kind === 'rect' && op.fill === '#e5e7eb')).toBe(true);
+  });
+});
+
+describe('PDF encoding', () => {
+  it('writes a well-formed cross-reference table', () => {
+    const pdf = encodePdf(layoutBuildSheets(createBuildKit(model, bricks)));
+    const text = String.fromCharCode(...pdf);
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('/Count 3');
+
+    const xref = parseInt(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(xref, xref + 4)).toBe('xref');
+    const offsets = text.slice(xref).split('\n').slice(3).filter(line => line.endsWith(' n ')).map(line => parseInt(line));
+    offsets.forEach((offset, i) => expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+
+  it('escapes text and replaces characters outside Latin-1', () => {
+    const pdf = encodePdf([{ width: 100, height: 100, ops: [{ kind: 'text', x: 0, y: 10, size: 8, text: 'a (b) \\ → ×' }] }]);
+    expect(String.fromCharCode(...pdf)).toContain('(a \\(b\\) \\\\ ? \xd7) Tj');
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { SceneHookKind } from '../types';
+
+/**
+ * Expected outcome of the instrumentation: whether the scripts parse and
+ * which objects get hooked.
+ */
+export interface InstrumentationExpectations {
+  parsed: boolean;
+  hooks: SceneHookKind[];
+}
+
+export interface SceneFixture {
+  name: string;
+  raw: string; // As returned by the model, possibly wrapped in prose
+  expected: InstrumentationExpectations;
+  // Whether the scene can be run headlessly (needs three + known addons)
+  runnable: boolean;
+}
+
+const ALL_APPLIED: InstrumentationExpectations = {
+  parsed: true,
+  hooks: ['scene', 'renderer', 'camera', 'controls'],
+};
+
+const EXAMPLES_DIR = fileURLToPath(new URL('../examples', import.meta.url));
+
+const exampleFixtures: SceneFixture[] = readdirSync(EXAMPLES_DIR)
+  .filter(file => file.endsWith('.html'))
+  .sort()
+  .map(file => ({
+    name: `examples/${file}`,
+    raw: readFileSync(path.join(EXAMPLES_DIR, file), 'utf-8'),
+    expected: ALL_APPLIED,
+    runnable: true,
+  }));
+
+interface MinimalSceneParts {
+  imports?: string;
+  scene?: string;
+  camera?: string;
+  renderer?: string;
+  controls?: string;
+  closeBody?: boolean;
+}
+
+/**
+ * A small but complete scene in the shape the model usually writes, with
+ * individual statements swapped out to build the adversarial variants.
+ */
+const minimalScene = (parts: MinimalSceneParts = {}): string => {
+  const {
+    imports = `import * as THREE from 'three';
+        import { OrbitControls } from 'three/addons/controls/OrbitControls.js';`,
+    scene = `const scene = new THREE.Scene();`,
+    camera = `const camera = new THREE.PerspectiveCamera(45, window.innerWidth / window.innerHeight, 0.1, 1000);
+        camera.position.set(40, 30, 40);`,
+    renderer = `const renderer = new THREE.WebGLRenderer({ antialias: true });`,
+    controls = `const controls = new OrbitControls(camera, renderer.domElement);`,
+    closeBody = true,
+  } = parts;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Fixture</title>
+    <script type="importmap">
+        { "imports": { "three": "https://unpkg.com/three@0.160.0/build/three.module.js", "three/addons/": "https://unpkg.com/three@0.160.0/examples/jsm/" } }
+    </script>
+</head>
+<body>
+    <div id="info">Drag to orbit</div>
+    <script type="module">
+        ${imports}
+
+        ${scene}
+        scene.background = new THREE.Color(0xf0f0f0);
+
+        ${camera}
+
+        ${renderer}
+        renderer.setSize(window.innerWidth, window.innerHeight);
+        document.body.appendChild(renderer.domElement);
+
+        ${controls}
+
+        scene.add(new THREE.HemisphereLight(0xffffff, 0x444444, 1.5));
+        const geometry = new THREE.BoxGeometry(1, 1, 1);
+        const colors = [0x3b82f6, 0xef4444, 0x22c55e];
+        for (let i = 0; i < 12; i++) {
+            const cube = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: colors[i % 3] }));
+            cube.position.set(i % 4, Math.floor(i / 4), 0);
+            scene.add(cube);
+        }
+
+        function animate() {
+            requestAnimationFrame(animate);
+            controls.update();
+            renderer.render(scene, camera);
+        }
+        animate();
+    </script>
+${closeBody ? '</body>\n</html>' : ''}`;
+};
+
+const adversarialFixtures: SceneFixture[] = [
+  {
+    name: 'baseline',
+    raw: minimalScene(),
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'wrapped in prose and a markdown fence',
+    raw: `Here is your voxel scene!\n\n\`\`\`html\n${minimalScene()}\n\`\`\`\n\nEnjoy orbiting around it.`,
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'Scene() called with whitespace and no semicolon',
+    raw: minimalScene({ scene: `const scene = new THREE.Scene( )` }),
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'scene declared first and assigned later',
+    raw: minimalScene({ scene: `let scene;\n        scene = new THREE.Scene();` }),
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'named imports instead of the THREE namespace',
+    raw: minimalScene({
+      imports: `import * as THREE from 'three';
+        import { Scene } from 'three';
+        import { OrbitControls } from 'three/addons/controls/OrbitControls.js';`,
+      scene: `const scene = new Scene();`,
+    }),
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'camera positioned with variables',
+    raw: minimalScene({
+      camera: `const camera = new THREE.PerspectiveCamera(45, window.innerWidth / window.innerHeight, 0.1, 1000);
+        const d = 40;
+        camera.position.set(d, d * 0.75, d);`,
+    }),
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'controls and renderer without semicolons',
+    raw: minimalScene({
+      renderer: `const renderer = new THREE.WebGLRenderer({ antialias: true })`,
+      controls: `const controls = new OrbitControls(camera, renderer.domElement)`,
+    }),
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'truncated before </body>',
+    raw: minimalScene({ closeBody: false }),
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'camera with a different name',
+    raw: minimalScene({
+      camera: `const cam = new THREE.PerspectiveCamera(45, window.innerWidth / window.innerHeight, 0.1, 1000);
+        cam.position.set(40, 30, 40);
+        const camera = cam;`,
+    }),
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'scene built by a factory function',
+    raw: minimalScene({
+      scene: `function createScene() { return new THREE.Scene(); }
+        const scene = createScene();`,
+    }),
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'setup object unpacked by destructuring',
+    raw: minimalScene({
+      scene: `const { scene, world } = { scene: new THREE.Scene(), world: new THREE.Group() };`,
+      camera: `const [camera] = [new THREE.PerspectiveCamera(45, window.innerWidth / window.innerHeight, 0.1, 1000)];
+        camera.position.set(40, 30, 40);`,
+    }),
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'objects kept on a class instance',
+    raw: minimalScene({
+      scene: `class World { constructor() { this.scene = new THREE.Scene(); } }
+        const { scene } = new World();`,
+      controls: `const app = {};
+        app.controls = new OrbitControls(camera, renderer.domElement);
+        const controls = app.controls;`,
+    }),
+    expected: ALL_APPLIED,
+    runnable: true,
+  },
+  {
+    name: 'output cut off mid-script',
+    raw: minimalScene().slice(0, minimalScene().indexOf('for (let i = 0;') + 20),
+    // Falls back to pattern matching, which can only report the scene
+    expected: { parsed: false, hooks: ['scene'] },
+    runnable: false,
+  },
+  {
+    name: 'syntax error in the script',
+    raw: minimalScene({ scene: `const scene = new THREE.Scene();
+        }` }),
+    expected: { parsed: false, hooks: ['scene'] },
+    runnable: false,
+  },
+];
+
+export const FIXTURES: SceneFixture[] = [...exampleFixtures, ...adversarialFixtures];
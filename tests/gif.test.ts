@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { createGifEncoder, encodeGif } from '../utils/gif';
+import type { CapturedImage } from '../types';
+
+interface DecodedGif {
+  width: number;
+  height: number;
+  palette: number[][];
+  loops: boolean;
+  frames: { delay: number; transparentIndex: number; indices: number[] }[];
+}
+
+// Minimal decoder for what encodeGif writes: global palette, full-size frames
+const decodeGif = (bytes: Uint8Array): DecodedGif => {
+  const text = (at: number, length: number) => String.fromCharCode(...bytes.slice(at, at + length));
+  const word = (at: number) => bytes[at] | (bytes[at + 1] << 8);
+  expect(text(0, 6)).toBe('GIF89a');
+
+  const gif: DecodedGif = { width: word(6), height: word(8), palette: [], loops: false, frames: [] };
+  const tableSize = 2 << (bytes[10] & 7);
+  for (let i = 0; i < tableSize; i++) gif.palette.push(Array.from(bytes.slice(13 + i * 3, 16 + i * 3)));
+
+  let p = 13 + tableSize * 3;
+  let control = { delay: 0, transparentIndex: -1 };
+  const readBlocks = () => {
+    const data: number[] = [];
+    while (bytes[p] !== 0) {
+      data.push(...bytes.slice(p + 1, p + 1 + bytes[p]));
+      p += bytes[p] + 1;
+    }
+    p++;
+    return data;
+  };
+
+  while (bytes[p] !== 0x3b) {
+    if (bytes[p] === 0x21) {
+      const label = bytes[p + 1];
+      p += 2;
+      const data = readBlocks();
+      if (label === 0xf9) control = { delay: data[1] | (data[2] << 8), transparentIndex: data[0] & 1 ? data[3] : -1 };
+      if (label === 0xff && String.fromCharCode(...data.slice(0, 11)) === 'NETSCAPE2.0') gif.loops = true;
+    } else {
+      expect(bytes[p]).toBe(0x2c);
+      const minCodeSize = bytes[p + 10];
+      p += 11;
+      const data = readBlocks();
+
+      // LZW decode
+      const clear = 1 << minCodeSize;
+      let codeSize = minCodeSize + 1;
+      let table: number[][] = [];
+      const reset = () => {
+        table = Array.from({ length: clear + 2 }, (_, i) => [i]);
+        codeSize = minCodeSize + 1;
+      };
+      const indices: number[] = [];
+      let previous: number[] | null = null;
+      let bit = 0;
+      reset();
+      while (true) {
+        let code = 0;
+        for (let i = 0; i < codeSize; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+        if (code === clear) { reset(); previous = null; continue; }
+        if (code === clear + 1) break;
+        const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+        indices.push(...entry);
+        if (previous && table.length < 4096) table.push([...previous, entry[0]]);
+        if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+        previous = entry;
+      }
+      gif.frames.push({ ...control, indices });
+    }
+  }
+  return gif;
+};
+
+const frame = (width: number, height: number, pixel: (x: number, y: number) => number[]): CapturedImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(pixel(x, y), (y * width + x) * 4);
+  }
+  return { width, height, data };
+};
+
+const colorsOf = (gif: DecodedGif, index: number) =>
+  gif.frames[index].indices.map(i => (i === gif.frames[index].transparentIndex ? null : gif.palette[i]));
+
+describe('GIF encoding', () => {
+  it('round-trips a few flat colours exactly', () => {
+    const colors = [[255, 0, 0], [0, 128, 255], [20, 200, 40]];
+    const frames = [0, 1].map(shift => frame(5, 3, (x, y) => [...colors[(x + y + shift) % 3], 255]));
+    const gif = decodeGif(encodeGif(frames, 80));
+
+    expect([gif.width, gif.height, gif.loops]).toEqual([5, 3, true]);
+    expect(gif.frames.map(f => f.delay)).toEqual([8, 8]);
+    expect(colorsOf(gif, 1)[0]).toEqual(colors[1]);
+    expect(colorsOf(gif, 0)).toEqual(Array.from({ length: 15 }, (_, p) => colors[(p % 5 + Math.floor(p / 5)) % 3]));
+  });
+
+  it('keeps transparency', () => {
+    const gif = decodeGif(encodeGif([frame(2, 1, x => (x === 0 ? [9, 9, 9, 0] : [250, 250, 250, 255]))], 100));
+    expect(gif.frames[0].transparentIndex).toBeGreaterThanOrEqual(0);
+    expect(colorsOf(gif, 0)).toEqual([null, [250, 250, 250]]);
+  });
+
+  it('survives code table resets on large, noisy frames', () => {
+    // Deterministic noise over 200 grey levels fills the 4096-entry table many times
+    let seed = 1;
+    const noise = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) % 200;
+    const image = frame(160, 120, () => { const v = noise(); return [v, v, v, 255]; });
+    const gif = decodeGif(encodeGif([image], 50));
+
+    const expected = Array.from({ length: 160 * 120 }, (_, p) => image.data[p * 4]);
+    const decoded = colorsOf(gif, 0).map(c => c![0]);
+    // 200 greys fit the palette, so the round trip is exact
+    expect(decoded).toEqual(expected);
+  });
+
+  it('encodes frames one at a time against a palette from samples', () => {
+    const red = frame(2, 1, () => [255, 0, 0, 255]);
+    const blue = frame(2, 1, () => [0, 0, 255, 255]);
+    const encoder = createGifEncoder(2, 1, 100, [red, blue]);
+    encoder.addFrame(blue);
+    // Not among the samples: the nearest palette colour is used
+    encoder.addFrame(frame(2, 1, () => [240, 10, 10, 255]));
+    const gif = decodeGif(encoder.finish());
+    expect(gif.frames).toHaveLength(2);
+    expect(colorsOf(gif, 0)).toEqual([[0, 0, 255], [0, 0, 255]]);
+    expect(colorsOf(gif, 1)).toEqual([[255, 0, 0], [255, 0, 0]]);
+  });
+
+  it('rejects frames of different sizes', () => {
+    expect(() => encodeGif([frame(1, 1, () => [0, 0, 0, 255]), frame(2, 1, () => [0, 0, 0, 255])], 100)).toThrow(/same size/);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { DOMWindow, JSDOM, VirtualConsole } from 'jsdom';
+import * as THREE from 'three';
+import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { BRIDGE_VERSION, BridgeMethod, BridgeMethods, isBridgeResult, parseSceneMessage, SceneMessage, SceneMessageOf } from '../utils/sceneMessages';
+import type { SectionState } from '../types';
+
+// window.__voxelCameraRig (see CAMERA_RIG_SCRIPT in utils/html.ts)
+interface CameraRig {
+  measure: () => { min: number[]; max: number[]; center: number[]; radius: number } | null;
+  meshes: () => THREE.Mesh<THREE.BufferGeometry, THREE.MeshStandardMaterial>[];
+  fit: (direction: number[] | null) => boolean;
+  setView: (view: string) => boolean;
+  setOrthographic: (on: boolean) => Promise<boolean>;
+  settled: boolean;
+}
+
+/**
+ * The page's window with what the scene and the injected scripts expose on it.
+ */
+export type SceneWindow = DOMWindow & {
+  scene?: THREE.Scene;
+  camera?: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+  controls?: OrbitControls;
+  renderer?: THREE.WebGLRenderer;
+  __voxelCameraRig?: CameraRig;
+  __voxelSection?: { apply: (state: Partial<SectionState>) => boolean };
+  __modules?: Record<string, object>;
+};
+
+export interface HeadlessRun {
+  window: SceneWindow;
+  // Everything the page posted, valid or not (see messagesOf)
+  messages: unknown[];
+  errors: string[];
+  close: () => void;
+}
+
+const IMPORT_REGEX = /import\s+([\s\S]*?)\s+from\s+['"]([^'"]+)['"]\s*;?/g;
+
+// Accepts any call and property write; only the canvas is real
+const createStubRenderer = (document: Document) =>
+  class StubRenderer {
+    domElement = document.createElement('canvas');
+    shadowMap = { enabled: false, type: 0 };
+    constructor() {
+      return new Proxy(this, {
+        get: (target, key) => (key in target ? Reflect.get(target, key) : () => undefined),
+      });
+    }
+  };
+
+/**
+ * Loads the addons a scene imports from the installed three package. `three`
+ * itself is added per page, with the WebGL renderer swapped for a stub since
+ * there is no GPU.
+ */
+const loadAddons = async (html: string): Promise<Record<string, object>> => {
+  const addons: Record<string, object> = {};
+  for (const [, , specifier] of html.matchAll(IMPORT_REGEX)) {
+    if (specifier === 'three' || addons[specifier]) continue;
+    if (!specifier.startsWith('three/addons/')) {
+      throw new Error(`Unsupported import in fixture: ${specifier}`);
+    }
+    addons[specifier] = await import(specifier.replace('three/addons/', 'three/examples/jsm/'));
+  }
+  return addons;
+};
+
+// `import * as A from 'x'` / `import { B, C as D } from 'x'` -> lookups in window.__modules
+const rewriteImports = (code: string): string =>
+  code.replace(IMPORT_REGEX, (match, clause: string, specifier: string) => {
+    const source = `window.__modules[${JSON.stringify(specifier)}]`;
+    const namespace = clause.match(/^\*\s+as\s+([\w$]+)$/);
+    if (namespace) return `const ${namespace[1]} = ${source};`;
+    const named = clause.replace(/[{}]/g, '').split(',').map(s => s.trim()).filter(Boolean)
+      .map(s => s.replace(/\s+as\s+/, ': '));
+    return `const { ${named.join(', ')} } = ${source};`;
+  });
+
+/**
+ * Runs a processed scene in jsdom. Module scripts are turned into classic
+ * scripts with their imports resolved from node_modules, so the page's own
+ * code and every injected script execute as they would in the iframe.
+ * Messages the page posts to its parent (itself, at the top level) are
+ * collected in `messages`.
+ */
+export const runSceneHeadless = async (html: string): Promise<HeadlessRun> => {
+  const errors: string[] = [];
+  const virtualConsole = new VirtualConsole();
+  virtualConsole.on('jsdomError', error => errors.push(error.message));
+
+  const classic = html.replace(/<script type="module">([\s\S]*?)<\/script>/g, (match, code: string) =>
+    `<script>${rewriteImports(code)}</script>`
+  );
+
+  // Modules must exist before the page's scripts run
+  const addons = await loadAddons(html);
+
+  const dom = new JSDOM(classic, {
+    runScripts: 'dangerously',
+    pretendToBeVisual: true,
+    virtualConsole,
+    beforeParse(window) {
+      (window as SceneWindow).__modules = { ...addons, three: { ...THREE, WebGLRenderer: createStubRenderer(window.document) } };
+    },
+  });
+
+  const messages: unknown[] = [];
+  dom.window.addEventListener('message', event => messages.push(event.data));
+
+  return { window: dom.window, messages, errors, close: () => dom.window.close() };
+};
+
+/**
+ * Collected messages of the given type that match its schema.
+ */
+export const messagesOf = <T extends SceneMessage['type']>(run: HeadlessRun, type: T): SceneMessageOf<T>[] =>
+  run.messages.map(parseSceneMessage).filter((m): m is SceneMessageOf<T> => m !== null && m.type === type);
+
+/**
+ * Resolves with the first collected message of the given type.
+ */
+export const waitForMessage = <T extends SceneMessage['type']>(run: HeadlessRun, type: T, timeoutMs: number): Promise<SceneMessageOf<T>> =>
+  new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      const [message] = messagesOf(run, type);
+      if (message) return resolve(message);
+      if (Date.now() - started > timeoutMs) return reject(new Error(`No "${type}" message within ${timeoutMs}ms`));
+      setTimeout(check, 50);
+    };
+    check();
+  });
+
+/**
+ * Sends a scene bridge request as the parent would and resolves with the
+ * scene's `bridge_response`, whether it succeeded or not.
+ */
+export const sendBridgeRequest = (run: HeadlessRun, method: string, params: object = {}, version: number = BRIDGE_VERSION): Promise<SceneMessageOf<'bridge_response'>> => {
+  const requestId = `test-${Math.random().toString(36).slice(2)}`;
+  const data = { type: 'bridge_request', version, requestId, method, params };
+  run.window.dispatchEvent(new run.window.MessageEvent('message', { data, source: run.window as unknown as Window }));
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      const message = messagesOf(run, 'bridge_response').find(m => m.requestId === requestId);
+      if (message) return resolve(message);
+      if (Date.now() - started > 5000) return reject(new Error(`No response to ${method}`));
+      setTimeout(check, 20);
+    };
+    check();
+  });
+};
+
+/**
+ * Calls a scene bridge method and resolves with its result, which must have
+ * the promised shape. Rejects with the scene's error message.
+ */
+export const callBridge = async <M extends BridgeMethod>(
+  run: HeadlessRun,
+  method: M,
+  params: BridgeMethods[M]['params'] | Record<string, never> = {},
+): Promise<BridgeMethods[M]['result']> => {
+  const response = await sendBridgeRequest(run, method, params);
+  if (response.ok === false) throw new Error(response.error);
+  if (!isBridgeResult(method, response.result)) throw new Error(`Malformed result from ${method}`);
+  return response.result;
+};
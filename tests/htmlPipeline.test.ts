@@ -0,0 +1,320 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { assert, describe, it, expect } from 'vitest';
+import { Object3D, OrthographicCamera, PerspectiveCamera } from 'three';
+import { extractHtmlFromText, injectCameraRig, injectErrorReporter, injectSceneBridge, injectSceneMonitor, injectSectionTool, processSceneHtml } from '../utils/html';
+import { describeSceneProblems } from '../services/scene';
+import { instrumentSceneHtml } from '../utils/instrument';
+import { FIXTURES } from './fixtures';
+import { callBridge, messagesOf, runSceneHeadless, SceneWindow, waitForMessage } from './headless';
+
+describe('extractHtmlFromText', () => {
+  it.each(FIXTURES.map(f => [f.name, f] as const))('extracts a document from %s', (name, fixture) => {
+    const html = extractHtmlFromText(fixture.raw);
+    expect(html).toMatch(/^(<!DOCTYPE html>|<html)/i);
+    expect(html).toContain('<script type="module">');
+  });
+});
+
+describe('instrumentSceneHtml', () => {
+  it.each(FIXTURES.map(f => [f.name, f] as const))('hooks the expected constructions in %s', (name, fixture) => {
+    const result = instrumentSceneHtml(extractHtmlFromText(fixture.raw));
+    if (!fixture.expected.parsed) {
+      expect(result).toBeNull();
+      return;
+    }
+    expect(result).not.toBeNull();
+    expect([...result!.found].sort()).toEqual([...fixture.expected.hooks].sort());
+  });
+
+  it('wraps nested constructions independently', () => {
+    const html = '<script type="module">const c = new OrbitControls(new THREE.PerspectiveCamera(), new THREE.WebGLRenderer().domElement);</script>';
+    expect(instrumentSceneHtml(html)!.html).toContain(
+      'window.__voxelHook("controls", new OrbitControls(window.__voxelHook("camera", new THREE.PerspectiveCamera()), window.__voxelHook("renderer", new THREE.WebGLRenderer()).domElement))'
+    );
+  });
+
+  it('leaves import maps and external scripts alone', () => {
+    const html = '<script type="importmap">{ "imports": {} }</script><script src="x.js"></script><script>const s = new THREE.Scene();</script>';
+    const result = instrumentSceneHtml(html)!;
+    expect(result.html).toContain('<script type="importmap">{ "imports": {} }</script><script src="x.js"></script>');
+    expect(result.found).toEqual(['scene']);
+  });
+});
+
+describe('processSceneHtml', () => {
+  it('always hides overlay text and adds the hook runtime, monitor and slider', () => {
+    FIXTURES.forEach(fixture => {
+      const processed = processSceneHtml(extractHtmlFromText(fixture.raw));
+      expect(processed).toContain('#info, #loading');
+      expect(processed).toContain("type: 'scene_instrumentation'");
+      expect(processed).toContain("type: 'voxel_stats'");
+      expect(processed).toContain('id="layer-slider"');
+    });
+  });
+
+  it('adds the section tool once and hides the in-frame slider in the app', () => {
+    const processed = processSceneHtml(extractHtmlFromText(FIXTURES.find(f => f.name === 'baseline')!.raw));
+    const hosted = injectSectionTool(processed);
+    expect(hosted.split('window.__voxelSection = ').length).toBe(2);
+    expect(hosted).toContain('#layer-control-container { display: none !important; }');
+    expect(injectSectionTool('<body></body>')).toContain('window.__voxelSection = ');
+  });
+});
+
+describe('pattern-matching fallback', () => {
+  it('does not touch member assignments of other objects', () => {
+    const processed = injectSceneMonitor('<script type="module">world.scene = new THREE.Scene();</script>');
+    expect(processed).not.toMatch(/window\.scene = scene/);
+  });
+});
+
+// Resolves once the camera rig has framed the scene
+const waitForCameraFit = async (win: SceneWindow) => {
+  for (let i = 0; i < 50 && !(win.controls && win.controls.minDistance > 0 && win.__voxelCameraRig); i++) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+};
+
+// Each run mostly waits on the in-page timers, so they can overlap
+describe.concurrent('headless scene run', () => {
+  const runnable = FIXTURES.filter(f => f.runnable);
+
+  it.each(runnable.map(f => [f.name, f] as const))('reports its hooks and its stats over the bridge for %s', async (name, fixture) => {
+    const run = await runSceneHeadless(injectSceneBridge(processSceneHtml(extractHtmlFromText(fixture.raw))));
+    try {
+      const { report } = await waitForMessage(run, 'scene_instrumentation', 5000);
+      expect(report.parsed).toBe(fixture.expected.parsed);
+      fixture.expected.hooks.forEach(kind => expect(report.hooks[kind]).toBe(true));
+
+      await waitForMessage(run, 'bridge_ready', 8000);
+      const message = await callBridge(run, 'getStats');
+      const win = run.window;
+
+      expect(win.scene!.isScene).toBe(true);
+      expect(win.renderer!.localClippingEnabled).toBe(true);
+      expect(win.controls!.enableDamping).toBe(true);
+      expect(message.total).toBeGreaterThan(0);
+      expect(message.stats.length).toBeGreaterThan(0);
+      message.stats.forEach(stat => {
+        expect(stat.color).toMatch(/^#[0-9a-f]{6}$/);
+        expect(stat.count).toBeGreaterThan(0);
+      });
+      expect(run.errors).toEqual([]);
+    } finally {
+      run.close();
+    }
+  }, 15000);
+
+  it.each(['baseline', 'camera positioned with variables', 'camera with a different name'])('frames the model from the authored angle for %s', async (name) => {
+    const run = await runSceneHeadless(processSceneHtml(extractHtmlFromText(FIXTURES.find(f => f.name === name)!.raw)));
+    try {
+      const win = run.window;
+      await waitForCameraFit(win);
+      // 12 unit cubes spanning x -0.5..3.5, y -0.5..2.5, z -0.5..0.5
+      const { center, radius } = win.__voxelCameraRig!.measure()!;
+      expect(center).toEqual([1.5, 1, 0]);
+      expect(radius).toBeCloseTo(Math.sqrt(26) / 2, 5);
+
+      const { position } = win.camera!;
+      const offset = [position.x - 1.5, position.y - 1, position.z];
+      const distance = Math.hypot(...offset);
+      // The authored camera sat at (4, 3, 4) × d, looking at the origin
+      offset.forEach((v, i) => expect(v / distance).toBeCloseTo([4, 3, 4][i] / Math.sqrt(41), 5));
+      expect(distance).toBeGreaterThan(radius * 2);
+      expect(distance).toBeLessThan(radius * 6);
+      expect(win.controls!.target.toArray()).toEqual([1.5, 1, 0]);
+      expect(win.controls!.minDistance).toBeCloseTo(radius / 2, 5);
+      expect(run.errors).toEqual([]);
+    } finally {
+      run.close();
+    }
+  }, 15000);
+
+  it('switches views and projection on request', async () => {
+    const run = await runSceneHeadless(injectCameraRig(processSceneHtml(extractHtmlFromText(FIXTURES.find(f => f.name === 'baseline')!.raw))));
+    try {
+      const win = run.window;
+      await waitForCameraFit(win);
+      const rig = win.__voxelCameraRig!;
+      const controls = win.controls!;
+
+      expect(rig.setView('top')).toBe(true);
+      const perspective = win.camera!;
+      expect(perspective.position.x).toBeCloseTo(1.5, 5);
+      expect(perspective.position.y).toBeGreaterThan(5);
+
+      const distance = perspective.position.distanceTo(controls.target);
+      expect(await rig.setOrthographic(true)).toBe(true);
+      const orthographic = win.camera;
+      assert(orthographic instanceof OrthographicCamera);
+      expect(controls.object).toBe(orthographic);
+      expect(perspective).toBeInstanceOf(PerspectiveCamera);
+
+      // Framing while orthographic sizes the frustum to the model
+      expect(rig.setView('front')).toBe(true);
+      expect(orthographic.top / orthographic.zoom).toBeCloseTo(rig.measure()!.radius * 1.15, 5);
+      expect(rig.setView('top')).toBe(true);
+
+      orthographic.zoom = 2;
+      expect(await rig.setOrthographic(false)).toBe(true);
+      expect(win.camera).toBe(perspective);
+      expect(controls.object).toBe(perspective);
+      // Zooming in while orthographic carries over as a closer camera
+      expect(perspective.position.distanceTo(controls.target)).toBeCloseTo(distance / 2, 5);
+      expect(run.errors).toEqual([]);
+    } finally {
+      run.close();
+    }
+  }, 15000);
+
+  it('sets up the layer slider from the voxel layers', async () => {
+    const run = await runSceneHeadless(processSceneHtml(extractHtmlFromText(FIXTURES.find(f => f.name === 'baseline')!.raw)));
+    try {
+      const { info } = await waitForMessage(run, 'section_info', 8000);
+      expect(info).toEqual({ unit: 1, layers: [4, 3, 1] });
+      const document = run.window.document;
+      const slider = document.getElementById('layer-slider') as HTMLInputElement;
+      expect(slider.max).toBe('3');
+      expect(document.querySelector('.layer-tooltip')!.textContent).toBe('Layer 3 of 3');
+
+      slider.value = '1';
+      slider.dispatchEvent(new run.window.Event('input'));
+      expect(document.querySelector('.layer-tooltip')!.textContent).toBe('Layer 1 of 3');
+      const cubes = run.window.__voxelCameraRig!.meshes();
+      // Only the bottom row of the 4×3 wall is left
+      const shown = cubes.filter(cube => cube.material.clippingPlanes![0].distanceToPoint(cube.position) >= 0);
+      expect(shown.map(cube => cube.position.y)).toEqual([0, 0, 0, 0]);
+      expect(run.errors).toEqual([]);
+    } finally {
+      run.close();
+    }
+  }, 15000);
+
+  it('reports scenes whose voxels cannot be measured', async () => {
+    // One merged block instead of 12 unit cubes
+    const merged = extractHtmlFromText(FIXTURES.find(f => f.name === 'baseline')!.raw)
+      .replace('new THREE.BoxGeometry(1, 1, 1)', 'new THREE.BoxGeometry(4, 3, 1)')
+      .replace('i < 12', 'i < 1');
+    const run = await runSceneHeadless(processSceneHtml(merged));
+    try {
+      const { reason } = await waitForMessage(run, 'section_failed', 8000);
+      expect(reason).toContain('merged');
+      expect(messagesOf(run, 'section_info')).toEqual([]);
+    } finally {
+      run.close();
+    }
+  }, 15000);
+
+  it('cuts along any axis, as a box cutaway and with caps', async () => {
+    const run = await runSceneHeadless(processSceneHtml(extractHtmlFromText(FIXTURES.find(f => f.name === 'baseline')!.raw)));
+    try {
+      await waitForMessage(run, 'section_info', 8000);
+      const win = run.window;
+      const scene = win.scene!;
+      const section = win.__voxelSection!;
+      const cubes = win.__voxelCameraRig!.meshes();
+      const isHelper = (child: Object3D) => !!child.userData.voxelHelper;
+      const shownX = () => cubes
+        .filter(cube => {
+          const { clippingPlanes, clipIntersection } = cube.material;
+          const inside = clippingPlanes!.map(plane => plane.distanceToPoint(cube.position) >= 0);
+          return clipIntersection ? inside.some(Boolean) : inside.every(Boolean);
+        })
+        .map(cube => `${cube.position.x},${cube.position.y}`)
+        .sort();
+
+      // Inverted: layers 3 and 4 of x
+      expect(section.apply({ mode: 'plane', axis: 'x', layer: 3, invert: true })).toBe(true);
+      expect(shownX()).toEqual(['2,0', '2,1', '2,2', '3,0', '3,1', '3,2']);
+
+      // Box: the corner above x layer 2 and y layer 1 is cut away
+      section.apply({ mode: 'box', box: [2, 1, 0], invert: false });
+      expect(shownX()).toEqual(['0,0', '0,1', '0,2', '1,0', '1,1', '1,2', '2,0', '3,0']);
+      section.apply({ invert: true });
+      expect(shownX()).toEqual(['2,1', '2,2', '3,1', '3,2']);
+
+      // Caps add stencil helpers that the tools and the stats leave out
+      section.apply({ mode: 'plane', axis: 'y', layer: 2, invert: false, caps: true });
+      const helpers = scene.children.find(isHelper)!;
+      expect(helpers.children).toHaveLength(cubes.length * 2 + 1);
+      expect(win.__voxelCameraRig!.meshes()).toHaveLength(cubes.length);
+      const cap = helpers.children[helpers.children.length - 1];
+      expect(cap.position.y).toBeCloseTo(1.49, 5);
+
+      // Meshes added after the cut are clipped and capped as well
+      const added = cubes[0].clone();
+      added.material = cubes[0].material.clone();
+      added.material.clippingPlanes = null;
+      scene.add(added);
+      section.apply({ layer: 1 });
+      expect(added.material.clippingPlanes).toBe(cubes[0].material.clippingPlanes);
+      const rebuilt = scene.children.find(isHelper)!;
+      expect(rebuilt.children).toHaveLength((cubes.length + 1) * 2 + 1);
+      scene.remove(added);
+
+      section.apply({ mode: 'off' });
+      expect(scene.children.some(isHelper)).toBe(false);
+      expect(cubes.every(cube => cube.material.clippingPlanes === null)).toBe(true);
+      expect(run.errors).toEqual([]);
+    } finally {
+      run.close();
+    }
+  }, 15000);
+});
+
+describe.concurrent('error reporting', () => {
+  const baseline = FIXTURES.find(f => f.name === 'baseline')!.raw;
+  const run = (html: string) => runSceneHeadless(injectErrorReporter(processSceneHtml(html), 500));
+
+  it('reports a healthy scene without problems', async () => {
+    const page = await run(baseline);
+    try {
+      const { health } = await waitForMessage(page, 'scene_health', 5000);
+      expect(health.sceneFound).toBe(true);
+      expect(health.meshCount).toBeGreaterThan(0);
+      expect(describeSceneProblems(health)).toEqual([]);
+    } finally {
+      page.close();
+    }
+  }, 15000);
+
+  it('reports uncaught errors and console errors', async () => {
+    const broken = baseline
+      .replace('scene.add(new THREE.HemisphereLight', 'console.error("shader failed", { code: 1 });\n        scene.add(new THREE.HemisphereLight')
+      .replace('const geometry = new THREE.BoxGeometry(1, 1, 1);', 'const geometry = new THREE.BoxGeometry(1, 1, 1); undefinedHelper();');
+    const page = await run(broken);
+    try {
+      const { health } = await waitForMessage(page, 'scene_health', 5000);
+      const kinds = health.errors.map(e => e.kind);
+      expect(kinds).toContain('console');
+      expect(kinds).toContain('uncaught');
+      expect(messagesOf(page, 'scene_error')).toHaveLength(health.errors.length);
+
+      const problems = describeSceneProblems(health);
+      expect(problems.some(p => p.includes('undefinedHelper'))).toBe(true);
+      expect(problems.some(p => p.includes('shader failed {"code":1}'))).toBe(true);
+      // The error stopped the script before any voxel was added
+      expect(problems).toContain('The scene contains no meshes after 0.5s.');
+    } finally {
+      page.close();
+    }
+  }, 15000);
+
+  it('reports an empty scene', async () => {
+    const empty = baseline.replace('for (let i = 0; i < 12; i++)', 'for (let i = 0; i < 0; i++)');
+    const page = await run(empty);
+    try {
+      const { health } = await waitForMessage(page, 'scene_health', 5000);
+      expect(health.errors).toEqual([]);
+      expect(health.meshCount).toBe(0);
+      expect(describeSceneProblems(health)).toHaveLength(1);
+    } finally {
+      page.close();
+    }
+  }, 15000);
+});
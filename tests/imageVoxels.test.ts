@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_LOCAL_OPTIONS, downsampleImage, imageToVoxelModel, kMeans, medianCut, PixelImage } from '../utils/imageVoxels';
+import { computeVoxelStats } from '../utils/voxels';
+
+type Paint = (x: number, y: number) => [number, number, number, number];
+
+const makeImage = (width: number, height: number, paint: Paint): PixelImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(paint(x, y), (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+// 16x16 white backdrop with a red square (4..11) whose top half is dark red
+const badge = makeImage(16, 16, (x, y) => {
+  if (x < 4 || x > 11 || y < 4 || y > 11) return [255, 255, 255, 255];
+  return y < 8 ? [120, 0, 0, 255] : [240, 40, 40, 255];
+});
+
+const options = { ...DEFAULT_LOCAL_OPTIONS, resolution: 16, colors: 4, depth: 5 };
+
+describe('downsampleImage', () => {
+  it('averages the pixels each target pixel covers', () => {
+    const checker = makeImage(4, 4, (x, y) => (x + y) % 2 ? [0, 0, 0, 255] : [200, 100, 50, 255]);
+    const { width, height, colors, alpha } = downsampleImage(checker, 2);
+    expect([width, height]).toEqual([2, 2]);
+    colors.forEach(c => expect(c).toEqual([100, 50, 25]));
+    alpha.forEach(a => expect(a).toBe(255));
+  });
+});
+
+describe('palette quantization', () => {
+  const colors: [number, number, number][] = [
+    [250, 0, 0], [240, 10, 0], [0, 0, 250], [10, 0, 240], [0, 250, 0], [5, 245, 5],
+  ];
+
+  it('median cut separates distinct clusters', () => {
+    const palette = medianCut(colors.slice(0, 4), 2).map(c => c.map(Math.round));
+    expect(palette).toHaveLength(2);
+    expect(palette).toEqual(expect.arrayContaining([[245, 5, 0], [5, 0, 245]]));
+    expect(medianCut(colors, 16)).toHaveLength(colors.length);
+  });
+
+  it('k-means moves rough centres onto the clusters', () => {
+    const palette = kMeans(colors, [[200, 60, 0], [60, 60, 200], [100, 160, 100]]).map(c => c.map(Math.round));
+    expect(palette).toEqual(expect.arrayContaining([[245, 5, 0], [5, 0, 245], [3, 248, 3]]));
+  });
+});
+
+describe('imageToVoxelModel', () => {
+  it('removes the plain background and crops to the subject', () => {
+    const model = imageToVoxelModel(badge, options);
+    expect(model.size).toEqual([8, 8, 5]);
+    expect(model.palette).toEqual(expect.arrayContaining(['#780000', '#f02828']));
+    expect(model.palette).not.toContain('#ffffff');
+  });
+
+  it('keeps the image upright and raises bright parts', () => {
+    const model = imageToVoxelModel(badge, options);
+    const depthAt = (x: number, y: number) => model.voxels.filter(v => v.x === x && v.y === y).length;
+    // Image top (dark red) is the highest layer and the shallower one
+    expect(model.palette[model.voxels.find(v => v.y === 7)!.color]).toBe('#780000');
+    expect(depthAt(0, 7)).toBeLessThan(depthAt(0, 0));
+    expect(depthAt(0, 0)).toBeLessThanOrEqual(5);
+
+    const flat = imageToVoxelModel(badge, { ...options, relief: 'flat' });
+    expect(flat.voxels).toHaveLength(8 * 8 * 5);
+  });
+
+  it('maps colours onto a fixed palette', () => {
+    const model = imageToVoxelModel(badge, options, ['#000000', '#ff0000', '#0000ff']);
+    // Dark red is closest to black; equally used colours keep the palette's order
+    expect(model.palette).toEqual(['#000000', '#ff0000']);
+  });
+
+  it('treats transparent pixels as background', () => {
+    const sprite = makeImage(8, 8, (x, y) => x === 3 && y === 5 ? [0, 128, 255, 255] : [0, 0, 0, 0]);
+    const model = imageToVoxelModel(sprite, { ...options, removeBackground: false, relief: 'flat', depth: 2 });
+    expect(model.size).toEqual([1, 1, 2]);
+    expect(computeVoxelStats(model)).toEqual([{ color: '#0080ff', count: 2 }]);
+  });
+
+  it('is deterministic', () => {
+    const photo = makeImage(40, 30, (x, y) => [(x * 37 + y * 11) % 256, (x * y) % 256, (y * 53) % 256, 255]);
+    const settings = { ...DEFAULT_LOCAL_OPTIONS, removeBackground: false };
+    expect(imageToVoxelModel(photo, settings)).toEqual(imageToVoxelModel(photo, settings));
+    expect(imageToVoxelModel(photo, settings).palette.length).toBeLessThanOrEqual(settings.colors);
+  });
+
+  it('fails when nothing is left', () => {
+    const blank = makeImage(4, 4, () => [255, 255, 255, 255]);
+    expect(() => imageToVoxelModel(blank, options)).toThrow('Nothing left');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { findOffPaletteColors, getSnapRemaps, parseHexList, remapGridPalette, remapStats, snapGridToPalette } from '../utils/palette';
+import { injectSceneBridge, processSceneHtml, readPaletteRemap, stripPaletteRemap, writePaletteRemap } from '../utils/html';
+import { renderVoxelSceneHtml } from '../utils/voxelScene';
+import { decodeVoxelGrid, encodeVoxelGrid } from '../utils/voxelGrid';
+import { encodeVox } from '../utils/vox';
+import { callBridge, runSceneHeadless, waitForMessage } from './headless';
+import type { VoxelModel } from '../types';
+
+const stats = [
+  { color: '#ff0000', count: 10 },
+  { color: '#00ff00', count: 5 },
+  { color: '#fe0101', count: 2 },
+  { color: '#123456', count: 1 },
+];
+
+describe('palette helpers', () => {
+  it('parses hex lists in any common notation', () => {
+    expect(parseHexList('#FF0000, 0f0\n#00f  #ff0000; nope')).toEqual({
+      colors: ['#ff0000', '#00ff00', '#0000ff'],
+      invalid: ['nope'],
+    });
+  });
+
+  it('flags colours outside the palette, tolerating rounding', () => {
+    expect(findOffPaletteColors(stats, ['#ff0000', '#00ff00']).map(s => s.color)).toEqual(['#123456']);
+    expect(getSnapRemaps(stats, ['#ff0000', '#0000ff'])).toEqual([
+      { from: '#00ff00', to: '#ff0000' },
+      { from: '#123456', to: '#0000ff' },
+    ]);
+  });
+
+  it('merges counts when remapping onto a used colour', () => {
+    expect(remapStats(stats, { from: '#00ff00', to: '#123456' })).toEqual([
+      { color: '#ff0000', count: 10 },
+      { color: '#123456', count: 6 },
+      { color: '#fe0101', count: 2 },
+    ]);
+  });
+
+  it('snaps grids to the nearest allowed colour', () => {
+    const grid = { width: 1, height: 1, depth: 2, palette: ['#fa0505', '#0505fa'], rle: [1, 1, 1, 2] };
+    expect(snapGridToPalette(grid, ['#ff0000', '#0000ff']).palette).toEqual(['#ff0000', '#0000ff']);
+  });
+});
+
+describe('stored colour remaps', () => {
+  const model: VoxelModel = {
+    size: [3, 1, 1],
+    palette: ['#ff0000', '#7e2553', '#29adff'],
+    voxels: [{ x: 0, y: 0, z: 0, color: 0 }, { x: 1, y: 0, z: 0, color: 0 }, { x: 2, y: 0, z: 0, color: 1 }],
+  };
+  const scene = processSceneHtml(renderVoxelSceneHtml(model));
+
+  it('round-trips through the scene HTML', () => {
+    const remaps = [{ from: '#ff0000', to: '#29adff' }];
+    const stored = writePaletteRemap(scene, remaps);
+    expect(readPaletteRemap(stored)).toEqual(remaps);
+    expect(readPaletteRemap(writePaletteRemap(stored, [...remaps, { from: '#29adff', to: '#000000' }]))).toHaveLength(2);
+    expect(stripPaletteRemap(stored)).toBe(scene);
+    expect(writePaletteRemap(stored, [])).toBe(scene);
+  });
+
+  it('is applied to the grid of an exported grid scene', () => {
+    const stored = writePaletteRemap(scene, [{ from: '#ff0000', to: '#29adff' }, { from: '#7e2553', to: '#000000' }]);
+    const exported = decodeVoxelGrid(remapGridPalette(encodeVoxelGrid(model), readPaletteRemap(stored)));
+    expect(exported.palette).toEqual(['#29adff', '#000000', '#29adff']);
+    expect(exported.voxels).toEqual(model.voxels);
+
+    // The .vox palette carries the remapped colours only
+    const vox = encodeVox(exported);
+    const rgba = vox.slice(vox.length - 1024);
+    expect(Array.from(rgba.slice(0, 8))).toEqual([0x29, 0xad, 0xff, 255, 0, 0, 0, 255]);
+  });
+
+  it('is applied when the scene loads and shows in its stats', async () => {
+    const run = await runSceneHeadless(injectSceneBridge(writePaletteRemap(scene, [{ from: '#ff0000', to: '#29adff' }])));
+    try {
+      await waitForMessage(run, 'bridge_ready', 8000);
+      const { stats } = await callBridge(run, 'getStats');
+      expect(stats).toEqual([{ color: '#29adff', count: 2 }, { color: '#7e2553', count: 1 }]);
+      expect(run.errors).toEqual([]);
+    } finally {
+      run.close();
+    }
+  }, 15000);
+});
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect, vi } from 'vitest';
+import { getRetryDelay, isRateLimitError, runQueue, withRetry } from '../utils/queue';
+
+const rateLimited = () => Object.assign(new Error('got status: 429 RESOURCE_EXHAUSTED'), { status: 429 });
+
+describe('isRateLimitError', () => {
+  it('recognises rate limits and overloads', () => {
+    expect(isRateLimitError(rateLimited())).toBe(true);
+    expect(isRateLimitError(new Error('{"error":{"code":503,"status":"UNAVAILABLE","message":"The model is overloaded."}}'))).toBe(true);
+    expect(isRateLimitError(new Error('Quota exceeded for metric'))).toBe(true);
+  });
+
+  it('does not retry other failures', () => {
+    expect(isRateLimitError(new Error('The model did not return valid JSON for the voxel grid.'))).toBe(false);
+    expect(isRateLimitError(Object.assign(new Error('Bad request'), { status: 400 }))).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('grows exponentially up to the cap', () => {
+    for (let retry = 1; retry <= 8; retry++) {
+      const delay = getRetryDelay(retry, new Error('429'), 1000, 30000);
+      const exponential = Math.min(30000, 1000 * 2 ** (retry - 1));
+      expect(delay).toBeGreaterThanOrEqual(exponential / 2);
+      expect(delay).toBeLessThanOrEqual(exponential);
+    }
+  });
+
+  it('honours the delay the API asks for', () => {
+    expect(getRetryDelay(1, new Error('Rate limited. Please retry in 12.5s.'), 1000, 30000)).toBe(12500);
+    expect(getRetryDelay(1, new Error('Please retry in 90s.'), 1000, 30000)).toBe(30000);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries rate limits with backoff and then succeeds', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(rateLimited())
+      .mockRejectedValueOnce(rateLimited())
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+    await expect(withRetry(task, { retries: 3, baseDelayMs: 1, maxDelayMs: 5, onRetry })).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(call => call[0])).toEqual([1, 2]);
+  });
+
+  it('gives up after the last retry', async () => {
+    const task = vi.fn().mockRejectedValue(rateLimited());
+    await expect(withRetry(task, { retries: 2, baseDelayMs: 1, maxDelayMs: 5 })).rejects.toThrow('429');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws other errors right away', async () => {
+    const task = vi.fn().mockRejectedValue(new Error('Invalid prompt'));
+    await expect(withRetry(task, { retries: 5, baseDelayMs: 1, maxDelayMs: 5 })).rejects.toThrow('Invalid prompt');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when aborted', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(rateLimited());
+    const run = withRetry(task, { retries: 5, baseDelayMs: 10000, maxDelayMs: 10000, signal: controller.signal });
+    setTimeout(() => controller.abort(new Error('Stopped')), 10);
+    await expect(run).rejects.toThrow('Stopped');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('runQueue', () => {
+  const tick = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('keeps at most `concurrency` workers busy and runs every item', async () => {
+    let active = 0;
+    let peak = 0;
+    const done: number[] = [];
+    await runQueue([1, 2, 3, 4, 5, 6, 7], () => 3, async item => {
+      active++;
+      peak = Math.max(peak, active);
+      await tick(5);
+      active--;
+      done.push(item);
+    });
+    expect(peak).toBe(3);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('keeps going when a worker fails', async () => {
+    const done: number[] = [];
+    await runQueue([1, 2, 3], () => 1, async item => {
+      if (item === 2) throw new Error('boom');
+      done.push(item);
+    });
+    expect(done).toEqual([1, 3]);
+  });
+
+  it('starts nothing new once aborted', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    await runQueue([1, 2, 3, 4], () => 2, async item => {
+      started.push(item);
+      await tick(5);
+      controller.abort();
+    }, controller.signal);
+    expect(started).toEqual([1, 2]);
+  });
+});
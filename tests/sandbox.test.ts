@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { extractHtmlFromText, processSceneHtml } from '../utils/html';
+import { buildScenePolicy, getThreeOrigins, injectSandboxPolicy } from '../utils/sandbox';
+import { isBridgeResult, readSceneMessage } from '../utils/sceneMessages';
+import { FIXTURES } from './fixtures';
+
+const APP_ORIGIN = 'https://app.example';
+
+describe('injectSandboxPolicy', () => {
+  it('only allows the import map CDN that serves three', () => {
+    const html = `<html><head><script type="importmap">{ "imports": {
+      "three": "https://unpkg.com/three@0.160.0/build/three.module.js",
+      "three/addons/": "https://unpkg.com/three@0.160.0/examples/jsm/",
+      "gsap": "https://cdn.jsdelivr.net/npm/gsap/index.js"
+    } }</script></head><body></body></html>`;
+    expect(getThreeOrigins(html, APP_ORIGIN)).toEqual(['https://unpkg.com']);
+  });
+
+  it('resolves a locally bundled copy against the app', () => {
+    const html = '<script type="importmap">{ "imports": { "three": "/vendor/three.module.js" } }</script>';
+    expect(getThreeOrigins(html, APP_ORIGIN)).toEqual([APP_ORIGIN]);
+  });
+
+  it('allows no network access without an import map', () => {
+    const policy = buildScenePolicy([]);
+    expect(policy).toContain("default-src 'none'");
+    expect(policy).toContain("script-src 'unsafe-inline';");
+    expect(policy).toContain("connect-src 'none'");
+  });
+
+  it('puts the policy and parent origin at the top of <head>', () => {
+    FIXTURES.filter(f => f.expected.parsed).forEach(fixture => {
+      const html = injectSandboxPolicy(processSceneHtml(extractHtmlFromText(fixture.raw)), APP_ORIGIN);
+      const head = html.search(/<head\b[^>]*>/i);
+      const meta = html.indexOf('<meta http-equiv="Content-Security-Policy"');
+      expect(meta).toBeGreaterThan(head);
+      expect(meta).toBeLessThan(html.search(/<script\b/i));
+      // The vendored copy, plus the pinned CDN for addons that are not vendored
+      expect(html).toContain(`script-src 'unsafe-inline' ${APP_ORIGIN} https://unpkg.com;`);
+      expect(html).toContain(`window.__voxelParentOrigin = "${APP_ORIGIN}";`);
+    });
+  });
+
+  it('makes the injected scripts post to the parent origin', () => {
+    const html = processSceneHtml(extractHtmlFromText(FIXTURES[0].raw));
+    expect(html).not.toMatch(/postMessage\([^;]*, '\*'\)/);
+    expect(html).toContain("(window.__voxelParentOrigin || '*')");
+  });
+});
+
+describe('readSceneMessage', () => {
+  const frame = {} as Window;
+  const event = (data: unknown, overrides: Partial<MessageEvent> = {}) =>
+    ({ data, source: frame, origin: 'null', ...overrides }) as MessageEvent;
+
+  it('accepts well-formed messages from the scene frame', () => {
+    const message = { type: 'voxel_stats', stats: [{ color: '#a1b2c3', count: 4 }], total: 4 };
+    expect(readSceneMessage(event(message), frame)).toEqual(message);
+    expect(readSceneMessage(event({ type: 'camera_state', position: [1, 2, 3], target: [0, 0, 0] }), frame)).not.toBeNull();
+    expect(readSceneMessage(event({ type: 'bridge_ready', version: 1, methods: ['getStats'] }), frame)).not.toBeNull();
+    expect(readSceneMessage(event({ type: 'bridge_failed', version: 1, reason: 'The scene has no meshes after 60s.' }), frame)).not.toBeNull();
+    const image = { width: 2, height: 1, data: new Uint8ClampedArray(8) };
+    expect(readSceneMessage(event({ type: 'bridge_response', version: 1, requestId: 'a', ok: true, result: image }), frame)).not.toBeNull();
+    expect(readSceneMessage(event({ type: 'bridge_response', version: 1, requestId: 'a', ok: false, error: 'No renderer' }), frame)).not.toBeNull();
+    expect(readSceneMessage(event({ type: 'bridge_event', version: 1, event: 'click', x: 0.5, y: -0.5 }), frame)).not.toBeNull();
+    expect(readSceneMessage(event({ type: 'section_info', info: { unit: 1, layers: [4, 3, 1] } }), frame)).not.toBeNull();
+    expect(readSceneMessage(event({ type: 'section_failed', reason: 'The scene has no voxels to measure.' }), frame)).not.toBeNull();
+  });
+
+  it('rejects messages from other windows or origins', () => {
+    const message = { type: 'voxel_editor_ready' };
+    expect(readSceneMessage(event(message, { source: {} as Window }), frame)).toBeNull();
+    expect(readSceneMessage(event(message, { origin: APP_ORIGIN }), frame)).toBeNull();
+    expect(readSceneMessage(event(message), null)).toBeNull();
+  });
+
+  it('rejects unknown types and malformed payloads', () => {
+    [
+      { type: 'navigate', url: 'https://evil.example' },
+      { type: 'voxel_stats', stats: [{ color: 'red', count: 4 }], total: 4 },
+      { type: 'voxel_stats', stats: 'everything', total: 4 },
+      { type: 'camera_state', position: [1, 2], target: [0, 0, 0] },
+      { type: 'voxel_pick', cell: [0, 0, 0], normal: [0, 1, 0], hit: 'sky' },
+      { type: 'scene_error', error: { kind: 'uncaught' } },
+      { type: 'bridge_ready', methods: ['getStats'] },
+      { type: 'bridge_failed', version: 1 },
+      { type: 'bridge_response', version: 1, requestId: 'a', ok: true },
+      { type: 'bridge_response', version: 1, requestId: 'a', ok: false },
+      { type: 'bridge_event', version: 1, event: 'keydown', x: 0, y: 0 },
+      { type: 'section_info', info: { unit: 0, layers: [4, 3, 1] } },
+      { type: 'section_failed', reason: 42 },
+      { type: 'section_info', info: { unit: 1, layers: [4, 1.5, 1] } },
+      { type: 'toString' },
+      'voxel_stats',
+      null,
+    ].forEach(data => expect(readSceneMessage(event(data), frame)).toBeNull());
+  });
+});
+
+describe('isBridgeResult', () => {
+  it('checks results against the method they answer', () => {
+    expect(isBridgeResult('screenshot', { width: 2, height: 1, data: new Uint8ClampedArray(8) })).toBe(true);
+    expect(isBridgeResult('screenshot', { width: 2, height: 2, data: new Uint8ClampedArray(8) })).toBe(false);
+    expect(isBridgeResult('pickVoxel', null)).toBe(true);
+    expect(isBridgeResult('pickVoxel', { point: [0, 0, 0], normal: [0, 1, 0], center: [0, 0, 0], size: [1, 1, 1], color: 'red' })).toBe(false);
+    expect(isBridgeResult('setLighting', { intensity: 1, ambient: 0, background: null })).toBe(true);
+    expect(isBridgeResult('setWireframe', { enabled: 'yes' })).toBe(false);
+    expect(isBridgeResult('toString' as any, {})).toBe(false);
+  });
+});
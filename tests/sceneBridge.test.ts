@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { assert, describe, it, expect } from 'vitest';
+import { Color, HemisphereLight } from 'three';
+import { extractHtmlFromText, injectSceneBridge, processSceneHtml } from '../utils/html';
+import { BRIDGE_VERSION } from '../utils/sceneMessages';
+import { FIXTURES } from './fixtures';
+import { callBridge, messagesOf, runSceneHeadless, sendBridgeRequest, waitForMessage } from './headless';
+
+// 12 unit cubes in a 4×3 wall at x 0..3, y 0..2, z 0, coloured blue, red, green in turn
+const baseline = extractHtmlFromText(FIXTURES.find(f => f.name === 'baseline')!.raw);
+
+const openScene = async () => {
+  const run = await runSceneHeadless(injectSceneBridge(processSceneHtml(baseline)));
+  const ready = await waitForMessage(run, 'bridge_ready', 8000);
+  return { run, ready, win: run.window };
+};
+
+describe.concurrent('scene bridge', () => {
+  it('announces its version and methods once the scene holds still', async () => {
+    const { run, ready } = await openScene();
+    try {
+      expect(ready.version).toBe(BRIDGE_VERSION);
+      expect(ready.methods).toEqual(['getStats', 'getCamera', 'setCamera', 'setWireframe', 'setLighting', 'screenshot', 'pickVoxel']);
+      // callBridge also checks the result against its schema
+      expect((await callBridge(run, 'getStats')).total).toBe(12);
+      expect(run.errors).toEqual([]);
+    } finally {
+      run.close();
+    }
+  }, 15000);
+
+  it('says why a scene without meshes cannot be driven, and stops waiting', async () => {
+    const empty = baseline.replace('scene.add(cube);', '');
+    const run = await runSceneHeadless(injectSceneBridge(processSceneHtml(empty), 1500));
+    try {
+      const failed = await waitForMessage(run, 'bridge_failed', 8000);
+      expect(failed).toMatchObject({ version: BRIDGE_VERSION, reason: 'The scene has no meshes after 2s.' });
+      expect(messagesOf(run, 'bridge_ready')).toEqual([]);
+    } finally {
+      run.close();
+    }
+  }, 15000);
+
+  it('refuses other versions and unknown methods', async () => {
+    const { run } = await openScene();
+    try {
+      const stale = await sendBridgeRequest(run, 'getStats', {}, BRIDGE_VERSION + 1);
+      expect(stale).toMatchObject({ ok: false, error: expect.stringContaining('version') });
+      const unknown = await sendBridgeRequest(run, 'navigate');
+      expect(unknown).toMatchObject({ ok: false, error: 'Unknown method: navigate' });
+    } finally {
+      run.close();
+    }
+  }, 15000);
+
+  it('moves the camera and changes wireframe and lighting', async () => {
+    const { run, win } = await openScene();
+    try {
+      const camera = await callBridge(run, 'setCamera', { position: [0, 0, 10], target: [0, 0, 0] });
+      [0, 0, 10].forEach((value, i) => expect(camera.position[i]).toBeCloseTo(value, 5));
+      expect(camera).toMatchObject({ target: [0, 0, 0], orthographic: false });
+      const top = await callBridge(run, 'setCamera', { view: 'top', orthographic: true });
+      expect(top.orthographic).toBe(true);
+      expect(top.target).toEqual([1.5, 1, 0]);
+      expect(await sendBridgeRequest(run, 'setCamera', { view: 'below' })).toMatchObject({ ok: false, error: 'Unknown view: below' });
+
+      await callBridge(run, 'setWireframe', { enabled: true });
+      expect(win.__voxelCameraRig!.meshes().every(mesh => mesh.material.wireframe)).toBe(true);
+
+      const hemisphere = win.scene!.children.find((child): child is HemisphereLight => child instanceof HemisphereLight)!;
+      const lighting = await callBridge(run, 'setLighting', { intensity: 0.5, ambient: 1, background: '#112233' });
+      expect(lighting).toEqual({ intensity: 0.5, ambient: 1, background: '#112233' });
+      expect(hemisphere.intensity).toBeCloseTo(0.75, 5);
+      expect((win.scene!.background as Color).getHexString()).toBe('112233');
+      // The added light is left out of the stats
+      expect((await callBridge(run, 'getStats')).total).toBe(12);
+
+      await callBridge(run, 'setLighting', { intensity: 1, background: null });
+      expect(hemisphere.intensity).toBeCloseTo(1.5, 5);
+      expect((win.scene!.background as Color).getHexString()).toBe('f0f0f0');
+      expect(run.errors).toEqual([]);
+    } finally {
+      run.close();
+    }
+  }, 15000);
+
+  it('picks the nearest voxel that is not cut away', async () => {
+    const { run, win } = await openScene();
+    try {
+      await waitForMessage(run, 'section_info', 8000);
+      await callBridge(run, 'setCamera', { position: [-10, 0, 0], target: [0, 0, 0] });
+
+      const first = await callBridge(run, 'pickVoxel', { x: 0, y: 0 });
+      assert(first);
+      expect(first.center).toEqual([0, 0, 0]);
+      expect(first.size).toEqual([1, 1, 1]);
+      expect(first.normal.map(Math.round)).toEqual([-1, 0, 0]);
+      expect(first.color).toBe('#3b82f6');
+
+      // With the first column cut away the ray reaches the next one
+      win.__voxelSection!.apply({ mode: 'plane', axis: 'x', layer: 2, invert: true });
+      const second = await callBridge(run, 'pickVoxel', { x: 0, y: 0 });
+      expect(second?.center).toEqual([1, 0, 0]);
+      expect(second?.color).toBe('#ef4444');
+
+      expect(await callBridge(run, 'pickVoxel', { x: 0, y: 0.99 })).toBeNull();
+      expect(run.errors).toEqual([]);
+    } finally {
+      run.close();
+    }
+  }, 15000);
+});
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { localizeThreeImports, readImportMap, toCdnThreeImports, THREE_VERSION, VENDORED_FILES } from '../utils/threeVendor';
+import { renderVoxelSceneHtml } from '../utils/voxelScene';
+import { FIXTURES } from './fixtures';
+
+// Same location the Vite plugin serves the files from
+const THREE_ROOT = fileURLToPath(new URL('../node_modules/three', import.meta.url));
+
+const scene = (imports: Record<string, string>) =>
+  `<html><head><script type="importmap">${JSON.stringify({ imports })}</script></head><body></body></html>`;
+
+describe('vendored Three.js', () => {
+  it('matches the installed package', () => {
+    expect(JSON.parse(readFileSync(path.join(THREE_ROOT, 'package.json'), 'utf-8')).version).toBe(THREE_VERSION);
+    VENDORED_FILES.forEach(file => expect(existsSync(path.join(THREE_ROOT, file))).toBe(true));
+  });
+
+  it('rewrites any CDN or version of three to the vendored copy', () => {
+    const imports = readImportMap(localizeThreeImports(scene({
+      three: 'https://cdn.jsdelivr.net/npm/three@0.150.0/build/three.module.js',
+      'three/examples/jsm/': 'https://cdn.jsdelivr.net/npm/three@0.150.0/examples/jsm/',
+      gsap: 'https://cdn.jsdelivr.net/npm/gsap/index.js',
+    })))!;
+    expect(imports.three).toBe(`/vendor/three@${THREE_VERSION}/build/three.module.js`);
+    expect(imports['three/addons/controls/OrbitControls.js']).toBe(`/vendor/three@${THREE_VERSION}/examples/jsm/controls/OrbitControls.js`);
+    expect(imports['three/examples/jsm/math/SimplexNoise.js']).toBe(`/vendor/three@${THREE_VERSION}/examples/jsm/math/SimplexNoise.js`);
+    // Addons that are not vendored use the same version from the CDN
+    expect(imports['three/addons/']).toBe(`https://unpkg.com/three@${THREE_VERSION}/examples/jsm/`);
+    expect(imports.gsap).toBe('https://cdn.jsdelivr.net/npm/gsap/index.js');
+  });
+
+  it('leaves scenes without a valid import map alone', () => {
+    const html = '<html><body><script type="importmap">{ not json</script></body></html>';
+    expect(localizeThreeImports(html)).toBe(html);
+    expect(localizeThreeImports('<html></html>')).toBe('<html></html>');
+  });
+
+  it('localizes the examples and grid scenes', () => {
+    const sources = [...FIXTURES.map(f => f.raw), renderVoxelSceneHtml({ size: [1, 1, 1], palette: ['#ffffff'], voxels: [] })];
+    sources.forEach(html => {
+      const imports = readImportMap(localizeThreeImports(html));
+      expect(imports?.three).toBe(`/vendor/three@${THREE_VERSION}/build/three.module.js`);
+    });
+  });
+
+  it('points the vendored entries back at the pinned CDN for standalone files', () => {
+    const imports = readImportMap(toCdnThreeImports(localizeThreeImports(scene({ three: 'https://unpkg.com/three/build/three.module.js' }))))!;
+    Object.values(imports).forEach(url => expect(url.startsWith(`https://unpkg.com/three@${THREE_VERSION}/`)).toBe(true));
+  });
+});
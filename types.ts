@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+export interface VoxelStat {
+    color: string;
+    count: number;
+}
+
+export interface HistoryItem {
+    id: string;
+    image: string;
+    voxel: string | null;
+    prompt: string;
+    timestamp: number;
+    stats: VoxelStat[] | null;
+    grid?: VoxelGrid | null;
+    versions?: VoxelVersion[];
+    activeVersionId?: string | null;
+    pinnedVersionId?: string | null;
+}
+
+/**
+ * One voxel result for a history item. Every generation is a root; refinements
+ * and edits point at the version they were derived from.
+ */
+export interface VoxelVersion {
+    id: string;
+    parentId: string | null;
+    instruction: string | null; // null for a fresh generation
+    prompt: string; // Prompt sent to the model
+    model: string; // Model (or tool) that produced this version
+    source: string; // Unprocessed scene HTML, used to continue the conversation
+    voxel: string; // Processed HTML shown in the viewer
+    grid?: VoxelGrid | null;
+    stats: VoxelStat[] | null;
+    timestamp: number;
+}
+
+/**
+ * A single box-shaped mesh (or mesh instance) read from a live Three.js scene.
+ * Positions and sizes are in world units, colours are sRGB hex strings.
+ */
+export interface SceneVoxel {
+    x: number;
+    y: number;
+    z: number;
+    w: number;
+    h: number;
+    d: number;
+    color: string;
+}
+
+/**
+ * A voxel on an integer grid. `color` is an index into the owning model's palette.
+ */
+export interface GridVoxel {
+    x: number;
+    y: number;
+    z: number;
+    color: number;
+}
+
+/**
+ * Voxels quantized to an integer grid, Y-up like Three.js, all coordinates >= 0.
+ */
+export interface VoxelModel {
+    size: [number, number, number];
+    palette: string[];
+    voxels: GridVoxel[];
+}
+
+/**
+ * Structured voxel output returned by the model in grid mode.
+ * `rle` holds [count, colorIndex] pairs over cells ordered x fastest, then z,
+ * then y (bottom layer first). Color index 0 is empty, 1..n refer to `palette`.
+ */
+export interface VoxelGrid {
+    width: number;
+    height: number;
+    depth: number;
+    palette: string[];
+    rle: number[];
+}
+
+// 'local' converts the image without a model (see utils/imageVoxels.ts)
+export type VoxelMode = 'code' | 'grid' | 'local';
+
+export type SceneHookKind = 'scene' | 'renderer' | 'camera' | 'controls';
+
+/**
+ * Camera presets understood by the camera rig (see injectCameraRig). `fit`
+ * reframes the model from the current angle.
+ */
+export type CameraView = 'fit' | 'iso' | 'front' | 'top' | 'side';
+
+export type SectionAxis = 'x' | 'y' | 'z';
+
+/**
+ * How the voxel view is cut open. `plane` shows layers 1..layer along `axis`
+ * (layer..last when inverted); `box` cuts away the corner above box[x, y, z]
+ * layers (keeps only that corner when inverted). `caps` fills cut faces so
+ * sliced geometry looks solid (plane mode only).
+ */
+export interface SectionState {
+  mode: 'off' | 'plane' | 'box';
+  axis: SectionAxis;
+  layer: number;
+  box: [number, number, number];
+  invert: boolean;
+  caps: boolean;
+}
+
+/**
+ * The scene's voxel grid as measured by the section tool: the voxel size and
+ * the number of layers along x, y and z.
+ */
+export interface SectionInfo {
+  unit: number;
+  layers: [number, number, number];
+}
+
+/**
+ * Camera pose reported by the scene bridge. `target` is the orbit centre (the
+ * origin when the scene has no OrbitControls).
+ */
+export interface SceneCamera {
+  position: [number, number, number];
+  target: [number, number, number];
+  orthographic: boolean;
+}
+
+/**
+ * Lighting overrides applied by the scene bridge: `intensity` scales the
+ * scene's own lights, `ambient` adds a white ambient light and `background`
+ * replaces the background colour (null keeps the scene's own).
+ */
+export interface SceneLighting {
+  intensity: number;
+  ambient: number;
+  background: string | null;
+}
+
+/**
+ * The voxel under a point of the view: where the ray hit it and the face
+ * normal there, plus the voxel's centre, size and colour.
+ */
+export interface VoxelPick {
+  point: [number, number, number];
+  normal: [number, number, number];
+  center: [number, number, number];
+  size: [number, number, number];
+  color: string;
+}
+
+/**
+ * What the scene instrumentation achieved at runtime, as reported by the
+ * iframe. `parsed` is false when the scene's scripts could not be parsed and
+ * the pattern-matching fallback was used.
+ */
+export interface SceneInstrumentation {
+    parsed: boolean;
+    hooks: Record<SceneHookKind, boolean>;
+}
+
+export type SceneErrorKind = 'uncaught' | 'rejection' | 'console' | 'resource';
+
+export interface SceneError {
+    kind: SceneErrorKind;
+    message: string;
+}
+
+/**
+ * Health report posted by a running scene (see injectErrorReporter): the
+ * errors it raised so far and how many meshes it holds after the wait.
+ */
+export interface SceneHealth {
+    errors: SceneError[];
+    sceneFound: boolean;
+    meshCount: number;
+    checkedAfterMs: number;
+}
+
+/**
+ * A frame rendered by a scene (see injectSceneCapture): straight, unpremultiplied RGBA.
+ */
+export interface CapturedImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
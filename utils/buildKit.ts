@@ -0,0 +1,374 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { hexToRgb } from "./voxels";
+import { A4_HEIGHT, A4_WIDTH, DrawOp, DrawPage } from "./pdf";
+import type { VoxelModel } from "../types";
+
+export interface CatalogueColor {
+  id: string;
+  name: string;
+  hex: string;
+}
+
+export interface BuildCatalogue {
+  id: string;
+  label: string;
+  // What one voxel is built from, e.g. "1×1 brick"
+  unit: string;
+  colors: CatalogueColor[];
+}
+
+// Reference colours are approximations of the manufacturers' swatches
+export const BUILD_CATALOGUES: BuildCatalogue[] = [
+  {
+    id: 'bricks',
+    label: 'Bricks (LEGO-like)',
+    unit: '1×1 brick',
+    colors: [
+      { id: '1', name: 'White', hex: '#f4f4f4' },
+      { id: '26', name: 'Black', hex: '#1b2a34' },
+      { id: '194', name: 'Medium Stone Grey', hex: '#969696' },
+      { id: '199', name: 'Dark Stone Grey', hex: '#646464' },
+      { id: '21', name: 'Bright Red', hex: '#b40000' },
+      { id: '154', name: 'Dark Red', hex: '#720012' },
+      { id: '106', name: 'Bright Orange', hex: '#d67923' },
+      { id: '24', name: 'Bright Yellow', hex: '#fac80a' },
+      { id: '226', name: 'Cool Yellow', hex: '#ffec6c' },
+      { id: '119', name: 'Bright Yellowish Green', hex: '#a5ca18' },
+      { id: '37', name: 'Bright Green', hex: '#58ab41' },
+      { id: '28', name: 'Dark Green', hex: '#00852b' },
+      { id: '141', name: 'Earth Green', hex: '#00451a' },
+      { id: '151', name: 'Sand Green', hex: '#708e7c' },
+      { id: '322', name: 'Medium Azur', hex: '#469bc3' },
+      { id: '102', name: 'Medium Blue', hex: '#7396c8' },
+      { id: '23', name: 'Bright Blue', hex: '#1e5aa8' },
+      { id: '140', name: 'Earth Blue', hex: '#19325a' },
+      { id: '135', name: 'Sand Blue', hex: '#70819a' },
+      { id: '324', name: 'Medium Lavender', hex: '#a06eb9' },
+      { id: '124', name: 'Bright Reddish Violet', hex: '#901f76' },
+      { id: '221', name: 'Bright Purple', hex: '#c870a0' },
+      { id: '222', name: 'Light Purple', hex: '#e4adc8' },
+      { id: '283', name: 'Light Nougat', hex: '#f6d7b3' },
+      { id: '18', name: 'Nougat', hex: '#bb805a' },
+      { id: '5', name: 'Brick Yellow', hex: '#d9bb7b' },
+      { id: '138', name: 'Sand Yellow', hex: '#897d62' },
+      { id: '38', name: 'Dark Orange', hex: '#91501c' },
+      { id: '192', name: 'Reddish Brown', hex: '#5f3109' },
+      { id: '308', name: 'Dark Brown', hex: '#352100' },
+    ],
+  },
+  {
+    id: 'beads',
+    label: 'Fuse beads (Perler-like)',
+    unit: 'bead',
+    colors: [
+      { id: 'P01', name: 'White', hex: '#f1f1f1' },
+      { id: 'P02', name: 'Cream', hex: '#e0dea9' },
+      { id: 'P03', name: 'Yellow', hex: '#ecd800' },
+      { id: 'P04', name: 'Orange', hex: '#ed6120' },
+      { id: 'P05', name: 'Red', hex: '#bf2e40' },
+      { id: 'P06', name: 'Bubblegum', hex: '#dd6699' },
+      { id: 'P07', name: 'Purple', hex: '#604089' },
+      { id: 'P08', name: 'Dark Blue', hex: '#2b3f87' },
+      { id: 'P09', name: 'Light Blue', hex: '#3370c0' },
+      { id: 'P10', name: 'Dark Green', hex: '#1c753e' },
+      { id: 'P11', name: 'Light Green', hex: '#56ba9f' },
+      { id: 'P12', name: 'Brown', hex: '#513931' },
+      { id: 'P17', name: 'Grey', hex: '#8a8d91' },
+      { id: 'P18', name: 'Black', hex: '#2e2f32' },
+      { id: 'P20', name: 'Rust', hex: '#8c372b' },
+      { id: 'P21', name: 'Light Brown', hex: '#815d34' },
+      { id: 'P33', name: 'Peach', hex: '#eebab2' },
+      { id: 'P35', name: 'Tan', hex: '#bc9371' },
+      { id: 'P38', name: 'Magenta', hex: '#f22b8c' },
+      { id: 'P52', name: 'Pastel Blue', hex: '#5a9ae6' },
+      { id: 'P53', name: 'Pastel Green', hex: '#76c882' },
+      { id: 'P54', name: 'Pastel Lavender', hex: '#8a72c1' },
+      { id: 'P56', name: 'Pastel Yellow', hex: '#fef682' },
+      { id: 'P57', name: 'Cheddar', hex: '#f1aa0c' },
+      { id: 'P58', name: 'Toothpaste', hex: '#93c8d4' },
+      { id: 'P61', name: 'Kiwi Lime', hex: '#6cbe13' },
+      { id: 'P62', name: 'Turquoise', hex: '#00a3cf' },
+      { id: 'P63', name: 'Blush', hex: '#ff8a7b' },
+      { id: 'P79', name: 'Light Pink', hex: '#f3a0b8' },
+      { id: 'P92', name: 'Dark Grey', hex: '#4f5255' },
+    ],
+  },
+];
+
+export type Lab = [number, number, number];
+
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+};
+
+const labF = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+
+/**
+ * Converts an sRGB hex colour to CIE L*a*b* (D65 white point).
+ */
+export const hexToLab = (hex: string): Lab => {
+  const [r, g, b] = hexToRgb(hex).map(toLinear);
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047;
+  const y = 0.2126729 * r + 0.7151522 * g + 0.0721750 * b;
+  const z = (0.0193339 * r + 0.1191920 * g + 0.9503041 * b) / 1.08883;
+  const [fx, fy, fz] = [x, y, z].map(labF);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+const rad = (deg: number) => deg * Math.PI / 180;
+
+const hue = (b: number, a: number) => {
+  if (a === 0 && b === 0) return 0;
+  const h = Math.atan2(b, a) * 180 / Math.PI;
+  return h < 0 ? h + 360 : h;
+};
+
+/**
+ * CIEDE2000 colour difference: about 1 is the smallest difference most people notice.
+ */
+export const deltaE2000 = ([L1, a1, b1]: Lab, [L2, a2, b2]: Lab): number => {
+  // 1. Stretch a* so that neutral colours are compared fairly
+  const meanC = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(meanC ** 7 / (meanC ** 7 + 25 ** 7)));
+  const a1p = (1 + g) * a1;
+  const a2p = (1 + g) * a2;
+  const c1 = Math.hypot(a1p, b1);
+  const c2 = Math.hypot(a2p, b2);
+  const h1 = hue(b1, a1p);
+  const h2 = hue(b2, a2p);
+
+  // 2. Differences in lightness, chroma and hue
+  const dL = L2 - L1;
+  const dC = c2 - c1;
+  let dh = 0;
+  if (c1 * c2 !== 0) {
+    dh = h2 - h1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(c1 * c2) * Math.sin(rad(dh / 2));
+
+  // 3. Weights that depend on where in colour space the pair sits
+  const meanL = (L1 + L2) / 2;
+  const meanCp = (c1 + c2) / 2;
+  let meanH = h1 + h2;
+  if (c1 * c2 !== 0) {
+    if (Math.abs(h1 - h2) > 180) meanH += meanH < 360 ? 360 : -360;
+    meanH /= 2;
+  }
+  const t = 1 - 0.17 * Math.cos(rad(meanH - 30)) + 0.24 * Math.cos(rad(2 * meanH))
+    + 0.32 * Math.cos(rad(3 * meanH + 6)) - 0.2 * Math.cos(rad(4 * meanH - 63));
+  const sL = 1 + 0.015 * (meanL - 50) ** 2 / Math.sqrt(20 + (meanL - 50) ** 2);
+  const sC = 1 + 0.045 * meanCp;
+  const sH = 1 + 0.015 * meanCp * t;
+  const rotation = -Math.sin(rad(60 * Math.exp(-(((meanH - 275) / 25) ** 2))))
+    * 2 * Math.sqrt(meanCp ** 7 / (meanCp ** 7 + 25 ** 7));
+
+  return Math.sqrt((dL / sL) ** 2 + (dC / sC) ** 2 + (dH / sH) ** 2 + rotation * (dC / sC) * (dH / sH));
+};
+
+/**
+ * Index of the catalogue colour perceptually closest to `hex`.
+ */
+export const nearestCatalogueColor = (hex: string, catalogue: BuildCatalogue): number => {
+  const lab = hexToLab(hex);
+  let best = 0;
+  let bestDistance = Infinity;
+  catalogue.colors.forEach((color, i) => {
+    const distance = deltaE2000(lab, hexToLab(color.hex));
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  });
+  return best;
+};
+
+export interface BuildPart {
+  color: CatalogueColor;
+  count: number;
+  // Scene colours built from this part
+  sources: string[];
+}
+
+export interface BuildLayer {
+  // Voxel row, counting from the bottom
+  y: number;
+  // size[0] × size[2] cells, row by row along z; -1 is empty, otherwise a part index
+  cells: number[];
+  count: number;
+}
+
+export interface BuildKit {
+  catalogue: BuildCatalogue;
+  size: [number, number, number];
+  // Bill of materials, most used first
+  parts: BuildPart[];
+  // Bottom to top, one per voxel row: the Y slices the layer slider clips at
+  layers: BuildLayer[];
+}
+
+/**
+ * Maps a voxel model onto a catalogue and slices it into build layers.
+ */
+export const createBuildKit = (model: VoxelModel, catalogue: BuildCatalogue): BuildKit => {
+  if (model.voxels.length === 0) throw new Error("The scene has no voxels to build.");
+
+  // 1. Each scene colour becomes its nearest catalogue colour
+  const matches = model.palette.map(color => nearestCatalogueColor(color, catalogue));
+  const counts = new Map<number, number>();
+  model.voxels.forEach(v => counts.set(matches[v.color], (counts.get(matches[v.color]) || 0) + 1));
+
+  // 2. Parts are numbered by usage so the keys on the sheets stay small
+  const order = Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a - b);
+  const parts: BuildPart[] = order.map(index => ({
+    color: catalogue.colors[index],
+    count: counts.get(index)!,
+    sources: model.palette.filter((_, i) => matches[i] === index),
+  }));
+  const partOf = matches.map(index => order.indexOf(index));
+
+  // 3. One layer per voxel row
+  const [width, height, depth] = model.size;
+  const layers: BuildLayer[] = Array.from({ length: height }, (_, y) => ({ y, cells: new Array(width * depth).fill(-1), count: 0 }));
+  model.voxels.forEach(v => {
+    const layer = layers[v.y];
+    if (layer.cells[v.z * width + v.x] === -1) layer.count++;
+    layer.cells[v.z * width + v.x] = partOf[v.color];
+  });
+
+  return { catalogue, size: model.size, parts, layers };
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The bill of materials as CSV, one row per part.
+ */
+export const buildKitToCsv = (kit: BuildKit): string => {
+  const rows = [['Key', 'Part', 'Colour', 'Hex', 'Quantity', 'Scene colours']];
+  kit.parts.forEach((part, i) => {
+    rows.push([String(i + 1), part.color.id, part.color.name, part.color.hex, String(part.count), part.sources.join(' ')]);
+  });
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
+
+const MARGIN = 40;
+const ROW_HEIGHT = 18;
+const LEGEND_ROW = 14;
+const LEGEND_COLUMNS = 3;
+const MAX_CELL = 28;
+// Cells at least this big carry their part key
+const MIN_LABELLED_CELL = 12;
+// Fill for cells that are empty in this layer but filled in the one below
+const SUPPORT_FILL = '#e5e7eb';
+const GRID_LINE = '#9ca3af';
+
+// Black or white, whichever reads better on the colour
+const inkFor = (hex: string) => (hexToLab(hex)[0] > 60 ? '#000000' : '#ffffff');
+
+const totalParts = (kit: BuildKit) => kit.parts.reduce((sum, part) => sum + part.count, 0);
+
+const header = (kit: BuildKit, title: string): DrawOp[] => [
+  { kind: 'text', x: MARGIN, y: MARGIN + 14, size: 18, text: title, bold: true },
+  {
+    kind: 'text', x: MARGIN, y: MARGIN + 32, size: 9, color: '#6b7280',
+    text: `${kit.catalogue.label} · ${totalParts(kit)} × ${kit.catalogue.unit} · ${kit.size[0]} × ${kit.size[2]} × ${kit.size[1]} · ${kit.layers.length} layers`,
+  },
+];
+
+/**
+ * Pages listing the bill of materials.
+ */
+export const layoutPartsPages = (kit: BuildKit): DrawPage[] => {
+  const top = MARGIN + 60;
+  const perPage = Math.floor((A4_HEIGHT - top - MARGIN) / ROW_HEIGHT) - 1;
+  const pages: DrawPage[] = [];
+
+  for (let start = 0; start < kit.parts.length; start += perPage) {
+    const ops: DrawOp[] = header(kit, 'Bill of materials');
+    const columns: [string, number][] = [['Key', MARGIN], ['Part', MARGIN + 60], ['Colour', MARGIN + 120], ['Quantity', A4_WIDTH - MARGIN - 60]];
+    columns.forEach(([text, x]) => ops.push({ kind: 'text', x, y: top, size: 9, text, bold: true }));
+
+    kit.parts.slice(start, start + perPage).forEach((part, i) => {
+      const y = top + (i + 1) * ROW_HEIGHT;
+      ops.push({ kind: 'text', x: MARGIN, y, size: 10, text: String(start + i + 1) });
+      ops.push({ kind: 'rect', x: MARGIN + 24, y: y - 10, w: 24, h: 12, fill: part.color.hex, stroke: GRID_LINE });
+      ops.push({ kind: 'text', x: MARGIN + 60, y, size: 10, text: part.color.id });
+      ops.push({ kind: 'text', x: MARGIN + 120, y, size: 10, text: part.color.name });
+      ops.push({ kind: 'text', x: A4_WIDTH - MARGIN - 60, y, size: 10, text: String(part.count) });
+    });
+    pages.push({ width: A4_WIDTH, height: A4_HEIGHT, ops });
+  }
+  return pages;
+};
+
+/**
+ * One build sheet: the layer seen from above (x across, z down) with the
+ * cells of the layer below shaded, and a key of the parts it uses.
+ */
+export const layoutLayerPage = (kit: BuildKit, index: number): DrawPage => {
+  const layer = kit.layers[index];
+  const below = index > 0 ? kit.layers[index - 1] : null;
+  const [width, , depth] = kit.size;
+  const ops: DrawOp[] = header(kit, `Layer ${index + 1} of ${kit.layers.length}`);
+
+  // 1. Parts used in this layer, for the key
+  const used = new Map<number, number>();
+  layer.cells.forEach(part => { if (part >= 0) used.set(part, (used.get(part) || 0) + 1); });
+  const key = Array.from(used.entries()).sort((a, b) => a[0] - b[0]);
+  const keyHeight = Math.ceil(key.length / LEGEND_COLUMNS) * LEGEND_ROW + 24;
+
+  // 2. Grid scaled to the space left
+  const top = MARGIN + 50;
+  const cell = Math.min(MAX_CELL, (A4_WIDTH - 2 * MARGIN) / width, (A4_HEIGHT - top - MARGIN - keyHeight) / depth);
+  const left = (A4_WIDTH - cell * width) / 2;
+
+  for (let z = 0; z < depth; z++) {
+    for (let x = 0; x < width; x++) {
+      const part = layer.cells[z * width + x];
+      const supported = below !== null && below.cells[z * width + x] >= 0;
+      const rect = { x: left + x * cell, y: top + z * cell, w: cell, h: cell };
+      if (part >= 0) {
+        const hex = kit.parts[part].color.hex;
+        ops.push({ kind: 'rect', ...rect, fill: hex, stroke: GRID_LINE });
+        if (cell >= MIN_LABELLED_CELL) {
+          const size = Math.min(9, cell * 0.5);
+          ops.push({ kind: 'text', x: rect.x + cell * 0.2, y: rect.y + cell * 0.5 + size * 0.35, size, text: String(part + 1), color: inkFor(hex) });
+        }
+      } else {
+        ops.push({ kind: 'rect', ...rect, fill: supported ? SUPPORT_FILL : '#ffffff', stroke: GRID_LINE });
+      }
+    }
+  }
+
+  // 3. Key below the grid
+  const keyTop = top + depth * cell + 24;
+  const columnWidth = (A4_WIDTH - 2 * MARGIN) / LEGEND_COLUMNS;
+  key.forEach(([part, count], i) => {
+    const x = MARGIN + (i % LEGEND_COLUMNS) * columnWidth;
+    const y = keyTop + Math.floor(i / LEGEND_COLUMNS) * LEGEND_ROW;
+    const color = kit.parts[part].color;
+    ops.push({ kind: 'rect', x, y: y - 9, w: 10, h: 10, fill: color.hex, stroke: GRID_LINE });
+    ops.push({ kind: 'text', x: x + 14, y, size: 8, text: `${part + 1}  ${color.name} (${color.id}) × ${count}` });
+  });
+
+  return { width: A4_WIDTH, height: A4_HEIGHT, ops };
+};
+
+/**
+ * Every page of the build instructions: bill of materials, then each layer from the bottom up.
+ */
+export const layoutBuildSheets = (kit: BuildKit): DrawPage[] => [
+  ...layoutPartsPages(kit),
+  ...kit.layers.map((_, i) => layoutLayerPage(kit, i)),
+];
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { medianCut } from "./imageVoxels";
+import type { CapturedImage } from "../types";
+
+// Pixels sampled across all frames to build the shared palette
+const PALETTE_SAMPLES = 20000;
+// Pixels with less alpha than this are written as transparent
+const ALPHA_THRESHOLD = 128;
+const MAX_CODES = 4096;
+
+// Builds one palette for every frame, which keeps colours from flickering
+// between frames. Frames with few colours keep them exactly.
+const buildPalette = (frames: CapturedImage[], size: number): { colors: [number, number, number][]; exact: boolean } => {
+  const total = frames.reduce((sum, frame) => sum + frame.width * frame.height, 0);
+  const step = Math.max(1, Math.floor(total / PALETTE_SAMPLES));
+  const samples: [number, number, number][] = [];
+  const unique = new Set<number>();
+  frames.forEach(frame => {
+    for (let p = 0; p < frame.width * frame.height; p++) {
+      const i = p * 4;
+      if (frame.data[i + 3] < ALPHA_THRESHOLD) continue;
+      if (unique.size <= size) unique.add((frame.data[i] << 16) | (frame.data[i + 1] << 8) | frame.data[i + 2]);
+      if (p % step === 0) samples.push([frame.data[i], frame.data[i + 1], frame.data[i + 2]]);
+    }
+  });
+  if (unique.size === 0) return { colors: [[0, 0, 0]], exact: true };
+  if (unique.size <= size) return { colors: Array.from(unique, c => [c >> 16, (c >> 8) & 255, c & 255]), exact: true };
+  return { colors: medianCut(samples, size).map(c => c.map(Math.round) as [number, number, number]), exact: false };
+};
+
+/**
+ * GIF flavour of LZW: variable-width codes from minCodeSize + 1 up to 12 bits,
+ * packed least significant bit first, with a clear code once the table is full.
+ */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): number[] => {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 255);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (next === MAX_CODES) {
+      emit(clear);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+    } else {
+      if (next >= 1 << codeSize) codeSize++;
+      table.set(key, next++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(end);
+  if (bits > 0) out.push(buffer & 255);
+  return out;
+};
+
+export interface GifEncoder {
+  addFrame: (frame: CapturedImage) => void;
+  finish: () => Uint8Array;
+}
+
+/**
+ * Starts a looping animated GIF whose frames are added one at a time, so only
+ * the compressed output is kept. Colours are reduced to one shared palette of
+ * up to 256 entries (255 plus a transparent one when any pixel of `samples`
+ * is see-through), built from `samples` up front.
+ */
+export const createGifEncoder = (width: number, height: number, delayMs: number, samples: CapturedImage[]): GifEncoder => {
+  if (samples.length === 0) throw new Error("No frames to build the palette from.");
+
+  // 1. Palette, padded to a power of two
+  const transparent = samples.some(frame => {
+    for (let i = 3; i < frame.data.length; i += 4) if (frame.data[i] < ALPHA_THRESHOLD) return true;
+    return false;
+  });
+  const { colors: palette, exact } = buildPalette(samples, transparent ? 255 : 256);
+  const transparentIndex = transparent ? palette.length : -1;
+  const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length + (transparent ? 1 : 0))));
+
+  // 2. Nearest palette entry per colour, cached. An exact palette is looked up
+  // by full colour; a reduced one by 15-bit colour, which is much faster
+  const lookup = new Map<number, number>();
+  const nearest = (r: number, g: number, b: number) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    palette.forEach((c, i) => {
+      const d = (c[0] - r) ** 2 + (c[1] - g) ** 2 + (c[2] - b) ** 2;
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = i;
+      }
+    });
+    return best;
+  };
+  const indexOf = (r: number, g: number, b: number) => {
+    const key = exact ? (r << 16) | (g << 8) | b : ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    let index = lookup.get(key);
+    if (index === undefined) {
+      index = exact ? nearest(r, g, b) : nearest((r & ~7) | 4, (g & ~7) | 4, (b & ~7) | 4);
+      lookup.set(key, index);
+    }
+    return index;
+  };
+
+  const parts: Uint8Array[] = [];
+  let out: number[] = [];
+  const word = (n: number) => out.push(n & 255, (n >> 8) & 255);
+  const ascii = (text: string) => { for (let i = 0; i < text.length; i++) out.push(text.charCodeAt(i)); };
+  const flush = () => {
+    parts.push(new Uint8Array(out));
+    out = [];
+  };
+
+  // 3. Header, screen descriptor with the global colour table, and the loop extension
+  ascii('GIF89a');
+  word(width);
+  word(height);
+  out.push(0xf0 | (tableBits - 1), 0, 0);
+  for (let i = 0; i < 1 << tableBits; i++) out.push(...(palette[i] || [0, 0, 0]));
+  out.push(0x21, 0xff, 11);
+  ascii('NETSCAPE2.0');
+  out.push(3, 1, 0, 0, 0);
+  flush();
+
+  const delay = Math.max(2, Math.round(delayMs / 10));
+  const minCodeSize = Math.max(2, tableBits);
+
+  const addFrame = (frame: CapturedImage) => {
+    if (frame.width !== width || frame.height !== height) throw new Error("All frames must be the same size.");
+
+    // 4. Graphic control: delay, and clear to the background between transparent frames
+    out.push(0x21, 0xf9, 4, transparent ? (2 << 2) | 1 : 1 << 2);
+    word(delay);
+    out.push(transparent ? transparentIndex : 0, 0);
+
+    // 5. Image descriptor and LZW data in sub-blocks of up to 255 bytes
+    out.push(0x2c);
+    word(0);
+    word(0);
+    word(width);
+    word(height);
+    out.push(0);
+
+    const indices = new Uint8Array(width * height);
+    for (let p = 0; p < indices.length; p++) {
+      const i = p * 4;
+      indices[p] = transparent && frame.data[i + 3] < ALPHA_THRESHOLD
+        ? transparentIndex
+        : indexOf(frame.data[i], frame.data[i + 1], frame.data[i + 2]);
+    }
+    const data = lzwEncode(indices, minCodeSize);
+    out.push(minCodeSize);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.slice(i, i + 255);
+      out.push(block.length, ...block);
+    }
+    out.push(0);
+    flush();
+  };
+
+  const finish = () => {
+    out.push(0x3b);
+    flush();
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+      result.set(part, offset);
+      offset += part.length;
+    });
+    return result;
+  };
+
+  return { addFrame, finish };
+};
+
+/**
+ * Encodes frames of equal size as a looping animated GIF, with the palette
+ * built from all of them (see createGifEncoder).
+ */
+export const encodeGif = (frames: CapturedImage[], delayMs: number): Uint8Array => {
+  if (frames.length === 0) throw new Error("No frames to encode.");
+  const encoder = createGifEncoder(frames[0].width, frames[0].height, delayMs, frames);
+  frames.forEach(encoder.addFrame);
+  return encoder.finish();
+};
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { MeshData } from "./mesh";
+
+// glTF constants
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a; // "JSON"
+const CHUNK_BIN = 0x004e4942; // "BIN\0"
+
+const align4 = (n: number) => (n + 3) & ~3;
+
+const bounds = (positions: Float32Array) => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], positions[i + axis]);
+      max[axis] = Math.max(max[axis], positions[i + axis]);
+    }
+  }
+  return { min, max };
+};
+
+/**
+ * Encodes a single vertex-coloured mesh as a binary glTF 2.0 (.glb) file.
+ */
+export const encodeGlb = (mesh: MeshData, name: string = 'VoxelScene'): Uint8Array => {
+  const vertexCount = mesh.positions.length / 3;
+  const views = [
+    { data: mesh.positions, target: ARRAY_BUFFER },
+    { data: mesh.normals, target: ARRAY_BUFFER },
+    { data: mesh.colors, target: ARRAY_BUFFER },
+    { data: mesh.indices, target: ELEMENT_ARRAY_BUFFER },
+  ];
+
+  // 1. Lay out all typed arrays in one binary buffer
+  let byteOffset = 0;
+  const bufferViews = views.map(view => {
+    const entry = { buffer: 0, byteOffset, byteLength: view.data.byteLength, target: view.target };
+    byteOffset = align4(byteOffset + view.data.byteLength);
+    return entry;
+  });
+  const binLength = byteOffset;
+
+  const { min, max } = bounds(mesh.positions);
+
+  const json = {
+    asset: { version: '2.0', generator: 'Image to Voxel Art' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0, name }],
+    meshes: [{
+      name,
+      primitives: [{
+        attributes: { POSITION: 0, NORMAL: 1, COLOR_0: 2 },
+        indices: 3,
+        material: 0,
+      }],
+    }],
+    materials: [{
+      name: 'Voxel',
+      pbrMetallicRoughness: { baseColorFactor: [1, 1, 1, 1], metallicFactor: 0, roughnessFactor: 1 },
+    }],
+    buffers: [{ byteLength: binLength }],
+    bufferViews,
+    accessors: [
+      { bufferView: 0, componentType: FLOAT, count: vertexCount, type: 'VEC3', min, max },
+      { bufferView: 1, componentType: FLOAT, count: vertexCount, type: 'VEC3' },
+      { bufferView: 2, componentType: FLOAT, count: vertexCount, type: 'VEC3' },
+      { bufferView: 3, componentType: UNSIGNED_INT, count: mesh.indices.length, type: 'SCALAR' },
+    ],
+  };
+
+  // 2. JSON chunk, padded with spaces
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonLength = align4(jsonBytes.length);
+
+  const total = 12 + 8 + jsonLength + 8 + binLength;
+  const out = new Uint8Array(total);
+  const dv = new DataView(out.buffer);
+
+  dv.setUint32(0, GLB_MAGIC, true);
+  dv.setUint32(4, 2, true);
+  dv.setUint32(8, total, true);
+
+  dv.setUint32(12, jsonLength, true);
+  dv.setUint32(16, CHUNK_JSON, true);
+  out.set(jsonBytes, 20);
+  out.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength);
+
+  // 3. Binary chunk, padded with zeros
+  const binStart = 20 + jsonLength;
+  dv.setUint32(binStart, binLength, true);
+  dv.setUint32(binStart + 4, CHUNK_BIN, true);
+  views.forEach((view, i) => {
+    out.set(new Uint8Array(view.data.buffer, view.data.byteOffset, view.data.byteLength), binStart + 8 + bufferViews[i].byteOffset);
+  });
+
+  return out;
+};
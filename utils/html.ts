@@ -4,6 +4,12 @@
 */
 
 
+import { instrumentSceneHtml, insertHookRuntime } from "./instrument";
+import { PARENT_ORIGIN } from "./sandbox";
+import { BRIDGE_VERSION } from "./sceneMessages";
+import { localizeThreeImports } from "./threeVendor";
+import type { ColorRemap } from "./palette";
+
 /**
  * Extracts a complete HTML document from a string that might contain
  * conversational text, markdown code blocks, etc.
@@ -60,37 +66,18 @@ export const hideBodyText = (html: string): string => {
 };
 
 /**
- * Three.js scenes are often too zoomed out
- * Zooms the camera in by modifying the camera.position.set() call in the Three.js code.
- * This brings the camera closer to the center (0,0,0) by the specified factor.
- */
-export const zoomCamera = (html: string, zoomFactor: number = 0.8): string => {
-  // Regex to find camera.position.set(x, y, z)
-  // It handles integer, float, and whitespace
-  const regex = /camera\.position\.set\(\s*(-?\d*\.?\d+)\s*,\s*(-?\d*\.?\d+)\s*,\s*(-?\d*\.?\d+)\s*\)/g;
-
-  return html.replace(regex, (match, x, y, z) => {
-    const newX = parseFloat(x) * zoomFactor;
-    const newY = parseFloat(y) * zoomFactor;
-    const newZ = parseFloat(z) * zoomFactor;
-    return `camera.position.set(${newX}, ${newY}, ${newZ})`;
-  });
-};
-
-/**
- * Improves OrbitControls configuration to prevent users from scrolling too far out
- * or clipping into the model, and enables damping for smoother interaction.
+ * Enables damping on OrbitControls for smoother interaction. Zoom limits are
+ * fitted to the scene by the camera rig (see injectCameraRig).
  */
 export const enhanceControls = (html: string): string => {
   // Matches: const controls = new OrbitControls(...); or var ctrl = new THREE.OrbitControls(...);
-  const regex = /(const|let|var)\s+(\w+)\s*=\s*new\s+(?:THREE\.)?OrbitControls\s*\([^)]+\);/g;
+  // The trailing semicolon is optional
+  const regex = /(const|let|var)\s+(\w+)\s*=\s*new\s+(?:THREE\.)?OrbitControls\s*\([^)]+\)(\s*;)?/g;
 
-  return html.replace(regex, (match, keyword, varName) => {
-    return `${match}
+  return html.replace(regex, (match, keyword, varName, semicolon) => {
+    return `${semicolon ? match : match + ';'}
       // Injected enhancement for better UX
       if (${varName}) {
-          ${varName}.minDistance = 5;
-          ${varName}.maxDistance = 300;
           ${varName}.enableDamping = true;
           ${varName}.dampingFactor = 0.05;
           ${varName}.zoomSpeed = 0.8;
@@ -100,58 +87,79 @@ export const enhanceControls = (html: string): string => {
 };
 
 /**
- * Injects a script to monitor the scene and report voxel color statistics.
- * It modifies the scene initialization to expose the scene object to window,
- * then appends a script to traverse the scene and count colors.
+ * Post-processing applied to every scene before it is shown or saved.
+ * Scripts are instrumented through their AST where possible; scenes whose
+ * scripts do not parse (e.g. truncated output) fall back to pattern matching.
+ * Three.js is loaded from the copy served by the app.
  */
-export const injectSceneMonitor = (html: string): string => {
-  // 1. Expose the scene variable to window
-  // Look for: const/let/var name = new THREE.Scene();
-  // We replace it with: const name = new THREE.Scene(); window.scene = name;
-  const sceneRegex = /(const|let|var)\s+(\w+)\s*=\s*new\s+(?:THREE\.)?Scene\(\);/g;
-  let modifiedHtml = html.replace(sceneRegex, '$1 $2 = new THREE.Scene(); window.scene = $2;');
+export const processSceneHtml = (html: string): string => {
+  const hidden = hideBodyText(localizeThreeImports(html));
+  const instrumented = instrumentSceneHtml(hidden);
+  if (instrumented) {
+    return injectCameraRig(appendToBody(appendToBody(instrumented.html, SCENE_MONITOR_SCRIPT), LAYER_SLIDER_UI));
+  }
+  return injectCameraRig(insertHookRuntime(enhanceControls(injectLayerSlider(injectSceneMonitor(hidden))), false));
+};
 
-  // 2. Inject the analysis script
-  const analysisScript = `
-<script>
-(function() {
+const appendToBody = (html: string, markup: string): string => {
+  if (html.includes('</body>')) {
+    return html.replace('</body>', markup + '</body>');
+  }
+  return html + markup;
+};
+
+// Counts the colours of the meshes and mesh instances in window.scene; shared
+// by the scene monitor and the scene bridge
+const COLLECT_STATS_FUNCTIONS = `
   function toHex(c) {
       const hex = Math.floor(Math.max(0, Math.min(1, c)) * 255).toString(16);
       return hex.length === 1 ? '0' + hex : hex;
   }
+
+  // Same hex the scene code wrote: THREE.Color converts from its working
+  // colour space. Raw components are the fallback for plain objects. (Stats
+  // used raw components before Library DB_VERSION 2 and archive version 2.)
+  function colorHex(c) {
+      if (c.getHexString) return '#' + c.getHexString();
+      return '#' + toHex(c.r) + toHex(c.g) + toHex(c.b);
+  }
   
-  function analyzeScene() {
-    if (!window.scene) return;
+  function collectStats() {
+    if (!window.scene) return null;
     
     const stats = {};
     let total = 0;
     
     window.scene.traverse((obj) => {
-       if (obj.visible === false) return;
+       if (obj.visible === false || obj.userData.voxelHelper) return;
        
-       const add = (r, g, b, count = 1) => {
-          const h = "#" + toHex(r) + toHex(g) + toHex(b);
-          stats[h] = (stats[h] || 0) + count;
+       const add = (hex, count = 1) => {
+          stats[hex] = (stats[hex] || 0) + count;
           total += count;
        };
+       const material = Array.isArray(obj.material) ? obj.material[0] : obj.material;
 
        if (obj.isInstancedMesh) {
-            if (obj.instanceColor) {
-                const array = obj.instanceColor.array;
+            if (obj.instanceColor && material && material.color) {
+                // Reuse the scene's own Color class so we don't depend on a global THREE
+                const color = material.color.clone();
+                for (let i = 0; i < obj.count; i++) {
+                    obj.getColorAt(i, color);
+                    add(colorHex(color));
+                }
+            } else if (obj.instanceColor) {
                 // InstancedMesh colors are stored in a typed array [r,g,b, r,g,b, ...]
-                // We access them directly to avoid dependency on global THREE object
+                const array = obj.instanceColor.array;
                 for (let i = 0; i < obj.count; i++) {
-                    add(array[i*3], array[i*3+1], array[i*3+2]);
+                    add(colorHex({ r: array[i*3], g: array[i*3+1], b: array[i*3+2] }));
                 }
-            } else if (obj.material && obj.material.color) {
+            } else if (material && material.color) {
                 // Instanced mesh with single global color
-                const c = obj.material.color;
-                add(c.r, c.g, c.b, obj.count);
+                add(colorHex(material.color), obj.count);
             }
        } else if (obj.isMesh) {
-           if (obj.material && obj.material.color) {
-               const c = obj.material.color;
-               add(c.r, c.g, c.b);
+           if (material && material.color) {
+               add(colorHex(material.color));
            }
        }
     });
@@ -160,45 +168,328 @@ export const injectSceneMonitor = (html: string): string => {
         .map(([color, count]) => ({color, count}))
         .sort((a, b) => b.count - a.count);
     
-    if (sorted.length > 0) {
-        window.parent.postMessage({ type: 'voxel_stats', stats: sorted, total }, '*');
-    }
+    return { stats: sorted, total };
   }
+`;
 
-  // Check repeatedly until scene is populated, then wait a moment for animations/generation to settle
-  let checks = 0;
-  const interval = setInterval(() => {
-    // We assume if there are children, the scene has started generating
-    if (window.scene && window.scene.children.length > 0) {
-         // Debounce slightly to allow full generation
-         setTimeout(analyzeScene, 2000);
-         clearInterval(interval);
-    } else {
-        checks++;
-        if (checks > 20) clearInterval(interval); // Stop checking after ~20s
+// Exposes window.__voxelAnalyzeScene, which posts the colour counts as
+// `voxel_stats`. The app asks the scene bridge for them once the scene is ready.
+const SCENE_MONITOR_SCRIPT = `
+<script>
+(function() {
+${COLLECT_STATS_FUNCTIONS}
+  function analyzeScene() {
+    const result = collectStats();
+    if (result && result.stats.length > 0) {
+        window.parent.postMessage({ type: 'voxel_stats', stats: result.stats, total: result.total }, ${PARENT_ORIGIN});
     }
-  }, 1000);
+  }
+  // Lets the palette runtime report recoloured scenes
+  window.__voxelAnalyzeScene = analyzeScene;
 })();
 </script>
   `;
 
-  if (modifiedHtml.includes('</body>')) {
-    return modifiedHtml.replace('</body>', analysisScript + '</body>');
-  }
-  return modifiedHtml + analysisScript;
-};
-
 /**
- * Injects a vertical slider to control a clipping plane, simulating 3D printing layers.
+ * Injects a script to monitor the scene and report voxel color statistics.
+ * It modifies the scene initialization to expose the scene object to window,
+ * then appends a script to traverse the scene and count colors.
  */
-export const injectLayerSlider = (html: string): string => {
-  // 1. Enable localClipping on renderer
-  // Matches: const renderer = new THREE.WebGLRenderer(...);
-  const rendererRegex = /(const|let|var)\s+(\w+)\s*=\s*new\s+(?:THREE\.)?WebGLRenderer\s*\([^)]*\);/g;
-  let modifiedHtml = html.replace(rendererRegex, '$& $2.localClippingEnabled = true;');
+export const injectSceneMonitor = (html: string): string => {
+  // 1. Expose the scene variable to window
+  // Look for: [const/let/var] name = new THREE.Scene(...) (also this.name, a bare Scene import, no semicolon)
+  // We replace it with: const name = new THREE.Scene(); window.scene = name;
+  const sceneRegex = /(?<![\w$.])((?:(?:const|let|var)\s+)?((?:this\.)?[\w$]+)\s*=\s*new\s+(?:THREE\.)?Scene\s*\([^)]*\))(\s*;)?/g;
+  let modifiedHtml = html.replace(sceneRegex, (match, declaration, name) => `${declaration}; window.scene = ${name};`);
 
-  // 2. Inject UI and Logic
-  const script = `
+  // Also expose the THREE namespace for injected scripts (e.g. the layer slider)
+  const threeImportRegex = /import\s+\*\s+as\s+([\w$]+)\s+from\s+['"]three['"]\s*;?/;
+  modifiedHtml = modifiedHtml.replace(threeImportRegex, (match, name) => `${match} window.THREE = ${name};`);
+
+  // 2. Inject the analysis script
+  return appendToBody(modifiedHtml, SCENE_MONITOR_SCRIPT);
+};
+
+// Clips the model at whole voxel layers along X, Y or Z, or cuts a box out of
+// its top corner, on `set_section` messages. Cut faces can be capped so sliced
+// geometry looks solid. Posts the layer grid as `section_info` once the scene
+// holds still, and is exposed as window.__voxelSection.
+const SECTION_SCRIPT = `
+<script>
+(function() {
+  if (window.__voxelSection) return;
+
+  const AXES = ['x', 'y', 'z'];
+  const MAX_LAYERS = 512;
+  const CAP_COLOR = 0x9ca3af;
+  let THREE = null;
+  // { unit, min, layers } of the voxel grid
+  let grid = null;
+  let state = { mode: 'off', axis: 'y', layer: 1, box: [0, 0, 0], invert: false, caps: false };
+  let planes = [];
+  let layout = '';
+  let clipped = [];
+  let helpers = null;
+  // Number of meshes the caps were built for
+  let cappedMeshes = 0;
+  const listeners = [];
+
+  function axisScale(e, i) {
+    return Math.hypot(e[i], e[i + 1], e[i + 2]);
+  }
+
+  // The voxel size is the shortest side of the most common mesh (or
+  // instance). A size no two voxels share means the voxels were merged into
+  // larger geometries, and the measurement is reported as a problem.
+  function measureGrid() {
+    const rig = window.__voxelCameraRig;
+    const bounds = rig && rig.measure();
+    if (!bounds) return null;
+    const sizes = {};
+    rig.meshes().forEach(obj => {
+      const box = obj.geometry.boundingBox;
+      if (!box) return;
+      const e = obj.matrixWorld.elements;
+      let scale = [axisScale(e, 0), axisScale(e, 4), axisScale(e, 8)];
+      if (obj.isInstancedMesh) {
+        const matrix = obj.matrixWorld.clone();
+        obj.getMatrixAt(0, matrix);
+        scale = scale.map((s, a) => s * axisScale(matrix.elements, a * 4));
+      }
+      const side = Math.min(
+        (box.max.x - box.min.x) * scale[0],
+        (box.max.y - box.min.y) * scale[1],
+        (box.max.z - box.min.z) * scale[2]
+      ).toFixed(3);
+      sizes[side] = (sizes[side] || 0) + (obj.isInstancedMesh ? obj.count : 1);
+    });
+    const common = Object.keys(sizes).sort((a, b) => sizes[b] - sizes[a])[0];
+    const unit = parseFloat(common);
+    if (!(unit > 0)) return null;
+    const layers = [0, 1, 2].map(a => Math.max(1, Math.round((bounds.max[a] - bounds.min[a]) / unit)));
+    let problem = null;
+    if (sizes[common] < 2) {
+      problem = 'The voxels are merged into larger meshes, so their size cannot be measured.';
+    } else if (Math.max.apply(null, layers) > MAX_LAYERS) {
+      problem = 'The measured voxel size is too small for the size of the model.';
+    }
+    return { unit, min: bounds.min, layers, problem };
+  }
+
+  function clampLayer(value, count, lowest) {
+    return Math.min(count, Math.max(lowest, Math.round(value) || 0));
+  }
+
+  // Keeps the side of the plane where coordinate \`a\` is below (sign -1) or
+  // above (sign 1) \`value\`
+  function makePlane(a, sign, value) {
+    const normal = new THREE.Vector3();
+    normal.setComponent(a, sign);
+    return new THREE.Plane(normal, -sign * value);
+  }
+
+  function planesFor() {
+    const { unit, min, layers } = grid;
+    if (state.mode === 'plane') {
+      const a = Math.max(0, AXES.indexOf(state.axis));
+      const layer = clampLayer(state.layer, layers[a], 1);
+      // Just past the layer boundary, or just inside the kept layer when
+      // capped so that the cap replaces its face
+      const nudge = unit * (state.caps ? -0.01 : 0.0001);
+      return state.invert
+        ? [makePlane(a, 1, min[a] + (layer - 1) * unit - nudge)]
+        : [makePlane(a, -1, min[a] + layer * unit + nudge)];
+    }
+    // Box: the corner above box[a] layers on every axis is cut away (or kept)
+    return [0, 1, 2].map(a => {
+      const cut = min[a] + clampLayer(state.box[a], layers[a], 0) * unit;
+      return state.invert ? makePlane(a, 1, cut - unit * 0.0001) : makePlane(a, -1, cut + unit * 0.0001);
+    });
+  }
+
+  function removeCaps() {
+    if (!helpers) return;
+    helpers.traverse(obj => {
+      if (obj.material) obj.material.dispose();
+    });
+    helpers.children[helpers.children.length - 1].geometry.dispose();
+    if (helpers.parent) helpers.parent.remove(helpers);
+    helpers = null;
+    cappedMeshes = 0;
+  }
+
+  // Centres the cap on the model, facing away from the kept side
+  function placeCap() {
+    if (!helpers) return;
+    const cap = helpers.children[helpers.children.length - 1];
+    const bounds = window.__voxelCameraRig.measure();
+    const plane = planes[0];
+    if (bounds) plane.projectPoint(new THREE.Vector3().fromArray(bounds.center), cap.position);
+    cap.lookAt(cap.position.x - plane.normal.x, cap.position.y - plane.normal.y, cap.position.z - plane.normal.z);
+    cap.updateMatrixWorld(true);
+  }
+
+  // Stencil capping as in the three.js clipping examples: back faces behind
+  // the cut count up, front faces count down, and the cap is drawn where the
+  // count is left non-zero, i.e. inside the solid
+  function addCaps(plane) {
+    helpers = new THREE.Group();
+    helpers.userData.voxelHelper = true;
+    const counters = [[THREE.BackSide, THREE.IncrementWrapStencilOp], [THREE.FrontSide, THREE.DecrementWrapStencilOp]];
+    window.__voxelCameraRig.meshes().forEach(obj => {
+      counters.forEach(([side, op]) => {
+        const material = new THREE.MeshBasicMaterial({
+          side,
+          clippingPlanes: [plane],
+          depthWrite: false,
+          depthTest: false,
+          colorWrite: false,
+          stencilWrite: true,
+          stencilFunc: THREE.AlwaysStencilFunc,
+          stencilFail: op,
+          stencilZFail: op,
+          stencilZPass: op
+        });
+        const mesh = obj.isInstancedMesh
+          ? new THREE.InstancedMesh(obj.geometry, material, obj.count)
+          : new THREE.Mesh(obj.geometry, material);
+        if (obj.isInstancedMesh) mesh.instanceMatrix = obj.instanceMatrix;
+        // Follows the source mesh, which may be animated
+        mesh.matrixAutoUpdate = false;
+        mesh.onBeforeRender = () => mesh.matrixWorld.copy(obj.matrixWorld);
+        mesh.frustumCulled = false;
+        mesh.renderOrder = 1;
+        mesh.userData.voxelHelper = true;
+        helpers.add(mesh);
+      });
+    });
+
+    const bounds = window.__voxelCameraRig.measure();
+    const size = bounds ? bounds.radius * 4 : 100;
+    const cap = new THREE.Mesh(new THREE.PlaneGeometry(size, size), new THREE.MeshStandardMaterial({
+      color: CAP_COLOR,
+      roughness: 0.8,
+      side: THREE.DoubleSide,
+      stencilWrite: true,
+      stencilRef: 0,
+      stencilFunc: THREE.NotEqualStencilFunc,
+      stencilFail: THREE.ReplaceStencilOp,
+      stencilZFail: THREE.ReplaceStencilOp,
+      stencilZPass: THREE.ReplaceStencilOp
+    }));
+    cap.renderOrder = 1.1;
+    cap.onAfterRender = renderer => renderer.clearStencil();
+    cap.userData.voxelHelper = true;
+    helpers.add(cap);
+    window.scene.add(helpers);
+  }
+
+  // Clips every model mesh that is not clipped yet, so meshes added after the
+  // cut (streamed or animated scenes) are cut too. Caps are built per mesh,
+  // so they are rebuilt when the number of meshes changes.
+  function clipMeshes() {
+    const meshes = window.__voxelCameraRig.meshes();
+    meshes.forEach(obj => {
+      (Array.isArray(obj.material) ? obj.material : [obj.material]).forEach(m => {
+        if (!m || m.clippingPlanes === planes) return;
+        m.clippingPlanes = planes;
+        // A cutaway removes only what lies beyond all three planes
+        m.clipIntersection = state.mode === 'box' && !state.invert;
+        clipped.push(m);
+      });
+    });
+    if (state.mode === 'plane' && state.caps && cappedMeshes !== meshes.length) {
+      removeCaps();
+      addCaps(planes[0]);
+      cappedMeshes = meshes.length;
+      placeCap();
+    }
+  }
+
+  // Merges \`next\` into the section state and clips the model accordingly.
+  // Moving a cut only updates the planes; anything else rebuilds them.
+  function apply(next) {
+    state = Object.assign({}, state, next);
+    if (!grid || !THREE) return false;
+
+    const wanted = state.mode === 'off' ? [] : planesFor();
+    const key = [state.mode, state.axis, state.invert, state.caps].join();
+    if (key === layout) {
+      wanted.forEach((plane, i) => planes[i].copy(plane));
+      if (planes.length > 0) clipMeshes();
+      placeCap();
+      return true;
+    }
+
+    layout = key;
+    planes = wanted;
+    clipped.forEach(m => {
+      m.clippingPlanes = null;
+      m.clipIntersection = false;
+    });
+    clipped = [];
+    removeCaps();
+    if (planes.length === 0) return true;
+
+    if (window.renderer) window.renderer.localClippingEnabled = true;
+    clipMeshes();
+    return true;
+  }
+
+  // Calls \`callback\` with the layer grid once it is known
+  function onReady(callback) {
+    if (grid) callback(grid);
+    else listeners.push(callback);
+  }
+
+  window.__voxelSection = { apply, onReady, grid: () => grid };
+
+  function ready(measured) {
+    grid = measured;
+    window.parent.postMessage({ type: 'section_info', info: { unit: grid.unit, layers: grid.layers } }, ${PARENT_ORIGIN});
+    listeners.splice(0).forEach(callback => callback(grid));
+    if (state.mode !== 'off') apply({});
+    // Picks up meshes added while a cut is shown
+    setInterval(() => {
+      if (planes.length > 0) clipMeshes();
+    }, 1000);
+  }
+
+  function fail(reason) {
+    window.parent.postMessage({ type: 'section_failed', reason }, ${PARENT_ORIGIN});
+  }
+
+  // Measure once the grid holds still between two checks
+  let last = null;
+  let checks = 0;
+  (function poll() {
+    // Scenes that do not expose the namespace share the copy the import map loads
+    THREE = THREE || window.THREE || null;
+    if (!THREE && checks === 10) {
+      import('three').then(module => { THREE = THREE || module; }).catch(() => {});
+    }
+    const measured = THREE && window.__voxelCameraRig ? measureGrid() : null;
+    if (measured && last && measured.unit === last.unit && measured.layers.join() === last.layers.join()) {
+      if (measured.problem) fail(measured.problem);
+      else ready(measured);
+      return;
+    }
+    last = measured;
+    if (++checks < 100) setTimeout(poll, 200);
+    else fail(measured ? 'The model did not hold still long enough to be measured.' : 'The scene has no voxels to measure.');
+  })();
+
+  window.addEventListener('message', (event) => {
+    if (event.source !== window.parent || !event.data || event.data.type !== 'set_section') return;
+    apply(event.data.section || {});
+  });
+})();
+</script>
+`;
+
+// Vertical slider showing the model up to a given Y layer, for scenes opened
+// outside the app (which hides it in favour of its own section panel)
+const LAYER_SLIDER_UI = `${SECTION_SCRIPT}
 <style>
   #layer-control-container {
     position: absolute;
@@ -275,50 +566,1164 @@ export const injectLayerSlider = (html: string): string => {
 
 <script>
 (function() {
-    setTimeout(() => {
-        if (!window.scene) return;
-        
-        // Calculate Scene Height Bounds
-        const box = new THREE.Box3().setFromObject(window.scene);
-        if (box.isEmpty()) return;
-        
-        const minY = box.min.y;
-        const maxY = box.max.y;
-        
-        // Create Clipping Plane (Normal pointing down: 0, -1, 0)
-        // Everything with y < constant is visible
-        const plane = new THREE.Plane(new THREE.Vector3(0, -1, 0), maxY + 0.1);
-        
-        // Add plane to all materials
-        window.scene.traverse((obj) => {
-            if (obj.material) {
-                const materials = Array.isArray(obj.material) ? obj.material : [obj.material];
-                materials.forEach(m => {
-                    m.clippingPlanes = [plane];
-                    // m.clipShadows = true; 
-                });
-            }
+    const slider = document.getElementById('layer-slider');
+    const tooltip = document.querySelector('#layer-control-container .layer-tooltip');
+
+    window.__voxelSection.onReady((grid) => {
+        const count = grid.layers[1];
+        slider.min = 1;
+        slider.max = count;
+        slider.step = 1;
+        slider.value = count;
+        tooltip.textContent = 'Layer ' + count + ' of ' + count;
+
+        slider.addEventListener('input', () => {
+            const layer = parseInt(slider.value);
+            tooltip.textContent = 'Layer ' + layer + ' of ' + count;
+            window.__voxelSection.apply({ mode: 'plane', axis: 'y', layer, invert: false });
         });
-        
-        // Setup Slider
-        const slider = document.getElementById('layer-slider');
-        // Add a small buffer so we can see everything easily at max
-        slider.min = minY - 1;
-        slider.max = maxY + 1;
-        slider.step = 0.1;
-        slider.value = maxY + 1;
-        
-        slider.addEventListener('input', (e) => {
-            plane.constant = parseFloat(e.target.value);
+    });
+})();
+</script>
+`;
+
+/**
+ * Injects the section tool (see SECTION_SCRIPT) with a vertical slider that
+ * shows the model layer by layer, simulating 3D printing.
+ */
+export const injectLayerSlider = (html: string): string => {
+  // 1. Enable localClipping on renderer
+  // Matches: const renderer = new THREE.WebGLRenderer(...);
+  const rendererRegex = /(const|let|var)\s+(\w+)\s*=\s*new\s+(?:THREE\.)?WebGLRenderer\s*\([^)]*\)(\s*;)?/g;
+  let modifiedHtml = html.replace(rendererRegex, (match, keyword, varName, semicolon) =>
+    `${semicolon ? match : match + ';'} ${varName}.localClippingEnabled = true;`
+  );
+
+  // 2. Inject UI and Logic
+  return appendToBody(modifiedHtml, LAYER_SLIDER_UI);
+};
+
+/**
+ * Lets the app drive the section tool: adds it to scenes saved before it
+ * existed and hides the in-frame slider, which the app's panel replaces.
+ */
+export const injectSectionTool = (html: string): string => {
+  const hidden = appendToBody(html, '<style>#layer-control-container { display: none !important; }</style>');
+  if (html.includes('window.__voxelSection = ')) return hidden;
+  return appendToBody(hidden, SECTION_SCRIPT);
+};
+
+/**
+ * Injects a script that answers `request_voxels` messages from the parent with
+ * every box-shaped mesh and mesh instance in `window.scene` (as exposed by
+ * injectSceneMonitor), so the app can convert the scene to other formats.
+ */
+export const injectVoxelExporter = (html: string): string => {
+  const script = `
+<script>
+(function() {
+  // Transforms a local point by a column-major 4x4 matrix
+  function transform(e, x, y, z) {
+      return [
+          e[0] * x + e[4] * y + e[8] * z + e[12],
+          e[1] * x + e[5] * y + e[9] * z + e[13],
+          e[2] * x + e[6] * y + e[10] * z + e[14]
+      ];
+  }
+
+  function axisScale(e, i) {
+      return Math.hypot(e[i], e[i + 1], e[i + 2]);
+  }
+
+  function collectVoxels() {
+    const voxels = [];
+    if (!window.scene) return voxels;
+
+    window.scene.updateMatrixWorld(true);
+
+    const push = (matrix, geometry, color) => {
+        if (!geometry.boundingBox) geometry.computeBoundingBox();
+        const box = geometry.boundingBox;
+        if (!box) return;
+        const e = matrix.elements;
+        const center = transform(e,
+            (box.min.x + box.max.x) / 2,
+            (box.min.y + box.max.y) / 2,
+            (box.min.z + box.max.z) / 2);
+        voxels.push({
+            x: center[0], y: center[1], z: center[2],
+            w: (box.max.x - box.min.x) * axisScale(e, 0),
+            h: (box.max.y - box.min.y) * axisScale(e, 4),
+            d: (box.max.z - box.min.z) * axisScale(e, 8),
+            color: '#' + color.getHexString()
         });
-        
-    }, 2500); // Wait for potential animations to settle
+    };
+
+    window.scene.traverse((obj) => {
+        if (obj.visible === false || !obj.geometry || obj.userData.voxelHelper) return;
+        const material = Array.isArray(obj.material) ? obj.material[0] : obj.material;
+        if (!material || !material.color) return;
+
+        if (obj.isInstancedMesh) {
+            // Reuse the scene's own classes so we don't depend on a global THREE
+            const matrix = obj.matrixWorld.clone();
+            const color = material.color.clone();
+            for (let i = 0; i < obj.count; i++) {
+                obj.getMatrixAt(i, matrix);
+                matrix.premultiply(obj.matrixWorld);
+                if (obj.instanceColor) obj.getColorAt(i, color);
+                push(matrix, obj.geometry, color);
+            }
+        } else if (obj.isMesh) {
+            push(obj.matrixWorld, obj.geometry, material.color);
+        }
+    });
+
+    return voxels;
+  }
+
+  window.addEventListener('message', (event) => {
+      if (event.source !== window.parent || !event.data || event.data.type !== 'request_voxels') return;
+      window.parent.postMessage({ type: 'voxel_data', requestId: event.data.requestId, voxels: collectVoxels() }, ${PARENT_ORIGIN});
+  });
+})();
+</script>
+  `;
+
+  if (html.includes('</body>')) {
+    return html.replace('</body>', script + '</body>');
+  }
+  return html + script;
+};
+
+/**
+ * Injects window.__voxelCapture, which renders one frame at the requested
+ * size for the scene bridge's `screenshot` method, with the camera orbited
+ * `angle` radians about the vertical axis through its target. Transparent
+ * frames are rendered on black and on white and the alpha is recovered from
+ * the difference, so they work whether or not the scene created its renderer
+ * with an alpha channel.
+ */
+export const injectSceneCapture = (html: string): string => {
+  const script = `
+<script>
+(function() {
+  function readPixels(canvas, width, height) {
+    const copy = document.createElement('canvas');
+    copy.width = width;
+    copy.height = height;
+    const ctx = copy.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available.');
+    ctx.drawImage(canvas, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+  }
+
+  function capture(request) {
+    const renderer = window.renderer, camera = window.camera, scene = window.scene;
+    if (!renderer || !camera || !scene) throw new Error('The scene does not expose its renderer and camera.');
+
+    const width = Math.round(request.width), height = Math.round(request.height);
+    const canvas = renderer.domElement;
+    const ratio = renderer.getPixelRatio();
+    const previous = { width: canvas.width / ratio, height: canvas.height / ratio };
+    const position = camera.position.clone();
+    const quaternion = camera.quaternion.clone();
+    const frustum = { aspect: camera.aspect, left: camera.left, right: camera.right };
+    const background = scene.background;
+    const clear = { isColor: true, r: 0, g: 0, b: 0, copy(c) { this.r = c.r; this.g = c.g; this.b = c.b; return this; } };
+    renderer.getClearColor(clear);
+    const clearAlpha = renderer.getClearAlpha();
+
+    try {
+      // 1. Output size, keeping the vertical field of view
+      renderer.setPixelRatio(1);
+      renderer.setSize(width, height, false);
+      // Perspective and orthographic cameras follow the new aspect
+      if (camera.aspect !== undefined) {
+        camera.aspect = width / height;
+      } else if (camera.isOrthographicCamera) {
+        const centre = (camera.left + camera.right) / 2;
+        const half = (camera.top - camera.bottom) / 2 * width / height;
+        camera.left = centre - half;
+        camera.right = centre + half;
+      }
+      camera.updateProjectionMatrix();
+
+      // 2. Orbit about the controls' target (or the origin)
+      if (request.angle) {
+        const pivot = window.controls && window.controls.target ? window.controls.target.clone() : position.clone().set(0, 0, 0);
+        const offset = position.clone().sub(pivot);
+        const cos = Math.cos(request.angle), sin = Math.sin(request.angle);
+        camera.position.set(pivot.x + offset.x * cos + offset.z * sin, position.y, pivot.z - offset.x * sin + offset.z * cos);
+        camera.lookAt(pivot);
+      }
+
+      if (!request.transparent) {
+        renderer.render(scene, camera);
+        return readPixels(canvas, width, height);
+      }
+
+      // 3. Difference matting: a pixel that changes with the background is see-through
+      scene.background = null;
+      renderer.setClearColor(0x000000, 1);
+      renderer.render(scene, camera);
+      const black = readPixels(canvas, width, height);
+      renderer.setClearColor(0xffffff, 1);
+      renderer.render(scene, camera);
+      const white = readPixels(canvas, width, height);
+
+      const out = new Uint8ClampedArray(black.length);
+      for (let i = 0; i < out.length; i += 4) {
+        const spread = (white[i] - black[i] + white[i + 1] - black[i + 1] + white[i + 2] - black[i + 2]) / 3;
+        const alpha = 255 - spread;
+        if (alpha <= 0) continue;
+        out[i] = black[i] * 255 / alpha;
+        out[i + 1] = black[i + 1] * 255 / alpha;
+        out[i + 2] = black[i + 2] * 255 / alpha;
+        out[i + 3] = alpha;
+      }
+      return out;
+    } finally {
+      scene.background = background;
+      renderer.setClearColor(clear, clearAlpha);
+      camera.position.copy(position);
+      camera.quaternion.copy(quaternion);
+      if (frustum.aspect !== undefined) {
+        camera.aspect = frustum.aspect;
+      } else if (camera.isOrthographicCamera) {
+        camera.left = frustum.left;
+        camera.right = frustum.right;
+      }
+      camera.updateProjectionMatrix();
+      renderer.setPixelRatio(ratio);
+      renderer.setSize(previous.width, previous.height, false);
+      renderer.render(scene, camera);
+    }
+  }
+
+  // Used by the scene bridge's \`screenshot\` method
+  window.__voxelCapture = function(request) {
+    const data = new Uint8ClampedArray(capture(request));
+    return { width: Math.round(request.width), height: Math.round(request.height), data };
+  };
+})();
+</script>
+  `;
+
+  if (html.includes('</body>')) {
+    return html.replace('</body>', script + '</body>');
+  }
+  return html + script;
+};
+
+/**
+ * Injects picking and live-update support into scenes produced by
+ * renderVoxelSceneHtml. Clicks on voxels (or the ground) are reported to the
+ * parent as `voxel_pick` messages with the grid cell and face normal; the
+ * parent answers with `voxel_grid_update` messages carrying the edited voxels.
+ */
+export const injectVoxelEditor = (html: string): string => {
+  const script = `
+<script>
+(function() {
+  let tool = 'add';
+  let marker = null;
+
+  function init() {
+    if (!window.THREE || !window.voxelMesh || !window.camera || !window.renderer) {
+        setTimeout(init, 100);
+        return;
+    }
+
+    const THREE = window.THREE;
+    const canvas = window.renderer.domElement;
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    const ground = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+
+    const boxEdges = new THREE.EdgesGeometry(new THREE.BoxGeometry(1.02, 1.02, 1.02));
+    const hover = new THREE.LineSegments(boxEdges, new THREE.LineBasicMaterial({ color: 0x000000 }));
+    const start = new THREE.LineSegments(boxEdges, new THREE.LineBasicMaterial({ color: 0x4f46e5 }));
+    hover.visible = false;
+    start.visible = false;
+    window.scene.add(hover, start);
+
+    // Grid cell -> world position, matching the scene template's centring
+    function place(obj, cell) {
+        const [sx, , sz] = window.voxelData.size;
+        obj.position.set(cell[0] - sx / 2 + 0.5, cell[1] + 0.5, cell[2] - sz / 2 + 0.5);
+    }
+
+    function pick(event) {
+        const rect = canvas.getBoundingClientRect();
+        pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+        pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+        raycaster.setFromCamera(pointer, window.camera);
+
+        const hits = raycaster.intersectObject(window.voxelMesh);
+        if (hits.length > 0 && hits[0].instanceId !== undefined) {
+            const i = hits[0].instanceId;
+            const v = window.voxelData.voxels;
+            const n = hits[0].face.normal;
+            return { cell: [v[i * 4], v[i * 4 + 1], v[i * 4 + 2]], normal: [Math.round(n.x), Math.round(n.y), Math.round(n.z)], hit: 'voxel' };
+        }
+
+        const point = raycaster.ray.intersectPlane(ground, new THREE.Vector3());
+        if (!point) return null;
+        const [sx, , sz] = window.voxelData.size;
+        return { cell: [Math.floor(point.x + sx / 2), -1, Math.floor(point.z + sz / 2)], normal: [0, 1, 0], hit: 'ground' };
+    }
+
+    // The cell a click would affect: the neighbour for "add", the voxel itself otherwise
+    function target(result) {
+        if (tool === 'add' || tool === 'box' || result.hit === 'ground') {
+            return result.cell.map((c, i) => c + result.normal[i]);
+        }
+        return result.cell;
+    }
+
+    let downAt = null;
+    canvas.addEventListener('pointerdown', (e) => {
+        if (e.button === 0) downAt = [e.clientX, e.clientY];
+    });
+
+    canvas.addEventListener('pointerup', (e) => {
+        if (!downAt || e.button !== 0) return;
+        const moved = Math.hypot(e.clientX - downAt[0], e.clientY - downAt[1]);
+        downAt = null;
+        // Ignore drags, those orbit the camera
+        if (moved > 4) return;
+        const result = pick(e);
+        if (result) window.parent.postMessage({ type: 'voxel_pick', ...result }, ${PARENT_ORIGIN});
+    });
+
+    canvas.addEventListener('pointermove', (e) => {
+        const result = pick(e);
+        hover.visible = !!result;
+        if (result) place(hover, target(result));
+    });
+
+    canvas.addEventListener('pointerleave', () => { hover.visible = false; });
+
+    window.addEventListener('message', (event) => {
+        if (event.source !== window.parent || !event.data) return;
+        const msg = event.data;
+        if (msg.type === 'voxel_grid_update') {
+            window.setVoxelData(msg.data);
+        } else if (msg.type === 'voxel_editor_state') {
+            tool = msg.tool;
+            marker = msg.marker;
+            start.visible = !!marker;
+            if (marker) place(start, marker);
+        }
+    });
+
+    window.parent.postMessage({ type: 'voxel_editor_ready' }, ${PARENT_ORIGIN});
+  }
+
+  init();
+})();
+</script>
+  `;
+
+  if (html.includes('</body>')) {
+    return html.replace('</body>', script + '</body>');
+  }
+  return html + script;
+};
+
+/**
+ * Injects two-way camera syncing for split views. The OrbitControls instance is
+ * exposed as `window.controls`; user orbits are reported to the parent as
+ * `camera_state` messages and `set_camera` messages move the camera without
+ * echoing back.
+ */
+export const injectCameraSync = (html: string): string => {
+  const regex = /(const|let|var)\s+(\w+)\s*=\s*new\s+(?:THREE\.)?OrbitControls\s*\([^)]+\);/;
+  const exposed = html.replace(regex, (match, keyword, varName) => `${match} window.controls = ${varName};`);
+
+  const script = `
+<script>
+(function() {
+  function init() {
+    const controls = window.controls;
+    if (!controls || !controls.object) {
+        setTimeout(init, 100);
+        return;
+    }
+
+    let applying = false;
+
+    // Read controls.object each time: the camera rig swaps it for an orthographic camera
+    controls.addEventListener('change', () => {
+        if (applying) return;
+        window.parent.postMessage({
+            type: 'camera_state',
+            position: controls.object.position.toArray(),
+            target: controls.target.toArray()
+        }, ${PARENT_ORIGIN});
+    });
+
+    window.addEventListener('message', (event) => {
+        if (event.source !== window.parent || !event.data || event.data.type !== 'set_camera') return;
+        applying = true;
+        controls.object.position.fromArray(event.data.position);
+        controls.target.fromArray(event.data.target);
+        controls.update();
+        applying = false;
+    });
+  }
+
+  init();
+})();
+</script>
+  `;
+
+  if (exposed.includes('</body>')) {
+    return exposed.replace('</body>', script + '</body>');
+  }
+  return exposed + script;
+};
+
+/**
+ * Injects an error reporter ahead of the scene's own scripts. Uncaught errors,
+ * rejected promises, `console.error` calls and failed or blocked loads are
+ * posted to the parent as `scene_error` messages as they happen; `emptyAfterMs`
+ * after load a `scene_health` message sums them up together with the number
+ * of meshes in `window.scene`, so a scene that runs but draws nothing is
+ * caught too.
+ */
+export const injectErrorReporter = (html: string, emptyAfterMs: number = 4000): string => {
+  const script = `
+<script>
+(function() {
+  const MAX_ERRORS = 20;
+  const errors = [];
+
+  function describe(value) {
+    if (value && value.message) return String(value.message);
+    if (typeof value === 'object') {
+      try { return JSON.stringify(value); } catch (e) { return String(value); }
+    }
+    return String(value);
+  }
+
+  function report(kind, message) {
+    message = String(message || 'Unknown error').slice(0, 500);
+    if (errors.length >= MAX_ERRORS || errors.some(e => e.message === message)) return;
+    const error = { kind: kind, message: message };
+    errors.push(error);
+    window.parent.postMessage({ type: 'scene_error', error: error }, ${PARENT_ORIGIN});
+  }
+
+  // Capture phase, so failed <script>/<link> loads are seen as well
+  window.addEventListener('error', (event) => {
+    const target = event.target;
+    if (target && target !== window && target.tagName) {
+      report('resource', 'Failed to load ' + (target.src || target.href || '<' + target.tagName.toLowerCase() + '>'));
+      return;
+    }
+    report('uncaught', (event.message || describe(event.error)) + (event.lineno ? ' (line ' + event.lineno + ')' : ''));
+  }, true);
+
+  window.addEventListener('unhandledrejection', (event) => {
+    report('rejection', describe(event.reason));
+  });
+
+  // Loads refused by the sandbox policy (see injectSandboxPolicy)
+  document.addEventListener('securitypolicyviolation', (event) => {
+    report('resource', 'Blocked by the content security policy (' + event.violatedDirective + '): ' + (event.blockedURI || 'inline'));
+  });
+
+  const consoleError = console.error;
+  console.error = function() {
+    report('console', Array.prototype.map.call(arguments, describe).join(' '));
+    return consoleError.apply(console, arguments);
+  };
+
+  window.addEventListener('load', () => {
+    setTimeout(() => {
+      let meshCount = 0;
+      const scene = window.scene;
+      if (scene && scene.traverse) {
+        scene.traverse(obj => { if (obj.isMesh) meshCount++; });
+      }
+      window.parent.postMessage({
+        type: 'scene_health',
+        health: { errors: errors.slice(), sceneFound: !!scene, meshCount: meshCount, checkedAfterMs: ${emptyAfterMs} }
+      }, ${PARENT_ORIGIN});
+    }, ${emptyAfterMs});
+  });
 })();
 </script>
 `;
 
-  if (modifiedHtml.includes('</body>')) {
-    return modifiedHtml.replace('</body>', script + '</body>');
+  // Must run before anything that can throw
+  const firstScript = html.search(/<script\b/i);
+  if (firstScript !== -1) {
+    return html.slice(0, firstScript) + script + html.slice(firstScript);
+  }
+  return script + html;
+};
+
+// Applies window.__voxelPaletteRemap to window.scene. The first colour seen on
+// each material and instance is remembered, so the list can be re-applied
+// (to meshes added later, or after the parent sends a new list) from scratch.
+const PALETTE_RUNTIME_SCRIPT = `
+<script>
+(function() {
+  if (window.__voxelPaletteRuntime) return;
+
+  const originals = new WeakMap();
+  let applied = false;
+
+  function mapColor(hex) {
+    (window.__voxelPaletteRemap || []).forEach(remap => {
+      if (hex === remap.from) hex = remap.to;
+    });
+    return hex;
+  }
+
+  function recolor(color, original) {
+    const target = mapColor(original);
+    if ('#' + color.getHexString() === target) return false;
+    color.set(target);
+    return true;
+  }
+
+  function apply() {
+    const scene = window.scene;
+    if (!scene || !scene.traverse) return false;
+    if (!applied && !(window.__voxelPaletteRemap || []).length) return false;
+    applied = true;
+
+    scene.traverse(obj => {
+      if (!obj.isMesh) return;
+      const materials = Array.isArray(obj.material) ? obj.material : [obj.material];
+
+      if (obj.isInstancedMesh && obj.instanceColor && materials[0] && materials[0].color) {
+        const color = materials[0].color.clone();
+        const original = originals.get(obj) || [];
+        originals.set(obj, original);
+        let changed = false;
+        for (let i = 0; i < obj.count; i++) {
+          obj.getColorAt(i, color);
+          if (original[i] === undefined) original[i] = '#' + color.getHexString();
+          if (recolor(color, original[i])) {
+            obj.setColorAt(i, color);
+            changed = true;
+          }
+        }
+        if (changed) obj.instanceColor.needsUpdate = true;
+        return;
+      }
+
+      materials.forEach(material => {
+        if (!material || !material.color || !material.color.getHexString) return;
+        if (!originals.has(material)) originals.set(material, '#' + material.color.getHexString());
+        recolor(material.color, originals.get(material));
+      });
+    });
+    return true;
+  }
+
+  // The scene bridge applies stored remaps before it counts colours
+  window.__voxelPaletteRuntime = { apply };
+
+  window.addEventListener('message', (event) => {
+    if (event.source !== window.parent || !event.data || event.data.type !== 'set_palette_remap') return;
+    if (!Array.isArray(event.data.remap)) return;
+    window.__voxelPaletteRemap = event.data.remap.filter(r => r && typeof r.from === 'string' && typeof r.to === 'string');
+    // Previews are not reported, so they don't end up in the saved stats
+    if (apply() && event.data.report && window.__voxelAnalyzeScene) window.__voxelAnalyzeScene();
+  });
+
+  // Once the scene is populated, and again for meshes added while it settles
+  let checks = 0;
+  const interval = setInterval(() => {
+    if (window.scene && window.scene.children && window.scene.children.length > 0) {
+      clearInterval(interval);
+      apply();
+      setTimeout(apply, 1000);
+      setTimeout(apply, 3000);
+    } else if (++checks > 100) {
+      clearInterval(interval);
+    }
+  }, 200);
+})();
+</script>
+`;
+
+const PALETTE_BLOCK = /\n?<!-- voxel-palette -->[\s\S]*?<!-- \/voxel-palette -->\n?/g;
+
+/**
+ * Adds the colour remapping runtime to a scene, so the viewer can recolour it
+ * live with `set_palette_remap` messages (`{ remap, report }`, where `report`
+ * asks for fresh `voxel_stats`). Does nothing to scenes that already
+ * carry it (see writePaletteRemap).
+ */
+export const injectPaletteRuntime = (html: string): string => {
+  if (html.includes('window.__voxelPaletteRuntime')) return html;
+  return appendToBody(html, PALETTE_RUNTIME_SCRIPT);
+};
+
+/**
+ * Stores a list of colour remaps in the scene HTML, together with the runtime
+ * that applies them on load. An empty list removes both.
+ */
+export const writePaletteRemap = (html: string, remaps: ColorRemap[]): string => {
+  const stripped = stripPaletteRemap(html);
+  if (remaps.length === 0) return stripped;
+  const json = JSON.stringify(remaps).replace(/</g, '\\u003c');
+  return appendToBody(stripped, `
+<!-- voxel-palette -->
+<script>window.__voxelPaletteRemap = ${json};</script>${PALETTE_RUNTIME_SCRIPT}<!-- /voxel-palette -->
+`);
+};
+
+/**
+ * Colour remaps stored in a scene by writePaletteRemap.
+ */
+export const readPaletteRemap = (html: string): ColorRemap[] => {
+  const match = html.match(/<!-- voxel-palette -->\s*<script>window\.__voxelPaletteRemap = (.*?);<\/script>/);
+  if (!match) return [];
+  try {
+    const remaps = JSON.parse(match[1]);
+    return Array.isArray(remaps) ? remaps : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * The scene without its stored colour remaps.
+ */
+export const stripPaletteRemap = (html: string): string => html.replace(PALETTE_BLOCK, '');
+
+// Fits the camera and OrbitControls to the scene's bounding sphere once the
+// scene has stopped growing. Exposed as window.__voxelCameraRig, which the
+// scene bridge's `setCamera` uses for view presets and the projection.
+const CAMERA_RIG_SCRIPT = `
+<script>
+(function() {
+  if (window.__voxelCameraRig) return;
+
+  // Directions from the target towards the camera
+  const VIEWS = { iso: [1, 1, 1], front: [0, 0, 1], side: [1, 0, 0], top: [0, 1, 0.0001] };
+  const MARGIN = 1.15;
+  // Set while the scene's perspective camera is swapped for an orthographic one
+  let ortho = null;
+
+  function getCamera() {
+    return window.camera || (window.controls && window.controls.object) || null;
+  }
+
+  function isShown(obj) {
+    for (let o = obj; o; o = o.parent) if (o.visible === false) return false;
+    return true;
   }
-  return modifiedHtml + script;
-};
\ No newline at end of file
+
+  // Meshes that make up the model, with their local bounds. Flat meshes
+  // (ground planes, backdrops), back-facing ones (sky domes) and helpers the
+  // injected tools add are left out.
+  function modelMeshes() {
+    const scene = window.scene;
+    if (!scene || !scene.traverse) return [];
+    scene.updateMatrixWorld(true);
+    const meshes = [];
+
+    scene.traverse(obj => {
+      if (!obj.isMesh || !obj.geometry || !isShown(obj) || obj.userData.voxelHelper) return;
+      const material = Array.isArray(obj.material) ? obj.material[0] : obj.material;
+      if (material && material.side === 1) return;
+
+      let box;
+      if (obj.isInstancedMesh) {
+        if (!obj.computeBoundingBox || obj.count === 0) return;
+        obj.computeBoundingBox();
+        box = obj.boundingBox;
+      } else {
+        if (!obj.geometry.boundingBox) obj.geometry.computeBoundingBox();
+        box = obj.geometry.boundingBox;
+      }
+      if (!box || box.isEmpty()) return;
+      if (Math.min(box.max.x - box.min.x, box.max.y - box.min.y, box.max.z - box.min.z) < 1e-6) return;
+      meshes.push({ obj, box });
+    });
+    return meshes;
+  }
+
+  // World-space bounds of the model
+  function measure() {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+
+    modelMeshes().forEach(({ obj, box }) => {
+      const e = obj.matrixWorld.elements;
+      for (let i = 0; i < 8; i++) {
+        const x = i & 1 ? box.max.x : box.min.x;
+        const y = i & 2 ? box.max.y : box.min.y;
+        const z = i & 4 ? box.max.z : box.min.z;
+        const p = [
+          e[0] * x + e[4] * y + e[8] * z + e[12],
+          e[1] * x + e[5] * y + e[9] * z + e[13],
+          e[2] * x + e[6] * y + e[10] * z + e[14]
+        ];
+        for (let a = 0; a < 3; a++) {
+          min[a] = Math.min(min[a], p[a]);
+          max[a] = Math.max(max[a], p[a]);
+        }
+      }
+    });
+
+    if (min[0] === Infinity) return null;
+    return {
+      min,
+      max,
+      center: [0, 1, 2].map(a => (min[a] + max[a]) / 2),
+      radius: Math.max(Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2, 0.01)
+    };
+  }
+
+  function targetOf(camera) {
+    const controls = window.controls;
+    if (controls && controls.target) return controls.target.clone();
+    return camera.position.clone().set(0, 0, 0);
+  }
+
+  // Frames the model from \`direction\` (default: the current viewing direction)
+  function fit(direction) {
+    const camera = getCamera();
+    const bounds = measure();
+    if (!camera || !bounds) return false;
+    const [cx, cy, cz] = bounds.center;
+    const radius = bounds.radius;
+
+    let dir = direction;
+    if (!dir) {
+      const target = targetOf(camera);
+      dir = [camera.position.x - target.x, camera.position.y - target.y, camera.position.z - target.z];
+    }
+    let length = Math.hypot(dir[0], dir[1], dir[2]);
+    if (length < 1e-9) {
+      dir = VIEWS.iso;
+      length = Math.sqrt(3);
+    }
+
+    // 1. Distance at which the sphere fits the narrower field of view
+    let distance;
+    if (camera.isPerspectiveCamera) {
+      const vertical = (camera.fov || 50) * Math.PI / 360;
+      const horizontal = Math.atan(Math.tan(vertical) * (camera.aspect || 1));
+      distance = radius * MARGIN / Math.sin(Math.min(vertical, horizontal));
+      camera.near = radius / 100;
+      camera.far = Math.max(camera.far, distance * 20);
+    } else {
+      distance = radius * 4;
+      camera.zoom = Math.min(camera.top - camera.bottom, camera.right - camera.left) / (2 * radius * MARGIN);
+      camera.near = -radius * 10;
+      camera.far = Math.max(camera.far, distance * 20);
+    }
+
+    // 2. Camera and orbit limits
+    camera.position.set(cx + dir[0] / length * distance, cy + dir[1] / length * distance, cz + dir[2] / length * distance);
+    camera.updateProjectionMatrix();
+    const controls = window.controls;
+    if (controls && controls.target) {
+      controls.target.set(cx, cy, cz);
+      controls.minDistance = radius * 0.5;
+      controls.maxDistance = distance * 5;
+      controls.minZoom = 0.2;
+      controls.maxZoom = 20;
+      controls.update();
+    } else {
+      camera.lookAt(cx, cy, cz);
+    }
+    return true;
+  }
+
+  // Scenes that do not expose the namespace share the copy the import map loads
+  function loadThree() {
+    return window.THREE ? Promise.resolve(window.THREE) : import('three');
+  }
+
+  // Renders of the scene's own camera go through the orthographic one, since
+  // the scene's render loop holds on to the camera object itself
+  let wrapped = null;
+  function redirectRenders(renderer) {
+    if (renderer === wrapped) return;
+    wrapped = renderer;
+    const render = renderer.render;
+    renderer.render = function(scene, camera) {
+      if (ortho && camera === ortho.perspective) {
+        // Follow the aspect the scene keeps its own camera at
+        const right = ortho.camera.top * (camera.aspect || 1);
+        if (ortho.camera.right !== right) {
+          ortho.camera.right = right;
+          ortho.camera.left = -right;
+          ortho.camera.updateProjectionMatrix();
+        }
+        camera = ortho.camera;
+      }
+      return render.call(this, scene, camera);
+    };
+  }
+
+  // Swaps a perspective camera for an OrthographicCamera showing the same
+  // view, and back. Resolves to false when the scene cannot be switched.
+  function setOrthographic(on) {
+    const camera = getCamera();
+    if (!camera || (!camera.isPerspectiveCamera && !ortho)) return Promise.resolve(false);
+    if (on === !!ortho) return Promise.resolve(true);
+    const controls = window.controls;
+
+    if (!on) {
+      // Keep the apparent size by turning the zoom back into distance
+      const { perspective, exposed } = ortho;
+      const target = targetOf(camera);
+      const distance = camera.top / camera.zoom / Math.tan(perspective.fov * Math.PI / 360);
+      perspective.position.copy(camera.position).sub(target).setLength(distance).add(target);
+      perspective.quaternion.copy(camera.quaternion);
+      perspective.updateProjectionMatrix();
+      ortho = null;
+      if (exposed) window.camera = perspective;
+      if (controls && controls.object === camera) controls.object = perspective;
+      if (controls && controls.update) controls.update();
+      return Promise.resolve(true);
+    }
+
+    const renderer = window.renderer;
+    if (!renderer || !renderer.render) return Promise.resolve(false);
+    return loadThree().then(THREE => {
+      if (ortho || getCamera() !== camera) return !!ortho;
+      const target = targetOf(camera);
+      const halfHeight = camera.position.distanceTo(target) * Math.tan(camera.fov * Math.PI / 360);
+      const halfWidth = halfHeight * (camera.aspect || 1);
+      const orthographic = new THREE.OrthographicCamera(-halfWidth, halfWidth, halfHeight, -halfHeight, camera.near, camera.far);
+      orthographic.position.copy(camera.position);
+      orthographic.quaternion.copy(camera.quaternion);
+      orthographic.up.copy(camera.up);
+      orthographic.updateProjectionMatrix();
+
+      ortho = { camera: orthographic, perspective: camera, exposed: window.camera === camera };
+      redirectRenders(renderer);
+      if (ortho.exposed) window.camera = orthographic;
+      if (controls && controls.object === camera) controls.object = orthographic;
+      if (controls && controls.update) controls.update();
+      return true;
+    });
+  }
+
+  function setView(view) {
+    if (view === 'fit') return fit(null);
+    return VIEWS[view] ? fit(VIEWS[view]) : false;
+  }
+
+  // \`settled\` turns true once the first framing is done (or given up on)
+  const rig = { measure, meshes: () => modelMeshes().map(m => m.obj), fit, setView, setOrthographic, settled: false };
+  window.__voxelCameraRig = rig;
+
+  // Frame once the bounds hold still between two checks
+  let last = null;
+  let checks = 0;
+  (function poll() {
+    const bounds = getCamera() ? measure() : null;
+    if (bounds && last && Math.abs(bounds.radius - last.radius) <= last.radius * 0.01) {
+      fit(null);
+      rig.settled = true;
+      return;
+    }
+    last = bounds;
+    if (++checks < 100) setTimeout(poll, 200);
+    else rig.settled = true;
+  })();
+})();
+</script>
+`;
+
+/**
+ * Adds auto-framing and view presets (see CAMERA_RIG_SCRIPT) to scenes that
+ * do not have them yet, e.g. ones saved before they existed.
+ */
+export const injectCameraRig = (html: string): string => {
+  if (html.includes('window.__voxelCameraRig = ')) return html;
+  return appendToBody(html, CAMERA_RIG_SCRIPT);
+};
+
+// Versioned request/response API the app drives the scene with (see
+// BridgeMethods in utils/sceneMessages.ts). Answers `bridge_request` messages
+// with `bridge_response`, posts `bridge_ready` once the scene holds still (or
+// `bridge_failed` when it never does) and reports clicks that did not orbit
+// the camera as `bridge_event`. Exposed as window.__voxelBridge.
+const bridgeScript = (readyTimeoutMs: number) => `
+<script>
+(function() {
+  if (window.__voxelBridge) return;
+
+  const VERSION = ${BRIDGE_VERSION};
+  let THREE = null;
+  // Last pointer position, in normalised device coordinates
+  let pointer = null;
+  let pressed = null;
+  const lighting = { intensity: 1, ambient: 0, background: null };
+  let ambientLight = null;
+  let authoredBackground;
+${COLLECT_STATS_FUNCTIONS}
+  function post(message, transfer) {
+    window.parent.postMessage(Object.assign({ version: VERSION }, message), ${PARENT_ORIGIN}, transfer || []);
+  }
+
+  // Scenes that do not expose the namespace share the copy the import map loads
+  function loadThree() {
+    THREE = THREE || window.THREE || null;
+    return THREE ? Promise.resolve(THREE) : import('three').then(module => (THREE = module));
+  }
+
+  function requireScene() {
+    if (!window.scene || !window.scene.traverse) throw new Error('The scene does not expose itself.');
+    return window.scene;
+  }
+
+  function requireCamera() {
+    const camera = window.camera || (window.controls && window.controls.object);
+    if (!camera) throw new Error('The scene does not expose its camera.');
+    return camera;
+  }
+
+  function modelMeshes() {
+    if (window.__voxelCameraRig) return window.__voxelCameraRig.meshes();
+    const meshes = [];
+    requireScene().traverse(obj => {
+      if (obj.isMesh && !obj.userData.voxelHelper) meshes.push(obj);
+    });
+    return meshes;
+  }
+
+  function firstMaterial(obj) {
+    return Array.isArray(obj.material) ? obj.material[0] : obj.material;
+  }
+
+  // Whether the section tool cuts \`point\` away
+  function isClipped(point, material) {
+    const planes = material && material.clippingPlanes;
+    if (!planes || planes.length === 0) return false;
+    const outside = planes.map(plane => plane.distanceToPoint(point) < 0);
+    return material.clipIntersection ? outside.every(Boolean) : outside.some(Boolean);
+  }
+
+  function cameraState() {
+    const camera = requireCamera();
+    const target = window.controls && window.controls.target;
+    return {
+      position: camera.position.toArray(),
+      target: target ? target.toArray() : [0, 0, 0],
+      orthographic: !!camera.isOrthographicCamera
+    };
+  }
+
+  const methods = {
+    getStats() {
+      requireScene();
+      // Stored colour remaps may not have been applied yet
+      if (window.__voxelPaletteRuntime && window.__voxelPaletteRuntime.apply) window.__voxelPaletteRuntime.apply();
+      return collectStats();
+    },
+
+    getCamera: cameraState,
+
+    // Presets and the projection go through the camera rig, then an explicit
+    // target and position are applied
+    setCamera(params) {
+      requireCamera();
+      const rig = window.__voxelCameraRig;
+      const projected = params.orthographic !== undefined && rig
+        ? rig.setOrthographic(!!params.orthographic)
+        : Promise.resolve(true);
+      return projected.then(() => {
+        // The projection may have swapped the camera
+        const camera = requireCamera();
+        if (params.view && !(rig && rig.setView(params.view))) throw new Error('Unknown view: ' + params.view);
+        const controls = window.controls;
+        if (params.target && controls && controls.target) controls.target.fromArray(params.target);
+        if (params.position) camera.position.fromArray(params.position);
+        if (controls && controls.update) controls.update();
+        else if (params.target) camera.lookAt(params.target[0], params.target[1], params.target[2]);
+        return cameraState();
+      });
+    },
+
+    setWireframe(params) {
+      const enabled = !!params.enabled;
+      modelMeshes().forEach(obj => {
+        (Array.isArray(obj.material) ? obj.material : [obj.material]).forEach(m => {
+          if (m) m.wireframe = enabled;
+        });
+      });
+      return { enabled };
+    },
+
+    setLighting(params) {
+      const scene = requireScene();
+      return loadThree().then(() => {
+        if (typeof params.intensity === 'number') {
+          lighting.intensity = Math.max(0, params.intensity);
+          scene.traverse(obj => {
+            if (!obj.isLight || obj === ambientLight) return;
+            if (obj.userData.voxelIntensity === undefined) obj.userData.voxelIntensity = obj.intensity;
+            obj.intensity = obj.userData.voxelIntensity * lighting.intensity;
+          });
+        }
+        if (typeof params.ambient === 'number') {
+          lighting.ambient = Math.max(0, params.ambient);
+          if (!ambientLight) {
+            ambientLight = new THREE.AmbientLight(0xffffff, 0);
+            ambientLight.userData.voxelHelper = true;
+            scene.add(ambientLight);
+          }
+          ambientLight.intensity = lighting.ambient;
+        }
+        if (params.background !== undefined) {
+          if (authoredBackground === undefined) authoredBackground = scene.background;
+          lighting.background = /^#[0-9a-f]{6}$/i.test(params.background) ? params.background : null;
+          scene.background = lighting.background ? new THREE.Color(lighting.background) : authoredBackground;
+        }
+        return Object.assign({}, lighting);
+      });
+    },
+
+    screenshot(params) {
+      if (!window.__voxelCapture) throw new Error('This scene cannot be captured.');
+      return window.__voxelCapture(params);
+    },
+
+    pickVoxel(params) {
+      const camera = requireCamera();
+      const at = typeof params.x === 'number' && typeof params.y === 'number' ? params : pointer;
+      if (!at) return null;
+      return loadThree().then(() => {
+        const raycaster = new THREE.Raycaster();
+        raycaster.setFromCamera(new THREE.Vector2(at.x, at.y), camera);
+        const hit = raycaster.intersectObjects(modelMeshes(), false)
+          .find(h => !isClipped(h.point, firstMaterial(h.object)));
+        if (!hit) return null;
+
+        // The hit mesh, or instance, and its colour
+        const obj = hit.object;
+        const material = firstMaterial(obj);
+        const matrix = obj.matrixWorld.clone();
+        const color = material && material.color ? material.color.clone() : new THREE.Color(0xffffff);
+        if (obj.isInstancedMesh && hit.instanceId !== undefined) {
+          obj.getMatrixAt(hit.instanceId, matrix);
+          matrix.premultiply(obj.matrixWorld);
+          if (obj.instanceColor) obj.getColorAt(hit.instanceId, color);
+        }
+
+        if (!obj.geometry.boundingBox) obj.geometry.computeBoundingBox();
+        const box = obj.geometry.boundingBox;
+        const normal = hit.face ? hit.face.normal.clone().transformDirection(matrix) : new THREE.Vector3();
+        return {
+          point: hit.point.toArray(),
+          normal: normal.toArray(),
+          center: box.getCenter(new THREE.Vector3()).applyMatrix4(matrix).toArray(),
+          size: box.getSize(new THREE.Vector3()).multiply(new THREE.Vector3().setFromMatrixScale(matrix)).toArray(),
+          color: '#' + color.getHexString()
+        };
+      });
+    }
+  };
+
+  window.__voxelBridge = { version: VERSION, methods };
+
+  window.addEventListener('message', (event) => {
+    const data = event.data;
+    if (event.source !== window.parent || !data || data.type !== 'bridge_request') return;
+    const reply = (message, transfer) => post(Object.assign({ type: 'bridge_response', requestId: data.requestId }, message), transfer);
+    if (data.version !== VERSION) {
+      reply({ ok: false, error: 'The scene speaks bridge version ' + VERSION + ', not ' + data.version + '.' });
+      return;
+    }
+    if (!Object.prototype.hasOwnProperty.call(methods, data.method)) {
+      reply({ ok: false, error: 'Unknown method: ' + data.method });
+      return;
+    }
+    Promise.resolve()
+      .then(() => methods[data.method](data.params || {}))
+      .then(result => {
+        // Images travel as transferable buffers
+        const transfer = result && result.data instanceof Uint8ClampedArray ? [result.data.buffer] : [];
+        reply({ ok: true, result: result === undefined ? null : result }, transfer);
+      }, error => reply({ ok: false, error: String(error && error.message || error) }));
+  });
+
+  function toDevice(event) {
+    const canvas = window.renderer && window.renderer.domElement;
+    const rect = canvas && canvas.getBoundingClientRect().width > 0
+      ? canvas.getBoundingClientRect()
+      : { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight };
+    return {
+      x: (event.clientX - rect.left) / rect.width * 2 - 1,
+      y: -(event.clientY - rect.top) / rect.height * 2 + 1
+    };
+  }
+
+  window.addEventListener('pointermove', (event) => {
+    pointer = toDevice(event);
+  });
+  window.addEventListener('pointerdown', (event) => {
+    pressed = { x: event.clientX, y: event.clientY };
+  });
+  window.addEventListener('pointerup', (event) => {
+    if (pressed && Math.hypot(event.clientX - pressed.x, event.clientY - pressed.y) < 4) {
+      pointer = toDevice(event);
+      post({ type: 'bridge_event', event: 'click', x: pointer.x, y: pointer.y });
+    }
+    pressed = null;
+  });
+
+  // Ready once the scene has meshes, their number holds still between two
+  // checks and the camera rig has framed them. A scene that gets there within
+  // the time limit is waited for; after that the app is told why it can't
+  // drive the scene.
+  const started = Date.now();
+  let last = -1;
+  let checks = 0;
+  (function poll() {
+    const rig = window.__voxelCameraRig;
+    const found = !!(window.scene && window.scene.traverse);
+    let count = 0;
+    if (found) {
+      window.scene.traverse(obj => {
+        if (obj.isMesh && !obj.userData.voxelHelper) count++;
+      });
+    }
+    // Rigs saved before \`settled\` existed do not have it
+    if (count > 0 && count === last && !(rig && rig.settled === false)) {
+      post({ type: 'bridge_ready', methods: Object.keys(methods) });
+      return;
+    }
+    if (Date.now() - started >= ${readyTimeoutMs}) {
+      const seconds = Math.round(${readyTimeoutMs} / 1000);
+      post({
+        type: 'bridge_failed',
+        reason: !found ? 'The scene does not expose its THREE.Scene.'
+          : count === 0 ? 'The scene has no meshes after ' + seconds + 's.'
+          : 'The scene was still changing after ' + seconds + 's.'
+      });
+      return;
+    }
+    last = count;
+    setTimeout(poll, ++checks < 50 ? 100 : 1000);
+  })();
+})();
+</script>
+`;
+
+/**
+ * Adds the scene bridge (see bridgeScript) to a scene shown in the app.
+ * Screenshots need injectSceneCapture as well. A scene that is not ready
+ * within `readyTimeoutMs` posts `bridge_failed` with the reason instead.
+ */
+export const injectSceneBridge = (html: string, readyTimeoutMs: number = 60000): string => {
+  if (html.includes('window.__voxelBridge = ')) return html;
+  return appendToBody(html, bridgeScript(readyTimeoutMs));
+};
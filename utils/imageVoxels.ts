@@ -0,0 +1,330 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { MAX_GRID_COLORS, MAX_GRID_SIZE } from "./voxelGrid";
+import { hexToRgb, rgbToHex } from "./voxels";
+import type { GridVoxel, VoxelModel } from "../types";
+
+export type Quantizer = 'median-cut' | 'k-means';
+
+// How the depth of each column is chosen: the same everywhere (an extrusion)
+// or from the pixel's brightness, bright or dark parts standing out
+export type ReliefMode = 'flat' | 'brightness' | 'darkness';
+
+export interface LocalVoxelOptions {
+  resolution: number; // Voxels along the image's longer side
+  colors: number;
+  depth: number; // Deepest column, in voxels
+  relief: ReliefMode;
+  quantizer: Quantizer;
+  removeBackground: boolean;
+}
+
+export const DEFAULT_LOCAL_OPTIONS: LocalVoxelOptions = {
+  resolution: 48,
+  colors: 16,
+  depth: 6,
+  relief: 'brightness',
+  quantizer: 'k-means',
+  removeBackground: true,
+};
+
+export const MAX_LOCAL_DEPTH = 32;
+
+/**
+ * RGBA pixels, row by row (the layout of ImageData).
+ */
+export interface PixelImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+type Rgb = [number, number, number];
+
+const KMEANS_ITERATIONS = 10;
+// Squared RGB distance within which a pixel counts as background colour
+const BACKGROUND_TOLERANCE = 48 ** 2;
+
+const distance = (a: Rgb, b: Rgb): number =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const luminance = (c: Rgb): number => (0.2126 * c[0] + 0.7152 * c[1] + 0.0722 * c[2]) / 255;
+
+const nearest = (color: Rgb, palette: Rgb[]): number => {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const d = distance(color, palette[i]);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = i;
+    }
+  }
+  return best;
+};
+
+/**
+ * Scales an image down so its longer side is `resolution` pixels, averaging
+ * the source pixels each target pixel covers. Colours are weighted by alpha so
+ * transparent edges do not darken the result.
+ */
+export const downsampleImage = (image: PixelImage, resolution: number): { width: number; height: number; colors: Rgb[]; alpha: number[] } => {
+  const scale = Math.min(1, resolution / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const colors: Rgb[] = [];
+  const alpha: number[] = [];
+
+  for (let ty = 0; ty < height; ty++) {
+    const y0 = Math.floor(ty * image.height / height);
+    const y1 = Math.max(y0 + 1, Math.floor((ty + 1) * image.height / height));
+    for (let tx = 0; tx < width; tx++) {
+      const x0 = Math.floor(tx * image.width / width);
+      const x1 = Math.max(x0 + 1, Math.floor((tx + 1) * image.width / width));
+
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * image.width + x) * 4;
+          const w = image.data[i + 3];
+          r += image.data[i] * w;
+          g += image.data[i + 1] * w;
+          b += image.data[i + 2] * w;
+          a += w;
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      colors.push(a > 0 ? [r / a, g / a, b / a] : [0, 0, 0]);
+      alpha.push(a / count);
+    }
+  }
+
+  return { width, height, colors, alpha };
+};
+
+/**
+ * Marks background pixels: transparent ones and, when `floodFill` is set, the
+ * region connected to the image border whose colour matches the most common
+ * border colour (the plain backdrop generated images are asked for).
+ */
+export const findBackground = (width: number, height: number, colors: Rgb[], alpha: number[], floodFill: boolean): boolean[] => {
+  const background = alpha.map(a => a < 128);
+  if (!floodFill) return background;
+
+  // 1. Most common border colour, bucketed to 4 bits per channel
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) border.push(y * width, y * width + width - 1);
+
+  const buckets = new Map<number, { count: number; sum: Rgb }>();
+  border.forEach(i => {
+    if (background[i]) return;
+    const c = colors[i];
+    const key = ((c[0] >> 4) << 8) | ((c[1] >> 4) << 4) | (c[2] >> 4);
+    const bucket = buckets.get(key) || { count: 0, sum: [0, 0, 0] };
+    bucket.count++;
+    bucket.sum = [bucket.sum[0] + c[0], bucket.sum[1] + c[1], bucket.sum[2] + c[2]];
+    buckets.set(key, bucket);
+  });
+  const top = Array.from(buckets.values()).reduce<{ count: number; sum: Rgb } | null>(
+    (best, bucket) => !best || bucket.count > best.count ? bucket : best, null);
+  if (!top) return background;
+  const backdrop: Rgb = [top.sum[0] / top.count, top.sum[1] / top.count, top.sum[2] / top.count];
+
+  // 2. Flood fill from the border through matching pixels
+  const stack = border.filter(i => !background[i] && distance(colors[i], backdrop) <= BACKGROUND_TOLERANCE);
+  stack.forEach(i => { background[i] = true; });
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const neighbours = [
+      x > 0 ? i - 1 : -1,
+      x < width - 1 ? i + 1 : -1,
+      i - width,
+      i + width,
+    ];
+    neighbours.forEach(n => {
+      if (n < 0 || n >= colors.length || background[n]) return;
+      if (distance(colors[n], backdrop) > BACKGROUND_TOLERANCE) return;
+      background[n] = true;
+      stack.push(n);
+    });
+  }
+
+  return background;
+};
+
+/**
+ * Median cut: repeatedly splits the box of colours with the widest channel
+ * range at its median, then averages each box. Deterministic for a given input.
+ */
+export const medianCut = (colors: Rgb[], count: number): Rgb[] => {
+  if (colors.length === 0) return [];
+  const range = (box: Rgb[], channel: number) => {
+    let min = Infinity, max = -Infinity;
+    box.forEach(c => {
+      min = Math.min(min, c[channel]);
+      max = Math.max(max, c[channel]);
+    });
+    return max - min;
+  };
+
+  const boxes: Rgb[][] = [colors.slice()];
+  while (boxes.length < count) {
+    // Widest box (and channel) that can still be split
+    let target = -1, channel = 0, widest = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        const r = range(box, c);
+        if (r > widest) {
+          widest = r;
+          target = i;
+          channel = c;
+        }
+      }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target].sort((a, b) => a[channel] - b[channel]);
+    const half = Math.floor(box.length / 2);
+    boxes.splice(target, 1, box.slice(0, half), box.slice(half));
+  }
+
+  return boxes.map(box => {
+    const sum = box.reduce<Rgb>((s, c) => [s[0] + c[0], s[1] + c[1], s[2] + c[2]], [0, 0, 0]);
+    return [sum[0] / box.length, sum[1] / box.length, sum[2] / box.length];
+  });
+};
+
+/**
+ * Refines a palette with Lloyd's k-means iterations; clusters that end up
+ * empty keep their previous centre.
+ */
+export const kMeans = (colors: Rgb[], initial: Rgb[], iterations: number = KMEANS_ITERATIONS): Rgb[] => {
+  let centres = initial.map(c => [...c] as Rgb);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sums = centres.map(() => [0, 0, 0, 0]);
+    colors.forEach(c => {
+      const s = sums[nearest(c, centres)];
+      s[0] += c[0];
+      s[1] += c[1];
+      s[2] += c[2];
+      s[3]++;
+    });
+    const next = centres.map((centre, i): Rgb => {
+      const [r, g, b, n] = sums[i];
+      return n > 0 ? [r / n, g / n, b / n] : centre;
+    });
+    const moved = next.some((c, i) => distance(c, centres[i]) > 0.25);
+    centres = next;
+    if (!moved) break;
+  }
+  return centres;
+};
+
+/**
+ * Quantizes colours to `count` entries, or maps them onto a `fixed` palette.
+ * The palette is returned most used colour first, unused entries dropped;
+ * `assigned` holds each colour's index into it.
+ */
+const quantize = (pixels: Rgb[], count: number, quantizer: Quantizer, fixed: string[] | null): { palette: string[]; assigned: number[] } => {
+  let centres = fixed ? fixed.map(hexToRgb) : medianCut(pixels, count);
+  if (!fixed && quantizer === 'k-means') centres = kMeans(pixels, centres);
+  const nearestIndex = pixels.map(c => nearest(c, centres));
+
+  const usage = centres.map(() => 0);
+  nearestIndex.forEach(c => usage[c]++);
+  const order = centres.map((_, i) => i).filter(i => usage[i] > 0).sort((a, b) => usage[b] - usage[a] || a - b);
+  const remap = new Map(order.map((old, i) => [old, i]));
+
+  return {
+    palette: order.map(i => fixed ? fixed[i] : rgbToHex(...centres[i])),
+    assigned: nearestIndex.map(c => remap.get(c)!),
+  };
+};
+
+/**
+ * Converts an image into a voxel relief without any model call: the image is
+ * scaled to `resolution`, its background removed, its colours quantized to
+ * `colors` (or mapped onto `palette` when given) and every remaining pixel
+ * becomes a column of voxels standing up in the XY plane, `depth` deep (or
+ * less, following brightness). The result only depends on the pixels and the
+ * options.
+ */
+export const imageToVoxelModel = (image: PixelImage, options: LocalVoxelOptions, palette: string[] | null = null): VoxelModel => {
+  const resolution = Math.max(1, Math.min(MAX_GRID_SIZE, Math.round(options.resolution)));
+  const colorCount = Math.max(1, Math.min(MAX_GRID_COLORS, Math.round(options.colors)));
+  const depth = Math.max(1, Math.min(MAX_LOCAL_DEPTH, Math.round(options.depth)));
+
+  // 1. Scale down and drop the background
+  const { width, height, colors, alpha } = downsampleImage(image, resolution);
+  const background = findBackground(width, height, colors, alpha, options.removeBackground);
+
+  let minX = width, maxX = -1, minY = height, maxY = -1;
+  const foreground: number[] = [];
+  background.forEach((isBackground, i) => {
+    if (isBackground) return;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+    foreground.push(i);
+  });
+  if (foreground.length === 0) {
+    throw new Error("Nothing left to voxelize once the background is removed.");
+  }
+
+  // 2. Quantize the foreground colours
+  const { palette: hexPalette, assigned } = quantize(foreground.map(i => colors[i]), colorCount, options.quantizer, palette);
+
+  // 3. One column per pixel; the top image row becomes the highest layer
+  const sizeX = maxX - minX + 1;
+  const sizeY = maxY - minY + 1;
+  const voxels: GridVoxel[] = [];
+  foreground.forEach((i, n) => {
+    const x = i % width - minX;
+    const y = maxY - Math.floor(i / width);
+    const level = options.relief === 'brightness' ? luminance(colors[i])
+      : options.relief === 'darkness' ? 1 - luminance(colors[i])
+      : 1;
+    const columnDepth = 1 + Math.round(level * (depth - 1));
+    const color = assigned[n];
+    for (let z = 0; z < columnDepth; z++) {
+      voxels.push({ x, y, z, color });
+    }
+  });
+
+  return { size: [sizeX, sizeY, depth], palette: hexPalette, voxels };
+};
+
+/**
+ * The main colours of an image's subject (its plain background left out),
+ * most common first.
+ */
+export const extractImagePalette = (image: PixelImage, count: number): string[] => {
+  const { width, height, colors, alpha } = downsampleImage(image, MAX_GRID_SIZE);
+  const background = findBackground(width, height, colors, alpha, true);
+  let pixels = colors.filter((_, i) => !background[i]);
+  // A photo with no backdrop: use all of it
+  if (pixels.length === 0) pixels = colors.filter((_, i) => alpha[i] >= 128);
+  if (pixels.length === 0) return [];
+  return quantize(pixels, count, 'k-means', null).palette;
+};
+
+/**
+ * Human-readable summary of the settings, stored as the version's prompt.
+ */
+export const describeLocalOptions = (options: LocalVoxelOptions, palette: string[] | null = null): string => {
+  const relief = options.relief === 'flat' ? `flat extrusion ${options.depth} deep`
+    : `${options.relief} relief up to ${options.depth} deep`;
+  const colors = palette ? `palette of ${palette.length} colours (${palette.join(', ')})` : `${options.colors} colours (${options.quantizer})`;
+  return `Local conversion: ${options.resolution} voxels wide, ${colors}, ${relief}` +
+    (options.removeBackground ? ', background removed.' : '.');
+};
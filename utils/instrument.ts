@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { parse, type ImportDeclaration, type NewExpression } from "acorn";
+import { simple } from "acorn-walk";
+import { PARENT_ORIGIN } from "./sandbox";
+import type { SceneHookKind } from "../types";
+
+// Constructors whose instances the injected tools need, by class name
+const HOOKED_CLASSES: Record<string, SceneHookKind> = {
+  Scene: 'scene',
+  WebGLRenderer: 'renderer',
+  PerspectiveCamera: 'camera',
+  OrthographicCamera: 'camera',
+  OrbitControls: 'controls',
+};
+
+// Inline scripts that contain JavaScript (not import maps, JSON or external files)
+const SCRIPT_REGEX = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+const JS_TYPE_REGEX = /\btype\s*=\s*["']?(module|text\/javascript|application\/javascript)["']?/i;
+
+export interface InstrumentResult {
+  html: string;
+  found: SceneHookKind[]; // Kinds with at least one wrapped construction
+}
+
+interface Insertion {
+  at: number;
+  text: string;
+}
+
+/**
+ * Rewrites one script so every construction of a hooked class is passed
+ * through `window.__voxelHook(kind, ...)`, whatever it is assigned to
+ * (declaration, later assignment, property, destructuring source, return
+ * value...). Also exposes `import * as X from 'three'` as `window.THREE`.
+ * Returns null when the script does not parse.
+ */
+const instrumentScript = (code: string, isModule: boolean, found: Set<SceneHookKind>): string | null => {
+  let ast;
+  try {
+    ast = parse(code, { ecmaVersion: 'latest', sourceType: isModule ? 'module' : 'script', allowAwaitOutsideFunction: true });
+  } catch {
+    return null;
+  }
+
+  const insertions: Insertion[] = [];
+
+  simple(ast, {
+    NewExpression(node: NewExpression) {
+      const callee = node.callee;
+      const name = callee.type === 'Identifier'
+        ? callee.name
+        : callee.type === 'MemberExpression' && !callee.computed && callee.property.type === 'Identifier'
+          ? callee.property.name
+          : null;
+      const kind = name ? HOOKED_CLASSES[name] : undefined;
+      if (!kind) return;
+      found.add(kind);
+      insertions.push({ at: node.start, text: `window.__voxelHook(${JSON.stringify(kind)}, ` });
+      insertions.push({ at: node.end, text: ')' });
+    },
+    ImportDeclaration(node: ImportDeclaration) {
+      if (node.source.value !== 'three') return;
+      const namespace = node.specifiers.find(s => s.type === 'ImportNamespaceSpecifier');
+      if (namespace) insertions.push({ at: node.end, text: ` window.THREE = ${namespace.local.name};` });
+    },
+  });
+
+  // Apply from the end so earlier offsets stay valid
+  insertions.sort((a, b) => b.at - a.at);
+  let result = code;
+  insertions.forEach(({ at, text }) => {
+    result = result.slice(0, at) + text + result.slice(at);
+  });
+  return result;
+};
+
+/**
+ * Runtime for the hooks: records each kind the first time it is constructed,
+ * exposes the instance on window for the injected tools and applies the same
+ * tweaks the regex pipeline used to (clipping, smooth controls).
+ * Once the page has loaded, the outcome is posted to the parent as a
+ * `scene_instrumentation` message.
+ */
+const hookRuntime = (parsed: boolean): string => `
+<script>
+(function() {
+  const report = { parsed: ${parsed}, hooks: { scene: false, renderer: false, camera: false, controls: false } };
+
+  window.__voxelHook = function(kind, obj) {
+    if (report.hooks[kind] || !obj) return obj;
+    try {
+      if (kind === 'scene') {
+        window.scene = obj;
+      } else if (kind === 'renderer') {
+        obj.localClippingEnabled = true;
+        window.renderer = obj;
+      } else if (kind === 'camera') {
+        window.camera = obj;
+      } else if (kind === 'controls') {
+        obj.enableDamping = true;
+        obj.dampingFactor = 0.05;
+        obj.zoomSpeed = 0.8;
+        obj.rotateSpeed = 0.6;
+        window.controls = obj;
+      }
+      report.hooks[kind] = true;
+    } catch (e) {
+      console.warn('Scene hook failed for ' + kind, e);
+    }
+    return obj;
+  };
+
+  window.addEventListener('load', () => {
+    setTimeout(() => {
+      // Without the AST pass only the pattern-matched scene exposure can have worked
+      if (!report.parsed) report.hooks.scene = !!window.scene;
+      window.parent.postMessage({ type: 'scene_instrumentation', report }, ${PARENT_ORIGIN});
+    }, 0);
+  });
+})();
+</script>
+`;
+
+/**
+ * Parses every inline script of a scene and instruments it (see
+ * instrumentScript). Returns null if there is no script or one of them fails
+ * to parse, e.g. because the model's output was cut off.
+ */
+export const instrumentSceneHtml = (html: string): InstrumentResult | null => {
+  const found = new Set<SceneHookKind>();
+  let scriptCount = 0;
+  let failed = false;
+
+  const instrumented = html.replace(SCRIPT_REGEX, (match, attrs: string, code: string) => {
+    if (failed || /\bsrc\s*=/i.test(attrs)) return match;
+    const typed = attrs.match(JS_TYPE_REGEX);
+    if (/\btype\s*=/i.test(attrs) && !typed) return match;
+
+    scriptCount++;
+    const result = instrumentScript(code, typed?.[1].toLowerCase() === 'module', found);
+    if (result === null) {
+      failed = true;
+      return match;
+    }
+    return `<script${attrs}>${result}</script>`;
+  });
+
+  if (failed || scriptCount === 0) return null;
+  return { html: insertHookRuntime(instrumented, true), found: Array.from(found) };
+};
+
+/**
+ * Adds the hook runtime ahead of the scene's own scripts. With `parsed` false
+ * it only reports, for scenes handled by the regex fallback.
+ */
+export const insertHookRuntime = (html: string, parsed: boolean): string => {
+  const runtime = hookRuntime(parsed);
+  const firstScript = html.search(/<script\b/i);
+  if (firstScript !== -1) {
+    return html.slice(0, firstScript) + runtime + html.slice(firstScript);
+  }
+  return runtime + html;
+};
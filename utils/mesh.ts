@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { VoxelModel } from "../types";
+import { hexToRgb } from "./voxels";
+
+/**
+ * Indexed triangle mesh with per-vertex normals and linear RGB colours.
+ */
+export interface MeshData {
+  positions: Float32Array;
+  normals: Float32Array;
+  colors: Float32Array;
+  indices: Uint32Array;
+}
+
+const srgbToLinear = (c: number): number => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+// Dense grids above this many cells would need hundreds of MB of memory
+const MAX_GRID_CELLS = 64 * 1024 * 1024;
+
+/**
+ * Fills a dense grid with `color + 1` for every voxel (0 means empty).
+ */
+export const buildDenseGrid = (model: VoxelModel): Int32Array => {
+  const [sx, sy, sz] = model.size;
+  if (sx * sy * sz > MAX_GRID_CELLS) {
+    throw new Error("This scene is too large to convert to a mesh.");
+  }
+  const grid = new Int32Array(sx * sy * sz);
+  model.voxels.forEach(v => {
+    grid[v.x + sx * (v.y + sy * v.z)] = v.color + 1;
+  });
+  return grid;
+};
+
+/**
+ * Builds a greedy mesh of the model: coplanar faces of the same colour are
+ * merged into as few rectangles as possible, and faces between two solid
+ * voxels are dropped. The mesh is centred on X/Z and rests on Y = 0, one unit
+ * per voxel.
+ */
+export const greedyMesh = (model: VoxelModel): MeshData => {
+  const dims = model.size;
+  const grid = buildDenseGrid(model);
+  const linearPalette = model.palette.map(hex => hexToRgb(hex).map(srgbToLinear));
+  const center = [dims[0] / 2, 0, dims[2] / 2];
+
+  const get = (x: number, y: number, z: number) => grid[x + dims[0] * (y + dims[1] * z)];
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const colors: number[] = [];
+  const indices: number[] = [];
+
+  for (let d = 0; d < 3; d++) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const x = [0, 0, 0];
+    const q = [0, 0, 0];
+    q[d] = 1;
+    const mask = new Int32Array(dims[u] * dims[v]);
+
+    for (x[d] = -1; x[d] < dims[d];) {
+      // 1. Compute the face mask for the plane between slice x[d] and x[d] + 1.
+      // Positive values are faces pointing +d, negative values faces pointing -d.
+      let n = 0;
+      for (x[v] = 0; x[v] < dims[v]; x[v]++) {
+        for (x[u] = 0; x[u] < dims[u]; x[u]++) {
+          const a = x[d] >= 0 ? get(x[0], x[1], x[2]) : 0;
+          const b = x[d] < dims[d] - 1 ? get(x[0] + q[0], x[1] + q[1], x[2] + q[2]) : 0;
+          mask[n++] = (a !== 0) === (b !== 0) ? 0 : a !== 0 ? a : -b;
+        }
+      }
+      x[d]++;
+
+      // 2. Merge equal mask cells into rectangles
+      n = 0;
+      for (let j = 0; j < dims[v]; j++) {
+        for (let i = 0; i < dims[u];) {
+          const c = mask[n];
+          if (c === 0) {
+            i++;
+            n++;
+            continue;
+          }
+
+          let w = 1;
+          while (i + w < dims[u] && mask[n + w] === c) w++;
+
+          let h = 1;
+          grow: for (; j + h < dims[v]; h++) {
+            for (let k = 0; k < w; k++) {
+              if (mask[n + k + h * dims[u]] !== c) break grow;
+            }
+          }
+
+          x[u] = i;
+          x[v] = j;
+          const du = [0, 0, 0];
+          const dv = [0, 0, 0];
+          // Swap the edges for back faces to keep counter-clockwise winding
+          if (c > 0) {
+            du[u] = w;
+            dv[v] = h;
+          } else {
+            du[v] = h;
+            dv[u] = w;
+          }
+
+          const base = positions.length / 3;
+          const corners = [
+            [x[0], x[1], x[2]],
+            [x[0] + du[0], x[1] + du[1], x[2] + du[2]],
+            [x[0] + du[0] + dv[0], x[1] + du[1] + dv[1], x[2] + du[2] + dv[2]],
+            [x[0] + dv[0], x[1] + dv[1], x[2] + dv[2]],
+          ];
+          const color = linearPalette[Math.abs(c) - 1];
+          const sign = c > 0 ? 1 : -1;
+
+          corners.forEach(corner => {
+            positions.push(corner[0] - center[0], corner[1] - center[1], corner[2] - center[2]);
+            normals.push(q[0] * sign, q[1] * sign, q[2] * sign);
+            colors.push(color[0], color[1], color[2]);
+          });
+          indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+
+          // Clear the merged cells
+          for (let l = 0; l < h; l++) {
+            for (let k = 0; k < w; k++) {
+              mask[n + k + l * dims[u]] = 0;
+            }
+          }
+          i += w;
+          n += w;
+        }
+      }
+    }
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    colors: new Float32Array(colors),
+    indices: new Uint32Array(indices),
+  };
+};
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { hexToRgb, nearestColorIndex } from "./voxels";
+import { MAX_GRID_COLORS } from "./voxelGrid";
+import type { VoxelGrid, VoxelStat } from "../types";
+
+export interface PalettePreset {
+  id: string;
+  label: string;
+  colors: string[];
+}
+
+export const PALETTE_PRESETS: PalettePreset[] = [
+  {
+    id: 'pico8',
+    label: 'PICO-8',
+    colors: [
+      '#000000', '#1d2b53', '#7e2553', '#008751', '#ab5236', '#5f574f', '#c2c3c7', '#fff1e8',
+      '#ff004d', '#ffa300', '#ffec27', '#00e436', '#29adff', '#83769c', '#ff77a8', '#ffccaa',
+    ],
+  },
+  {
+    id: 'blocks',
+    label: 'Minecraft-like',
+    colors: [
+      '#5d9b3a', '#3f7f2a', '#866043', '#6b5130', '#a2834f', '#7d7d7d', '#6e6e6e', '#dbcfa3',
+      '#3f76e4', '#f9fefe', '#d96415', '#f9d849', '#5decf5', '#aa0f01', '#14121d', '#966153',
+    ],
+  },
+  {
+    id: 'gameboy',
+    label: 'Game Boy',
+    colors: ['#0f380f', '#306230', '#8bac0f', '#9bbc0f'],
+  },
+];
+
+// Two colours closer than this (squared RGB distance) count as the same
+const SAME_COLOR_DISTANCE = 3 * 4 ** 2;
+
+const HEX_TOKEN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Parses a list of hex colours separated by commas, spaces or new lines.
+ * Accepts #RGB and #RRGGBB with or without `#`; duplicates are dropped.
+ */
+export const parseHexList = (text: string): { colors: string[]; invalid: string[] } => {
+  const colors: string[] = [];
+  const invalid: string[] = [];
+  text.split(/[\s,;]+/).filter(Boolean).forEach(token => {
+    const match = token.match(HEX_TOKEN);
+    if (!match) {
+      invalid.push(token);
+      return;
+    }
+    const digits = match[1].length === 3 ? match[1].split('').map(d => d + d).join('') : match[1];
+    const hex = `#${digits.toLowerCase()}`;
+    if (!colors.includes(hex)) colors.push(hex);
+  });
+  return { colors: colors.slice(0, MAX_GRID_COLORS), invalid };
+};
+
+const isSameColor = (a: string, b: string): boolean => {
+  const [r1, g1, b1] = hexToRgb(a);
+  const [r2, g2, b2] = hexToRgb(b);
+  return (r1 - r2) ** 2 + (g1 - g2) ** 2 + (b1 - b2) ** 2 <= SAME_COLOR_DISTANCE;
+};
+
+/**
+ * Colours of a scene's stats that are not in the target palette.
+ */
+export const findOffPaletteColors = (stats: VoxelStat[], palette: string[]): VoxelStat[] =>
+  stats.filter(stat => !palette.some(color => isSameColor(stat.color, color)));
+
+/**
+ * Replaces every palette entry of a grid with its nearest allowed colour.
+ */
+export const snapGridToPalette = (grid: VoxelGrid, palette: string[]): VoxelGrid => ({
+  ...grid,
+  palette: grid.palette.map(color => palette[nearestColorIndex(color, palette)]),
+});
+
+/**
+ * A colour change applied to a scene: every voxel currently `from` becomes `to`.
+ */
+export interface ColorRemap {
+  from: string;
+  to: string;
+}
+
+/**
+ * Applies a remap to colour stats, merging counts when `to` was already used.
+ */
+export const remapStats = (stats: VoxelStat[], remap: ColorRemap): VoxelStat[] => {
+  const counts = new Map<string, number>();
+  stats.forEach(stat => {
+    const color = stat.color === remap.from ? remap.to : stat.color;
+    counts.set(color, (counts.get(color) || 0) + stat.count);
+  });
+  return Array.from(counts, ([color, count]) => ({ color, count })).sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Remaps that take each off-palette colour of the stats to its nearest allowed colour.
+ */
+export const getSnapRemaps = (stats: VoxelStat[], palette: string[]): ColorRemap[] =>
+  findOffPaletteColors(stats, palette).map(stat => ({ from: stat.color, to: palette[nearestColorIndex(stat.color, palette)] }));
+
+/**
+ * Applies stored remaps (see writePaletteRemap) to a grid's palette, in order,
+ * the same way the scene's palette runtime recolours it on load.
+ */
+export const remapGridPalette = (grid: VoxelGrid, remaps: ColorRemap[]): VoxelGrid => ({
+  ...grid,
+  palette: grid.palette.map(color => remaps.reduce((hex, remap) => hex === remap.from ? remap.to : hex, color)),
+});
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Drawing operations in points, with the origin at the top-left of the page
+export type DrawOp =
+  | { kind: 'rect'; x: number; y: number; w: number; h: number; fill?: string; stroke?: string }
+  | { kind: 'text'; x: number; y: number; size: number; text: string; color?: string; bold?: boolean };
+
+export interface DrawPage {
+  width: number;
+  height: number;
+  ops: DrawOp[];
+}
+
+// A4 portrait, in points
+export const A4_WIDTH = 595;
+export const A4_HEIGHT = 842;
+
+const num = (n: number) => Number(n.toFixed(2)).toString();
+
+const rgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => num(c / 255)).join(' ');
+};
+
+// The standard fonts only cover Latin-1; anything else becomes '?'
+const escapeText = (text: string) =>
+  text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?').replace(/([\\()])/g, '\\$1');
+
+const pageContent = (page: DrawPage): string => {
+  const lines: string[] = ['0.5 w'];
+  page.ops.forEach(op => {
+    if (op.kind === 'rect') {
+      const y = page.height - op.y - op.h;
+      if (op.fill) lines.push(`${rgb(op.fill)} rg`);
+      if (op.stroke) lines.push(`${rgb(op.stroke)} RG`);
+      const paint = op.fill && op.stroke ? 'B' : op.fill ? 'f' : 'S';
+      lines.push(`${num(op.x)} ${num(y)} ${num(op.w)} ${num(op.h)} re ${paint}`);
+    } else {
+      // Text y is the baseline
+      lines.push(`BT /${op.bold ? 'F2' : 'F1'} ${num(op.size)} Tf ${rgb(op.color || '#000000')} rg ${num(op.x)} ${num(page.height - op.y)} Td (${escapeText(op.text)}) Tj ET`);
+    }
+  });
+  return lines.join('\n');
+};
+
+/**
+ * Encodes pages of rectangles and Helvetica text as an uncompressed PDF.
+ */
+export const encodePdf = (pages: DrawPage[], title = 'Image to Voxel Art'): Uint8Array => {
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title (${escapeText(title)}) /Producer (Image to Voxel Art) >>`;
+
+  pages.forEach((page, i) => {
+    const content = pageContent(page);
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Every character is Latin-1, so string length equals byte length
+  let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = out.length;
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xref = out.length;
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    out += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(out.length);
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i) & 255;
+  return bytes;
+};
@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { VoxelModel } from "../types";
+
+export interface PrintOptions {
+  mmPerVoxel: number;
+  hollow: boolean;
+  wallThickness: number; // In voxels
+}
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = {
+  mmPerVoxel: 2,
+  hollow: false,
+  wallThickness: 2,
+};
+
+/**
+ * Printable occupancy grid. `cells` holds `color + 1` per voxel, 0 for empty.
+ */
+export interface PrintModel {
+  size: [number, number, number];
+  cells: Int32Array;
+  palette: string[];
+}
+
+export interface PrintReport {
+  voxelCount: number;
+  islands: number;
+  largestIslandShare: number; // 0..1
+  overhangPercent: number;
+  dimensionsMm: [number, number, number];
+  volumeCm3: number;
+}
+
+/**
+ * Triangle mesh in millimetres, Z-up as slicers expect.
+ */
+export interface PrintMesh {
+  vertices: Float32Array;
+  triangles: Uint32Array;
+  triangleColors: Uint32Array; // Palette index per triangle
+}
+
+const MAX_PRINT_CELLS = 32 * 1024 * 1024;
+
+const NEIGHBOURS = [
+  [1, 0, 0], [-1, 0, 0],
+  [0, 1, 0], [0, -1, 0],
+  [0, 0, 1], [0, 0, -1],
+];
+
+/**
+ * Turns a voxel model into a printable solid:
+ *  1. Air reachable from outside is found by flood fill; enclosed cavities are
+ *     filled so only the exterior surface remains.
+ *  2. When hollowing, voxels further than `wallThickness` from the outside are
+ *     removed again, leaving a shell.
+ */
+export const preparePrintModel = (model: VoxelModel, options: PrintOptions): PrintModel => {
+  // Pad by one cell on each side so the outside air is connected
+  const size: [number, number, number] = [model.size[0] + 2, model.size[1] + 2, model.size[2] + 2];
+  const [sx, sy, sz] = size;
+  if (sx * sy * sz > MAX_PRINT_CELLS) {
+    throw new Error("This scene is too large to prepare for printing.");
+  }
+
+  const index = (x: number, y: number, z: number) => x + sx * (y + sy * z);
+  const cells = new Int32Array(sx * sy * sz);
+  model.voxels.forEach(v => {
+    cells[index(v.x + 1, v.y + 1, v.z + 1)] = v.color + 1;
+  });
+
+  // 1. Flood fill the outside air from a corner
+  const outside = new Uint8Array(cells.length);
+  const queue = new Int32Array(cells.length);
+  let head = 0;
+  let tail = 0;
+  outside[0] = 1;
+  queue[tail++] = 0;
+
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % sx;
+    const y = Math.floor(i / sx) % sy;
+    const z = Math.floor(i / (sx * sy));
+    for (const [dx, dy, dz] of NEIGHBOURS) {
+      const nx = x + dx, ny = y + dy, nz = z + dz;
+      if (nx < 0 || ny < 0 || nz < 0 || nx >= sx || ny >= sy || nz >= sz) continue;
+      const n = index(nx, ny, nz);
+      if (outside[n] || cells[n]) continue;
+      outside[n] = 1;
+      queue[tail++] = n;
+    }
+  }
+
+  // Fill enclosed cavities; their colour is never visible
+  for (let i = 0; i < cells.length; i++) {
+    if (!cells[i] && !outside[i]) cells[i] = 1;
+  }
+
+  // 2. Hollow out: distance (in steps) from the outside air into the solid
+  if (options.hollow && options.wallThickness > 0) {
+    const distance = new Int32Array(cells.length);
+    head = 0;
+    tail = 0;
+    for (let i = 0; i < cells.length; i++) {
+      if (outside[i]) queue[tail++] = i;
+    }
+
+    while (head < tail) {
+      const i = queue[head++];
+      const x = i % sx;
+      const y = Math.floor(i / sx) % sy;
+      const z = Math.floor(i / (sx * sy));
+      for (const [dx, dy, dz] of NEIGHBOURS) {
+        const nx = x + dx, ny = y + dy, nz = z + dz;
+        if (nx < 0 || ny < 0 || nz < 0 || nx >= sx || ny >= sy || nz >= sz) continue;
+        const n = index(nx, ny, nz);
+        if (!cells[n] || distance[n]) continue;
+        distance[n] = distance[i] + 1;
+        queue[tail++] = n;
+      }
+    }
+
+    for (let i = 0; i < cells.length; i++) {
+      if (cells[i] && distance[i] > options.wallThickness) cells[i] = 0;
+    }
+  }
+
+  return { size, cells, palette: model.palette };
+};
+
+/**
+ * Measures the printability of a prepared model: connected parts, overhangs
+ * and physical size.
+ */
+export const analyzePrintModel = (model: PrintModel, options: PrintOptions): PrintReport => {
+  const [sx, sy, sz] = model.size;
+  const { cells } = model;
+  const index = (x: number, y: number, z: number) => x + sx * (y + sy * z);
+  const solid = (x: number, y: number, z: number) =>
+    x >= 0 && y >= 0 && z >= 0 && x < sx && y < sy && z < sz && cells[index(x, y, z)] !== 0;
+
+  let voxelCount = 0;
+  let overhangs = 0;
+  let minY = Infinity;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+
+  for (let z = 0; z < sz; z++) {
+    for (let y = 0; y < sy; y++) {
+      for (let x = 0; x < sx; x++) {
+        if (!cells[index(x, y, z)]) continue;
+        voxelCount++;
+        minY = Math.min(minY, y);
+        [x, y, z].forEach((v, axis) => {
+          min[axis] = Math.min(min[axis], v);
+          max[axis] = Math.max(max[axis], v);
+        });
+      }
+    }
+  }
+
+  // A voxel counts as an overhang when nothing below it (directly or one step
+  // sideways, i.e. within 45 degrees) is solid and it is not on the build plate
+  for (let z = 0; z < sz; z++) {
+    for (let y = 0; y < sy; y++) {
+      if (y === minY) continue;
+      for (let x = 0; x < sx; x++) {
+        if (!cells[index(x, y, z)]) continue;
+        const supported = solid(x, y - 1, z) ||
+          solid(x + 1, y - 1, z) || solid(x - 1, y - 1, z) ||
+          solid(x, y - 1, z + 1) || solid(x, y - 1, z - 1);
+        if (!supported) overhangs++;
+      }
+    }
+  }
+
+  // Islands: 6-connected components of solid voxels
+  const label = new Int32Array(cells.length);
+  const queue = new Int32Array(cells.length);
+  const islandSizes: number[] = [];
+
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || label[start]) continue;
+    const id = islandSizes.length + 1;
+    let head = 0;
+    let tail = 0;
+    let count = 0;
+    label[start] = id;
+    queue[tail++] = start;
+
+    while (head < tail) {
+      const i = queue[head++];
+      count++;
+      const x = i % sx;
+      const y = Math.floor(i / sx) % sy;
+      const z = Math.floor(i / (sx * sy));
+      for (const [dx, dy, dz] of NEIGHBOURS) {
+        if (!solid(x + dx, y + dy, z + dz)) continue;
+        const n = index(x + dx, y + dy, z + dz);
+        if (label[n]) continue;
+        label[n] = id;
+        queue[tail++] = n;
+      }
+    }
+    islandSizes.push(count);
+  }
+
+  const mm = options.mmPerVoxel;
+  return {
+    voxelCount,
+    islands: islandSizes.length,
+    largestIslandShare: voxelCount ? islandSizes.reduce((a, b) => Math.max(a, b), 0) / voxelCount : 0,
+    overhangPercent: voxelCount ? (overhangs / voxelCount) * 100 : 0,
+    dimensionsMm: voxelCount
+      ? [(max[0] - min[0] + 1) * mm, (max[2] - min[2] + 1) * mm, (max[1] - min[1] + 1) * mm]
+      : [0, 0, 0],
+    volumeCm3: (voxelCount * mm * mm * mm) / 1000,
+  };
+};
+
+/**
+ * Builds the surface mesh of a prepared model: one quad (two triangles) per
+ * voxel face that borders empty space. Faces between solid voxels are never
+ * emitted and corners are shared, so the result is closed.
+ */
+export const buildPrintMesh = (model: PrintModel, mmPerVoxel: number): PrintMesh => {
+  const [sx, sy, sz] = model.size;
+  const { cells } = model;
+  const index = (x: number, y: number, z: number) => x + sx * (y + sy * z);
+  const empty = (x: number, y: number, z: number) =>
+    x < 0 || y < 0 || z < 0 || x >= sx || y >= sy || z >= sz || cells[index(x, y, z)] === 0;
+
+  const vertices: number[] = [];
+  const vertexIds = new Map<number, number>();
+  const triangles: number[] = [];
+  const triangleColors: number[] = [];
+
+  // Grid corners -> millimetres, converting Y-up to Z-up: (x, y, z) -> (x, -z, y)
+  const vertex = (x: number, y: number, z: number): number => {
+    const key = x + (sx + 1) * (y + (sy + 1) * z);
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      id = vertices.length / 3;
+      vertices.push(x * mmPerVoxel, (sz - z) * mmPerVoxel, y * mmPerVoxel);
+      vertexIds.set(key, id);
+    }
+    return id;
+  };
+
+  // Corner offsets per face, counter-clockwise when viewed from outside
+  const faces: { dir: number[]; corners: number[][] }[] = [
+    { dir: [1, 0, 0], corners: [[1, 0, 0], [1, 1, 0], [1, 1, 1], [1, 0, 1]] },
+    { dir: [-1, 0, 0], corners: [[0, 0, 0], [0, 0, 1], [0, 1, 1], [0, 1, 0]] },
+    { dir: [0, 1, 0], corners: [[0, 1, 0], [0, 1, 1], [1, 1, 1], [1, 1, 0]] },
+    { dir: [0, -1, 0], corners: [[0, 0, 0], [1, 0, 0], [1, 0, 1], [0, 0, 1]] },
+    { dir: [0, 0, 1], corners: [[0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]] },
+    { dir: [0, 0, -1], corners: [[0, 0, 0], [0, 1, 0], [1, 1, 0], [1, 0, 0]] },
+  ];
+
+  for (let z = 0; z < sz; z++) {
+    for (let y = 0; y < sy; y++) {
+      for (let x = 0; x < sx; x++) {
+        const c = cells[index(x, y, z)];
+        if (!c) continue;
+        faces.forEach(face => {
+          if (!empty(x + face.dir[0], y + face.dir[1], z + face.dir[2])) return;
+          const [a, b, cc, d] = face.corners.map(o => vertex(x + o[0], y + o[1], z + o[2]));
+          triangles.push(a, b, cc, a, cc, d);
+          triangleColors.push(c - 1, c - 1);
+        });
+      }
+    }
+  }
+
+  return {
+    vertices: new Float32Array(vertices),
+    triangles: new Uint32Array(triangles),
+    triangleColors: new Uint32Array(triangleColors),
+  };
+};
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  // Called before each wait, with the 1-based retry number
+  onRetry?: (retry: number, delayMs: number, error: unknown) => void;
+}
+
+const getMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Whether a failed request is worth retrying later: rate limits, exhausted
+ * quota and temporarily overloaded backends.
+ */
+export const isRateLimitError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown })?.status;
+  if (status === 429 || status === 503) return true;
+  return /\b(429|503)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|rate.?limit|quota|overloaded/i.test(getMessage(error));
+};
+
+/**
+ * Delay before retry `retry` (1-based): exponential with jitter, or the delay
+ * the API asked for ("retry in 12.5s") when it is longer.
+ */
+export const getRetryDelay = (retry: number, error: unknown, baseDelayMs: number, maxDelayMs: number): number => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+  const jittered = exponential / 2 + Math.random() * exponential / 2;
+  const requested = getMessage(error).match(/retry in ([\d.]+)\s*s/i);
+  const requestedMs = requested ? parseFloat(requested[1]) * 1000 : 0;
+  return Math.min(maxDelayMs, Math.max(jittered, requestedMs));
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `task`, retrying with backoff while it fails with a rate limit (see
+ * isRateLimitError). Other errors and aborts are thrown right away.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs, signal, onRetry } = options;
+  for (let retry = 1; ; retry++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted || retry > retries || !isRateLimitError(error)) throw error;
+      const delayMs = getRetryDelay(retry, error, baseDelayMs, maxDelayMs);
+      onRetry?.(retry, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+/**
+ * Runs `worker` over the items with at most `concurrency` in flight, in
+ * order. `getConcurrency` is read again each time a slot frees up, so the
+ * limit can change while the queue runs. A failing worker does not stop the
+ * others; handle errors inside it. Resolves once every started item settled.
+ */
+export const runQueue = async <T>(
+  items: T[],
+  getConcurrency: () => number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  let active = 0;
+
+  await new Promise<void>(resolve => {
+    const pump = () => {
+      while (!signal?.aborted && next < items.length && active < Math.max(1, getConcurrency())) {
+        const item = items[next++];
+        active++;
+        worker(item)
+          .catch(() => {})
+          .finally(() => {
+            active--;
+            pump();
+          });
+      }
+      if (active === 0 && (next >= items.length || signal?.aborted)) resolve();
+    };
+    pump();
+  });
+};
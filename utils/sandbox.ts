@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { readImportMap } from "./threeVendor";
+
+// Scenes run without allow-same-origin: they get an opaque origin and cannot
+// reach the app's storage, cookies or DOM.
+export const SCENE_SANDBOX = 'allow-scripts';
+
+// Target origin for messages from injected scripts to the app. Set at display
+// time by injectSandboxPolicy; downloaded files have no parent and fall back to '*'.
+export const PARENT_ORIGIN = "(window.__voxelParentOrigin || '*')";
+
+/**
+ * Origins the scene's import map loads Three.js (and its addons) from.
+ * Relative entries resolve against the app, as they do in a srcdoc frame.
+ */
+export const getThreeOrigins = (html: string, baseUrl: string): string[] => {
+  const imports = readImportMap(html);
+  if (!imports) return [];
+
+  const origins = new Set<string>();
+  Object.entries(imports).forEach(([specifier, url]) => {
+    if (specifier !== 'three' && !specifier.startsWith('three/')) return;
+    if (typeof url !== 'string') return;
+    try {
+      const { protocol, origin } = new URL(url, baseUrl);
+      if (protocol === 'https:' || protocol === 'http:') origins.add(origin);
+    } catch {
+      // Not a URL; the import will fail on its own
+    }
+  });
+  return Array.from(origins);
+};
+
+/**
+ * Content-Security-Policy for a scene: inline code plus modules from the given
+ * origins, no other network access, no nested frames or form posts.
+ */
+export const buildScenePolicy = (scriptOrigins: string[]): string => {
+  const origins = scriptOrigins.join(' ');
+  return [
+    "default-src 'none'",
+    `script-src 'unsafe-inline' ${origins}`.trim(),
+    // Font/texture loaders fetch from the same CDN
+    `connect-src ${origins || "'none'"}`,
+    "style-src 'unsafe-inline'",
+    'img-src data: blob:',
+    'font-src data:',
+    'worker-src blob:',
+    "frame-src 'none'",
+    "form-action 'none'",
+    "base-uri 'none'",
+  ].join('; ');
+};
+
+/**
+ * Prepares a scene for the sandboxed viewer: adds a CSP that only lets it load
+ * Three.js from its import map CDN (or the app itself, for a bundled copy) and
+ * tells the injected scripts which origin to post their messages to. Goes at
+ * the top of <head> so it applies before any script runs.
+ */
+export const injectSandboxPolicy = (html: string, parentOrigin: string = window.location.origin): string => {
+  const policy = buildScenePolicy(getThreeOrigins(html, parentOrigin));
+  const markup = `
+<meta http-equiv="Content-Security-Policy" content="${policy.replace(/"/g, '&quot;')}">
+<script>window.__voxelParentOrigin = ${JSON.stringify(parentOrigin)};</script>
+`;
+
+  const anchor = html.match(/<head\b[^>]*>/i) || html.match(/<html\b[^>]*>/i) || html.match(/<!DOCTYPE[^>]*>/i);
+  if (anchor && anchor.index !== undefined) {
+    const at = anchor.index + anchor[0].length;
+    return html.slice(0, at) + markup + html.slice(at);
+  }
+  return markup + html;
+};
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { Vec3 } from "./voxelEdit";
+import type { CameraView, CapturedImage, SceneCamera, SceneError, SceneHealth, SceneInstrumentation, SceneLighting, SceneVoxel, SectionInfo, VoxelPick, VoxelStat } from "../types";
+
+/**
+ * Version of the scene bridge protocol (see injectSceneBridge). Every bridge
+ * message carries it, and a scene refuses requests made for another version.
+ */
+export const BRIDGE_VERSION = 1;
+
+/**
+ * Methods of the scene bridge with their parameters and results.
+ * `pickVoxel` takes normalised device coordinates and defaults to the last
+ * pointer position over the scene.
+ */
+export interface BridgeMethods {
+  getStats: { params: Record<string, never>; result: { stats: VoxelStat[]; total: number } };
+  getCamera: { params: Record<string, never>; result: SceneCamera };
+  setCamera: { params: { position?: Vec3; target?: Vec3; view?: CameraView; orthographic?: boolean }; result: SceneCamera };
+  setWireframe: { params: { enabled: boolean }; result: { enabled: boolean } };
+  setLighting: { params: Partial<SceneLighting>; result: SceneLighting };
+  screenshot: { params: { width: number; height: number; transparent: boolean; angle?: number }; result: CapturedImage };
+  pickVoxel: { params: { x?: number; y?: number }; result: VoxelPick | null };
+}
+
+export type BridgeMethod = keyof BridgeMethods;
+
+/**
+ * Messages the injected scripts post from a scene iframe to the app.
+ */
+export type SceneMessage =
+  | { type: 'voxel_stats'; stats: VoxelStat[]; total: number }
+  | { type: 'voxel_data'; requestId: string; voxels: SceneVoxel[] }
+  | { type: 'scene_instrumentation'; report: SceneInstrumentation }
+  | { type: 'scene_error'; error: SceneError }
+  | { type: 'scene_health'; health: SceneHealth }
+  | { type: 'voxel_pick'; cell: Vec3; normal: Vec3; hit: 'voxel' | 'ground' }
+  | { type: 'voxel_editor_ready' }
+  | { type: 'camera_state'; position: Vec3; target: Vec3 }
+  | { type: 'section_info'; info: SectionInfo }
+  | { type: 'section_failed'; reason: string }
+  | { type: 'bridge_ready'; version: number; methods: string[] }
+  | { type: 'bridge_failed'; version: number; reason: string }
+  | { type: 'bridge_response'; version: number; requestId: string; ok: true; result: unknown }
+  | { type: 'bridge_response'; version: number; requestId: string; ok: false; error: string }
+  | { type: 'bridge_event'; version: number; event: 'click'; x: number; y: number };
+
+export type SceneMessageOf<T extends SceneMessage['type']> = Extract<SceneMessage, { type: T }>;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isColor = (value: unknown): boolean => isString(value) && /^#[0-9a-f]{6}$/i.test(value);
+const isVec3 = (value: unknown): value is number[] => Array.isArray(value) && value.length === 3 && value.every(isNumber);
+const isArrayOf = (value: unknown, item: (entry: unknown) => boolean): boolean => Array.isArray(value) && value.every(item);
+
+/**
+ * Whether `value` is a list of colour stats, as scenes report them.
+ */
+export const isVoxelStats = (value: unknown): value is VoxelStat[] =>
+  isArrayOf(value, stat => isObject(stat) && isColor(stat.color) && isNumber(stat.count));
+
+const HOOK_KINDS = ['scene', 'renderer', 'camera', 'controls'];
+const ERROR_KINDS = ['uncaught', 'rejection', 'console', 'resource'];
+
+const isCapturedImage = (image: unknown): boolean =>
+  isObject(image) && isNumber(image.width) && isNumber(image.height) && image.data instanceof Uint8ClampedArray
+  && image.data.length === image.width * image.height * 4;
+
+const isHookReport = (hooks: unknown): boolean =>
+  isObject(hooks) && HOOK_KINDS.every(kind => typeof hooks[kind] === 'boolean');
+
+const isSceneError = (error: unknown): boolean =>
+  isObject(error) && isString(error.kind) && ERROR_KINDS.includes(error.kind) && isString(error.message);
+
+// Shape checks per message type; anything else is dropped
+const VALIDATORS: { [T in SceneMessage['type']]: (data: Record<string, unknown>) => boolean } = {
+  voxel_stats: data => isNumber(data.total) && isVoxelStats(data.stats),
+  voxel_data: data => isString(data.requestId)
+    && isArrayOf(data.voxels, v => isObject(v) && ['x', 'y', 'z', 'w', 'h', 'd'].every(k => isNumber(v[k])) && isColor(v.color)),
+  scene_instrumentation: data => isObject(data.report) && typeof data.report.parsed === 'boolean'
+    && isHookReport(data.report.hooks),
+  scene_error: data => isSceneError(data.error),
+  scene_health: data => isObject(data.health) && isArrayOf(data.health.errors, isSceneError)
+    && typeof data.health.sceneFound === 'boolean' && isNumber(data.health.meshCount) && isNumber(data.health.checkedAfterMs),
+  voxel_pick: data => isVec3(data.cell) && isVec3(data.normal) && (data.hit === 'voxel' || data.hit === 'ground'),
+  voxel_editor_ready: () => true,
+  camera_state: data => isVec3(data.position) && isVec3(data.target),
+  section_info: data => isObject(data.info) && isNumber(data.info.unit) && data.info.unit > 0
+    && isVec3(data.info.layers) && data.info.layers.every(n => Number.isInteger(n) && n > 0),
+  section_failed: data => isString(data.reason),
+  bridge_ready: data => isNumber(data.version) && isArrayOf(data.methods, isString),
+  bridge_failed: data => isNumber(data.version) && isString(data.reason),
+  bridge_response: data => isNumber(data.version) && isString(data.requestId)
+    && (data.ok === true ? 'result' in data : data.ok === false && isString(data.error)),
+  bridge_event: data => isNumber(data.version) && data.event === 'click' && isNumber(data.x) && isNumber(data.y),
+};
+
+const isSceneCamera = (camera: unknown): boolean =>
+  isObject(camera) && isVec3(camera.position) && isVec3(camera.target) && typeof camera.orthographic === 'boolean';
+
+// Shape checks per bridge method result
+const RESULT_VALIDATORS: { [M in BridgeMethod]: (result: unknown) => boolean } = {
+  getStats: result => isObject(result) && VALIDATORS.voxel_stats(result),
+  getCamera: isSceneCamera,
+  setCamera: isSceneCamera,
+  setWireframe: result => isObject(result) && typeof result.enabled === 'boolean',
+  setLighting: result => isObject(result) && isNumber(result.intensity) && isNumber(result.ambient)
+    && (result.background === null || isColor(result.background)),
+  screenshot: isCapturedImage,
+  pickVoxel: result => result === null || (isObject(result)
+    && ['point', 'normal', 'center', 'size'].every(key => isVec3(result[key])) && isColor(result.color)),
+};
+
+/**
+ * Whether `result` has the shape `method` promises.
+ */
+export const isBridgeResult = <M extends BridgeMethod>(method: M, result: unknown): result is BridgeMethods[M]['result'] =>
+  Object.prototype.hasOwnProperty.call(RESULT_VALIDATORS, method) && RESULT_VALIDATORS[method](result);
+
+/**
+ * Accepts a message only if it comes from `source` (the scene iframe's
+ * window), with the opaque origin of a sandboxed frame, and matches the
+ * schema of its type. Returns null for everything else.
+ */
+export const readSceneMessage = (event: MessageEvent, source: Window | null | undefined): SceneMessage | null => {
+  if (!source || event.source !== source) return null;
+  if (event.origin !== 'null') return null;
+  return parseSceneMessage(event.data);
+};
+
+/**
+ * Returns `data` as a scene message if it matches the schema of its type, or
+ * null. Does not check where it came from (see readSceneMessage).
+ */
+export const parseSceneMessage = (data: unknown): SceneMessage | null => {
+  if (!isObject(data) || !isString(data.type) || !Object.prototype.hasOwnProperty.call(VALIDATORS, data.type)) return null;
+  return VALIDATORS[data.type as SceneMessage['type']](data) ? data as SceneMessage : null;
+};
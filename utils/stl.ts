@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { PrintMesh } from "./print";
+
+/**
+ * Encodes a print mesh as a binary STL file.
+ */
+export const encodeStl = (mesh: PrintMesh): Uint8Array => {
+  const count = mesh.triangles.length / 3;
+  const out = new Uint8Array(84 + count * 50);
+  const dv = new DataView(out.buffer);
+
+  const header = 'Image to Voxel Art - binary STL';
+  for (let i = 0; i < header.length; i++) out[i] = header.charCodeAt(i);
+  dv.setUint32(80, count, true);
+
+  const v = mesh.vertices;
+  let p = 84;
+  for (let t = 0; t < count; t++) {
+    const [a, b, c] = [0, 1, 2].map(k => mesh.triangles[t * 3 + k] * 3);
+
+    // Facet normal from the winding order
+    const ux = v[b] - v[a], uy = v[b + 1] - v[a + 1], uz = v[b + 2] - v[a + 2];
+    const wx = v[c] - v[a], wy = v[c + 1] - v[a + 1], wz = v[c + 2] - v[a + 2];
+    let nx = uy * wz - uz * wy;
+    let ny = uz * wx - ux * wz;
+    let nz = ux * wy - uy * wx;
+    const length = Math.hypot(nx, ny, nz) || 1;
+    nx /= length; ny /= length; nz /= length;
+
+    [nx, ny, nz].forEach((n, i) => dv.setFloat32(p + i * 4, n, true));
+    [a, b, c].forEach((vi, corner) => {
+      for (let axis = 0; axis < 3; axis++) {
+        dv.setFloat32(p + 12 + corner * 12 + axis * 4, v[vi + axis], true);
+      }
+    });
+    // Attribute byte count stays 0
+    p += 50;
+  }
+
+  return out;
+};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Must match the `three` version in package.json; the build checks it
+export const THREE_VERSION = '0.160.0';
+
+// Where the app serves its copy of Three.js
+export const THREE_VENDOR_PATH = `/vendor/three@${THREE_VERSION}`;
+
+export const THREE_MODULE_FILE = 'build/three.module.js';
+
+// Addons served with the app, relative to examples/jsm. Each only imports
+// `three`, so it also works from a data: URL in an inlined download.
+export const VENDORED_ADDONS = [
+  'controls/OrbitControls.js',
+  'math/SimplexNoise.js',
+  'math/ImprovedNoise.js',
+  'geometries/RoundedBoxGeometry.js',
+  'utils/BufferGeometryUtils.js',
+  'environments/RoomEnvironment.js',
+];
+
+// Every file the app serves, relative to the three package
+export const VENDORED_FILES = [THREE_MODULE_FILE, ...VENDORED_ADDONS.map(addon => `examples/jsm/${addon}`)];
+
+// The same pinned version on the CDN; addons that are not vendored load from here
+const THREE_CDN_PATH = `https://unpkg.com/three@${THREE_VERSION}`;
+const CDN_ADDONS_URL = `${THREE_CDN_PATH}/examples/jsm/`;
+
+// Prefixes scenes use for addon imports
+const ADDON_PREFIXES = ['three/addons/', 'three/examples/jsm/'];
+
+const IMPORT_MAP_REGEX = /(<script\b[^>]*\btype\s*=\s*["']?importmap["']?[^>]*>)([\s\S]*?)(<\/script>)/i;
+
+/**
+ * Import map entries for the vendored copy: `three` and each vendored addon
+ * from the app, any other addon from the pinned CDN version.
+ */
+export const getThreeImports = (): Record<string, string> => {
+  const imports: Record<string, string> = { three: `${THREE_VENDOR_PATH}/${THREE_MODULE_FILE}` };
+  ADDON_PREFIXES.forEach(prefix => {
+    VENDORED_ADDONS.forEach(addon => {
+      imports[prefix + addon] = `${THREE_VENDOR_PATH}/examples/jsm/${addon}`;
+    });
+    imports[prefix] = CDN_ADDONS_URL;
+  });
+  return imports;
+};
+
+/**
+ * Reads the import map of a scene, or null if it has none.
+ */
+export const readImportMap = (html: string): Record<string, string> | null => {
+  const match = html.match(IMPORT_MAP_REGEX);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[2]).imports || {};
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Replaces the imports of a scene's import map (see readImportMap).
+ */
+export const writeImportMap = (html: string, imports: Record<string, string>): string => {
+  const json = JSON.stringify({ imports }, null, 4).replace(/</g, '\\u003c');
+  return html.replace(IMPORT_MAP_REGEX, (all, open: string, body: string, close: string) => `${open}\n${json}\n${close}`);
+};
+
+/**
+ * Rewrites a scene's import map so `three` and its addons load from the copy
+ * served by the app, whatever CDN or version the model picked. Other entries
+ * are kept. Scenes without a (valid) import map are returned unchanged.
+ */
+export const localizeThreeImports = (html: string): string => {
+  const imports = readImportMap(html);
+  if (!imports) return html;
+  const others = Object.entries(imports).filter(([specifier]) => specifier !== 'three' && !specifier.startsWith('three/'));
+  return writeImportMap(html, { ...getThreeImports(), ...Object.fromEntries(others) });
+};
+
+/**
+ * The reverse of localizeThreeImports, for files opened outside the app: the
+ * vendored entries point at the same pinned version on the CDN.
+ */
+export const toCdnThreeImports = (html: string): string => {
+  const imports = readImportMap(html);
+  if (!imports) return html;
+  const rewritten = Object.entries(imports).map(([specifier, url]) =>
+    [specifier, url.startsWith(`${THREE_VENDOR_PATH}/`) ? THREE_CDN_PATH + url.slice(THREE_VENDOR_PATH.length) : url]
+  );
+  return writeImportMap(html, Object.fromEntries(rewritten));
+};
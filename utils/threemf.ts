@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { PrintMesh } from "./print";
+import { createZip } from "./zip";
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>`;
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+const formatNumber = (n: number) => Number(n.toFixed(4)).toString();
+
+/**
+ * Encodes a print mesh as a 3MF package. Every triangle references a base
+ * material carrying its voxel colour, so multi-material slicers can assign
+ * filaments per colour.
+ */
+export const encode3mf = (mesh: PrintMesh, palette: string[]): Uint8Array => {
+  const parts: string[] = [];
+
+  parts.push(`<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <metadata name="Application">Image to Voxel Art</metadata>
+  <resources>
+    <basematerials id="1">
+`);
+  palette.forEach((color, i) => {
+    parts.push(`      <base name="Color ${i + 1}" displaycolor="${color.toUpperCase()}"/>\n`);
+  });
+  parts.push(`    </basematerials>
+    <object id="2" type="model" pid="1" pindex="0">
+      <mesh>
+        <vertices>
+`);
+
+  for (let i = 0; i < mesh.vertices.length; i += 3) {
+    parts.push(`          <vertex x="${formatNumber(mesh.vertices[i])}" y="${formatNumber(mesh.vertices[i + 1])}" z="${formatNumber(mesh.vertices[i + 2])}"/>\n`);
+  }
+
+  parts.push(`        </vertices>
+        <triangles>
+`);
+
+  for (let t = 0; t < mesh.triangles.length / 3; t++) {
+    parts.push(`          <triangle v1="${mesh.triangles[t * 3]}" v2="${mesh.triangles[t * 3 + 1]}" v3="${mesh.triangles[t * 3 + 2]}" pid="1" p1="${mesh.triangleColors[t]}"/>\n`);
+  }
+
+  parts.push(`        </triangles>
+      </mesh>
+    </object>
+  </resources>
+  <build>
+    <item objectid="2"/>
+  </build>
+</model>
+`);
+
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: RELS },
+    { name: '3D/3dmodel.model', data: parts.join('') },
+  ]);
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { HistoryItem, VoxelVersion } from "../types";
+
+export const createVersion = (fields: Omit<VoxelVersion, 'id' | 'timestamp' | 'stats'>): VoxelVersion => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp: Date.now(),
+  stats: null,
+  ...fields,
+});
+
+/**
+ * Versions of a history item. Items saved before versioning existed get a
+ * single synthetic root version built from their voxel HTML.
+ */
+export const getItemVersions = (item: HistoryItem): VoxelVersion[] => {
+  if (item.versions && item.versions.length > 0) return item.versions;
+  if (!item.voxel) return [];
+  return [{
+    id: `${item.id}-v0`,
+    parentId: null,
+    instruction: null,
+    prompt: item.prompt,
+    model: 'unknown',
+    source: item.voxel,
+    voxel: item.voxel,
+    grid: item.grid || null,
+    stats: item.stats,
+    timestamp: item.timestamp,
+  }];
+};
+
+/**
+ * Versions from the root down to (and including) `id`.
+ */
+export const getVersionPath = (versions: VoxelVersion[], id: string): VoxelVersion[] => {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const path: VoxelVersion[] = [];
+  let current = byId.get(id);
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Versions in depth-first order with their depth in the tree, for display.
+ */
+export const flattenVersionTree = (versions: VoxelVersion[]): { version: VoxelVersion; depth: number }[] => {
+  const ids = new Set(versions.map(v => v.id));
+  const children = new Map<string | null, VoxelVersion[]>();
+  versions.forEach(v => {
+    // Orphans (parent deleted) are shown as roots
+    const parent = v.parentId && ids.has(v.parentId) ? v.parentId : null;
+    children.set(parent, [...(children.get(parent) || []), v]);
+  });
+
+  const out: { version: VoxelVersion; depth: number }[] = [];
+  const visit = (parent: string | null, depth: number) => {
+    (children.get(parent) || [])
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(v => {
+        out.push({ version: v, depth });
+        visit(v.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return out;
+};
+
+/**
+ * The version currently selected for an item, falling back to the newest.
+ */
+export const getActiveVersion = (item: HistoryItem): VoxelVersion | null => {
+  const versions = getItemVersions(item);
+  return versions.find(v => v.id === item.activeVersionId) || versions[versions.length - 1] || null;
+};
+
+/**
+ * The version to show when an item is opened from the Library: the pinned
+ * favourite if there is one, otherwise the active version.
+ */
+export const getOpeningVersion = (item: HistoryItem): VoxelVersion | null => {
+  const versions = getItemVersions(item);
+  return versions.find(v => v.id === item.pinnedVersionId) || getActiveVersion(item);
+};
+
+/**
+ * The item with the colour stats of it and its versions cleared, for stats
+ * saved in an older encoding. They are counted again when the scene is shown.
+ */
+export const dropItemStats = (item: HistoryItem): HistoryItem => ({
+  ...item,
+  stats: null,
+  versions: item.versions?.map(version => ({ ...version, stats: null })),
+});
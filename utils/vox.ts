@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { VoxelModel } from "../types";
+import { hexToRgb, reducePalette } from "./voxels";
+
+// MagicaVoxel limits: 256 voxels per model side, 255 usable palette slots (index 0 is empty)
+const MAX_MODEL_SIZE = 256;
+const MAX_PALETTE_COLORS = 255;
+
+/**
+ * Minimal little-endian byte writer for RIFF-style chunks.
+ */
+class ByteWriter {
+  private bytes: number[] = [];
+
+  int32(value: number) {
+    this.bytes.push(value & 255, (value >> 8) & 255, (value >> 16) & 255, (value >>> 24) & 255);
+  }
+
+  uint8(value: number) {
+    this.bytes.push(value & 255);
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) this.bytes.push(text.charCodeAt(i));
+  }
+
+  string(text: string) {
+    this.int32(text.length);
+    this.ascii(text);
+  }
+
+  dict(entries: Record<string, string>) {
+    const keys = Object.keys(entries);
+    this.int32(keys.length);
+    keys.forEach(key => {
+      this.string(key);
+      this.string(entries[key]);
+    });
+  }
+
+  append(other: ByteWriter) {
+    // Avoid spreading large arrays into push()
+    for (let i = 0; i < other.bytes.length; i++) this.bytes.push(other.bytes[i]);
+  }
+
+  get length() {
+    return this.bytes.length;
+  }
+
+  toUint8Array() {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+const chunk = (id: string, content: ByteWriter, children?: ByteWriter): ByteWriter => {
+  const out = new ByteWriter();
+  out.ascii(id);
+  out.int32(content.length);
+  out.int32(children ? children.length : 0);
+  out.append(content);
+  if (children) out.append(children);
+  return out;
+};
+
+interface VoxPart {
+  offset: [number, number, number];
+  size: [number, number, number];
+  voxels: number[]; // Flattened x, y, z, colorIndex in MagicaVoxel (Z-up) space
+}
+
+/**
+ * Splits a model into MagicaVoxel-sized parts, converting from Three.js Y-up
+ * to MagicaVoxel Z-up coordinates on the way.
+ */
+const splitModel = (model: VoxelModel): VoxPart[] => {
+  // Three.js (x, y, z) -> MagicaVoxel (x, -z, y), keeping everything positive
+  const [sx, sy, sz] = model.size;
+  const voxSize: [number, number, number] = [sx, sz, sy];
+  const parts = new Map<string, VoxPart>();
+
+  model.voxels.forEach(v => {
+    const vx = v.x;
+    const vy = sz - 1 - v.z;
+    const vz = v.y;
+    const px = Math.floor(vx / MAX_MODEL_SIZE);
+    const py = Math.floor(vy / MAX_MODEL_SIZE);
+    const pz = Math.floor(vz / MAX_MODEL_SIZE);
+    const key = `${px},${py},${pz}`;
+
+    let part = parts.get(key);
+    if (!part) {
+      const offset: [number, number, number] = [px * MAX_MODEL_SIZE, py * MAX_MODEL_SIZE, pz * MAX_MODEL_SIZE];
+      part = {
+        offset,
+        size: [0, 1, 2].map(axis => Math.min(MAX_MODEL_SIZE, voxSize[axis] - offset[axis])) as [number, number, number],
+        voxels: [],
+      };
+      parts.set(key, part);
+    }
+    part.voxels.push(vx - part.offset[0], vy - part.offset[1], vz - part.offset[2], v.color + 1);
+  });
+
+  return Array.from(parts.values());
+};
+
+/**
+ * Encodes a voxel model as a MagicaVoxel .vox (version 150) file.
+ * Models larger than 256 voxels along any axis are split into several
+ * models placed with a transform/group scene graph.
+ */
+export const encodeVox = (input: VoxelModel): Uint8Array => {
+  const model = reducePalette(input, MAX_PALETTE_COLORS);
+  const parts = splitModel(model);
+
+  const children = new ByteWriter();
+
+  // 1. Geometry: one SIZE + XYZI pair per model
+  parts.forEach(part => {
+    const size = new ByteWriter();
+    part.size.forEach(s => size.int32(s));
+    children.append(chunk('SIZE', size));
+
+    const xyzi = new ByteWriter();
+    xyzi.int32(part.voxels.length / 4);
+    part.voxels.forEach(b => xyzi.uint8(b));
+    children.append(chunk('XYZI', xyzi));
+  });
+
+  // 2. Scene graph: root transform -> group -> (transform -> shape) per model
+  const rootTrn = new ByteWriter();
+  rootTrn.int32(0);
+  rootTrn.dict({});
+  rootTrn.int32(1);
+  rootTrn.int32(-1);
+  rootTrn.int32(-1);
+  rootTrn.int32(1);
+  rootTrn.dict({});
+  children.append(chunk('nTRN', rootTrn));
+
+  const group = new ByteWriter();
+  group.int32(1);
+  group.dict({});
+  group.int32(parts.length);
+  parts.forEach((_, i) => group.int32(2 + i * 2));
+  children.append(chunk('nGRP', group));
+
+  parts.forEach((part, i) => {
+    // MagicaVoxel positions models by their centre
+    const translation = part.offset.map((o, axis) => o + Math.floor(part.size[axis] / 2));
+
+    const trn = new ByteWriter();
+    trn.int32(2 + i * 2);
+    trn.dict({});
+    trn.int32(3 + i * 2);
+    trn.int32(-1);
+    trn.int32(0);
+    trn.int32(1);
+    trn.dict({ _t: translation.join(' ') });
+    children.append(chunk('nTRN', trn));
+
+    const shp = new ByteWriter();
+    shp.int32(3 + i * 2);
+    shp.dict({});
+    shp.int32(1);
+    shp.int32(i);
+    shp.dict({});
+    children.append(chunk('nSHP', shp));
+  });
+
+  // 3. Palette: entry i holds colour index i + 1
+  const rgba = new ByteWriter();
+  for (let i = 0; i < 256; i++) {
+    const color = model.palette[i];
+    const [r, g, b] = color ? hexToRgb(color) : [0, 0, 0];
+    rgba.uint8(r);
+    rgba.uint8(g);
+    rgba.uint8(b);
+    rgba.uint8(color ? 255 : 0);
+  }
+  children.append(chunk('RGBA', rgba));
+
+  const file = new ByteWriter();
+  file.ascii('VOX ');
+  file.int32(150);
+  file.append(chunk('MAIN', new ByteWriter(), children));
+  return file.toUint8Array();
+};
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { GridVoxel, VoxelModel } from "../types";
+
+export type Vec3 = [number, number, number];
+
+/**
+ * Returns the palette index for `hex`, appending it to the palette if needed.
+ */
+export const withPaletteColor = (model: VoxelModel, hex: string): [VoxelModel, number] => {
+  const color = hex.toLowerCase();
+  const index = model.palette.indexOf(color);
+  if (index >= 0) return [model, index];
+  return [{ ...model, palette: [...model.palette, color] }, model.palette.length];
+};
+
+/**
+ * Rebuilds a model from a cell map, growing or shifting the bounds so all
+ * coordinates stay >= 0 and the size fits the voxels again.
+ */
+const fromCells = (model: VoxelModel, cells: Map<string, GridVoxel>): VoxelModel => {
+  const voxels = Array.from(cells.values());
+  if (voxels.length === 0) {
+    return { ...model, voxels: [] };
+  }
+
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  voxels.forEach(v => {
+    [v.x, v.y, v.z].forEach((c, axis) => {
+      min[axis] = Math.min(min[axis], c);
+      max[axis] = Math.max(max[axis], c);
+    });
+  });
+
+  // Only shift when something went below zero, so the view doesn't jump on removals
+  const shift = min.map(m => Math.min(0, m));
+  const size = [0, 1, 2].map(axis => Math.max(model.size[axis], max[axis] + 1) - shift[axis]) as Vec3;
+
+  return {
+    ...model,
+    size,
+    voxels: voxels.map(v => ({ x: v.x - shift[0], y: v.y - shift[1], z: v.z - shift[2], color: v.color })),
+  };
+};
+
+const toCells = (model: VoxelModel): Map<string, GridVoxel> => {
+  return new Map(model.voxels.map(v => [`${v.x},${v.y},${v.z}`, v]));
+};
+
+/**
+ * Fills every cell of the box spanned by `a` and `b` (inclusive) with
+ * `color`, or clears them when `color` is null. A single cell is a 1x1x1 box.
+ */
+export const fillBox = (model: VoxelModel, a: Vec3, b: Vec3, color: number | null): VoxelModel => {
+  const cells = toCells(model);
+  const lo = [0, 1, 2].map(axis => Math.min(a[axis], b[axis]));
+  const hi = [0, 1, 2].map(axis => Math.max(a[axis], b[axis]));
+
+  for (let x = lo[0]; x <= hi[0]; x++) {
+    for (let y = lo[1]; y <= hi[1]; y++) {
+      for (let z = lo[2]; z <= hi[2]; z++) {
+        // Nothing can be placed below the ground
+        if (y < 0) continue;
+        const key = `${x},${y},${z}`;
+        if (color === null) {
+          cells.delete(key);
+        } else {
+          cells.set(key, { x, y, z, color });
+        }
+      }
+    }
+  }
+
+  return fromCells(model, cells);
+};
+
+/**
+ * Changes the colour of existing voxels inside the box, leaving empty cells empty.
+ */
+export const paintBox = (model: VoxelModel, a: Vec3, b: Vec3, color: number): VoxelModel => {
+  const lo = [0, 1, 2].map(axis => Math.min(a[axis], b[axis]));
+  const hi = [0, 1, 2].map(axis => Math.max(a[axis], b[axis]));
+  const inside = (v: GridVoxel) =>
+    v.x >= lo[0] && v.x <= hi[0] && v.y >= lo[1] && v.y <= hi[1] && v.z >= lo[2] && v.z <= hi[2];
+
+  return {
+    ...model,
+    voxels: model.voxels.map(v => inside(v) ? { ...v, color } : v),
+  };
+};
+
+/**
+ * Palette index of the voxel at a cell, or null if the cell is empty.
+ */
+export const getVoxelColor = (model: VoxelModel, cell: Vec3): number | null => {
+  const voxel = model.voxels.find(v => v.x === cell[0] && v.y === cell[1] && v.z === cell[2]);
+  return voxel ? voxel.color : null;
+};
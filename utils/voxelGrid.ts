@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { GridVoxel, VoxelGrid, VoxelModel } from "../types";
+
+export const MAX_GRID_SIZE = 64;
+export const MAX_GRID_COLORS = 64;
+
+const HEX_COLOR = /^#?[0-9a-f]{6}$/i;
+
+/**
+ * Thrown when model output does not match the voxel grid schema.
+ */
+export class VoxelGridError extends Error {
+  constructor(message: string) {
+    super(`Invalid voxel grid: ${message}`);
+    this.name = 'VoxelGridError';
+  }
+}
+
+const readDimension = (value: unknown, name: string): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_GRID_SIZE) {
+    throw new VoxelGridError(`${name} must be an integer between 1 and ${MAX_GRID_SIZE}.`);
+  }
+  return value;
+};
+
+/**
+ * Validates untrusted JSON (already parsed) against the voxel grid schema and
+ * returns a normalized grid. Models are unreliable at counting, so a run list
+ * that is too short is padded with empty cells and one that is too long is cut
+ * off; everything else must match exactly.
+ */
+export const parseVoxelGrid = (data: unknown): VoxelGrid => {
+  if (!data || typeof data !== 'object') {
+    throw new VoxelGridError("expected a JSON object.");
+  }
+  const raw = data as Record<string, unknown>;
+
+  const width = readDimension(raw.width, 'width');
+  const height = readDimension(raw.height, 'height');
+  const depth = readDimension(raw.depth, 'depth');
+
+  if (!Array.isArray(raw.palette) || raw.palette.length === 0 || raw.palette.length > MAX_GRID_COLORS) {
+    throw new VoxelGridError(`palette must list 1 to ${MAX_GRID_COLORS} colors.`);
+  }
+  const palette = raw.palette.map((color, i) => {
+    if (typeof color !== 'string' || !HEX_COLOR.test(color.trim())) {
+      throw new VoxelGridError(`palette[${i}] is not a #RRGGBB color.`);
+    }
+    const hex = color.trim().toLowerCase();
+    return hex.startsWith('#') ? hex : `#${hex}`;
+  });
+
+  if (!Array.isArray(raw.rle) || raw.rle.length % 2 !== 0) {
+    throw new VoxelGridError("rle must be a flat list of [count, colorIndex] pairs.");
+  }
+
+  const total = width * height * depth;
+  const rle: number[] = [];
+  let filled = 0;
+
+  for (let i = 0; i < raw.rle.length && filled < total; i += 2) {
+    const count = raw.rle[i];
+    const color = raw.rle[i + 1];
+    if (typeof count !== 'number' || !Number.isInteger(count) || count < 1) {
+      throw new VoxelGridError(`run ${i / 2} has an invalid count.`);
+    }
+    if (typeof color !== 'number' || !Number.isInteger(color) || color < 0 || color > palette.length) {
+      throw new VoxelGridError(`run ${i / 2} references color ${color}, palette has ${palette.length}.`);
+    }
+    const clamped = Math.min(count, total - filled);
+    rle.push(clamped, color);
+    filled += clamped;
+  }
+
+  if (filled < total) {
+    rle.push(total - filled, 0);
+  }
+
+  return { width, height, depth, palette, rle };
+};
+
+/**
+ * Expands a run-length encoded grid into a voxel model.
+ */
+export const decodeVoxelGrid = (grid: VoxelGrid): VoxelModel => {
+  const voxels: GridVoxel[] = [];
+  let cell = 0;
+
+  for (let i = 0; i < grid.rle.length; i += 2) {
+    const count = grid.rle[i];
+    const color = grid.rle[i + 1];
+    if (color > 0) {
+      for (let k = 0; k < count; k++) {
+        const c = cell + k;
+        voxels.push({
+          x: c % grid.width,
+          z: Math.floor(c / grid.width) % grid.depth,
+          y: Math.floor(c / (grid.width * grid.depth)),
+          color: color - 1,
+        });
+      }
+    }
+    cell += count;
+  }
+
+  return { size: [grid.width, grid.height, grid.depth], palette: grid.palette, voxels };
+};
+
+/**
+ * Run-length encodes a voxel model. Unused palette entries are kept so colour
+ * indices stay stable across edits.
+ */
+export const encodeVoxelGrid = (model: VoxelModel): VoxelGrid => {
+  const [width, height, depth] = model.size;
+  const cells = new Int32Array(width * height * depth);
+  model.voxels.forEach(v => {
+    cells[v.x + width * (v.z + depth * v.y)] = v.color + 1;
+  });
+
+  const rle: number[] = [];
+  for (let i = 0; i < cells.length;) {
+    let run = 1;
+    while (i + run < cells.length && cells[i + run] === cells[i]) run++;
+    rle.push(run, cells[i]);
+    i += run;
+  }
+
+  return { width, height, depth, palette: model.palette, rle };
+};
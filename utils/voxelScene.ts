@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { getThreeImports } from "./threeVendor";
+import type { VoxelModel } from "../types";
+
+/**
+ * Voxel data in the flat form the scene template consumes:
+ * `voxels` is [x, y, z, colorIndex, ...] which keeps the embedded JSON compact.
+ */
+export interface VoxelSceneData {
+  size: [number, number, number];
+  palette: string[];
+  voxels: number[];
+}
+
+export const toVoxelSceneData = (model: VoxelModel): VoxelSceneData => ({
+  size: model.size,
+  palette: model.palette,
+  voxels: model.voxels.flatMap(v => [v.x, v.y, v.z, v.color]),
+});
+
+/**
+ * Renders a voxel model as a standalone Three.js page. The output follows the
+ * same conventions as generated scenes (import map, `const scene = new THREE.Scene();`,
+ * OrbitControls) so the usual post-processing applies unchanged.
+ */
+export const renderVoxelSceneHtml = (model: VoxelModel, title: string = 'Voxel Scene'): string => {
+  const data = toVoxelSceneData(model);
+  const safeTitle = title.replace(/[<>&"]/g, '');
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+  const importMap = JSON.stringify({ imports: getThreeImports() }, null, 4);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${safeTitle}</title>
+    <style>
+        body { margin: 0; overflow: hidden; background: #f4f4f5; }
+        canvas { display: block; }
+    </style>
+    <script type="importmap">
+${importMap}
+    </script>
+</head>
+<body>
+    <script type="module">
+        import * as THREE from 'three';
+        import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+
+        // Expose THREE for injected helper scripts
+        window.THREE = THREE;
+
+        const VOXEL_DATA = ${json};
+
+        // --- SCENE SETUP ---
+        const scene = new THREE.Scene();
+        scene.background = new THREE.Color(0xf4f4f5);
+
+        const [width, height, depth] = VOXEL_DATA.size;
+        const radius = Math.max(width, height, depth);
+
+        const camera = new THREE.PerspectiveCamera(45, window.innerWidth / window.innerHeight, 0.1, 1000);
+        camera.position.set(radius * 1.2, radius * 1.1, radius * 1.2);
+
+        const renderer = new THREE.WebGLRenderer({ antialias: true, preserveDrawingBuffer: true });
+        renderer.setSize(window.innerWidth, window.innerHeight);
+        renderer.setPixelRatio(window.devicePixelRatio);
+        renderer.shadowMap.enabled = true;
+        renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+        document.body.appendChild(renderer.domElement);
+
+        const controls = new OrbitControls(camera, renderer.domElement);
+        controls.target.set(0, height / 2, 0);
+
+        // --- LIGHTING ---
+        scene.add(new THREE.HemisphereLight(0xffffff, 0x666666, 1.2));
+
+        const sun = new THREE.DirectionalLight(0xffffff, 1.6);
+        sun.position.set(radius, radius * 2, radius * 0.5);
+        sun.castShadow = true;
+        sun.shadow.mapSize.set(2048, 2048);
+        sun.shadow.camera.left = -radius;
+        sun.shadow.camera.right = radius;
+        sun.shadow.camera.top = radius;
+        sun.shadow.camera.bottom = -radius;
+        sun.shadow.camera.far = radius * 5;
+        scene.add(sun);
+
+        // --- VOXELS ---
+        const geometry = new THREE.BoxGeometry(1, 1, 1);
+        const material = new THREE.MeshStandardMaterial({ roughness: 0.8, metalness: 0.05 });
+        let voxelMesh = null;
+
+        // Builds (or rebuilds) the instanced mesh from flat voxel data
+        function setVoxelData(data) {
+            if (voxelMesh) {
+                scene.remove(voxelMesh);
+                voxelMesh.dispose();
+            }
+
+            const [sx, , sz] = data.size;
+            const palette = data.palette.map(hex => new THREE.Color(hex));
+            const count = data.voxels.length / 4;
+            voxelMesh = new THREE.InstancedMesh(geometry, material, Math.max(count, 1));
+            voxelMesh.count = count;
+            voxelMesh.castShadow = true;
+            voxelMesh.receiveShadow = true;
+
+            const matrix = new THREE.Matrix4();
+            for (let i = 0; i < count; i++) {
+                const [x, y, z, c] = data.voxels.slice(i * 4, i * 4 + 4);
+                matrix.makeTranslation(x - sx / 2 + 0.5, y + 0.5, z - sz / 2 + 0.5);
+                voxelMesh.setMatrixAt(i, matrix);
+                voxelMesh.setColorAt(i, palette[c]);
+            }
+            scene.add(voxelMesh);
+
+            window.voxelData = data;
+            window.voxelMesh = voxelMesh;
+        }
+
+        setVoxelData(VOXEL_DATA);
+
+        // Hooks for injected tools (e.g. the voxel editor)
+        window.camera = camera;
+        window.renderer = renderer;
+        window.setVoxelData = setVoxelData;
+
+        // --- RENDER LOOP ---
+        window.addEventListener('resize', () => {
+            camera.aspect = window.innerWidth / window.innerHeight;
+            camera.updateProjectionMatrix();
+            renderer.setSize(window.innerWidth, window.innerHeight);
+        });
+
+        function animate() {
+            requestAnimationFrame(animate);
+            controls.update();
+            renderer.render(scene, camera);
+        }
+        animate();
+    </script>
+</body>
+</html>`;
+};
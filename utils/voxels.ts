@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { GridVoxel, SceneVoxel, VoxelModel, VoxelStat } from "../types";
+
+// Boxes larger than this many voxels per side are treated as scenery (ground planes, skyboxes)
+const MAX_BOX_VOXELS = 16;
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToHex = (r: number, g: number, b: number): string => {
+  return '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+};
+
+const colorDistance = (a: [number, number, number], b: [number, number, number]): number => {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+};
+
+/**
+ * Returns the index of the closest colour in `palette` (RGB distance).
+ */
+export const nearestColorIndex = (color: string, palette: string[]): number => {
+  const rgb = hexToRgb(color);
+  let best = 0;
+  let bestDistance = Infinity;
+  palette.forEach((candidate, i) => {
+    const d = colorDistance(rgb, hexToRgb(candidate));
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = i;
+    }
+  });
+  return best;
+};
+
+/**
+ * Picks the voxel edge length used by most of the scene's cube-shaped meshes.
+ */
+const detectVoxelSize = (boxes: SceneVoxel[]): number => {
+  const counts = new Map<number, number>();
+  boxes.forEach(b => {
+    const size = Math.round(Math.min(b.w, b.h, b.d) * 1000) / 1000;
+    counts.set(size, (counts.get(size) || 0) + 1);
+  });
+
+  let unit = 1;
+  let bestCount = 0;
+  counts.forEach((count, size) => {
+    if (count > bestCount || (count === bestCount && size < unit)) {
+      unit = size;
+      bestCount = count;
+    }
+  });
+  return unit;
+};
+
+/**
+ * Converts raw meshes read from a scene into voxels on an integer grid.
+ * Non-cubic meshes and tiny particles are dropped, larger cubes are split into
+ * several voxels, and overlapping voxels keep the last colour seen.
+ */
+export const quantizeSceneVoxels = (raw: SceneVoxel[]): VoxelModel => {
+  const boxes = raw.filter(b => {
+    const min = Math.min(b.w, b.h, b.d);
+    const max = Math.max(b.w, b.h, b.d);
+    return min > 0 && max / min <= 1.5;
+  });
+
+  if (boxes.length === 0) {
+    return { size: [0, 0, 0], palette: [], voxels: [] };
+  }
+
+  const unit = detectVoxelSize(boxes);
+
+  // Align the grid to the centre of a voxel of the detected size so that
+  // scenes built on half-unit offsets still land on whole cells
+  const reference = boxes.find(b => Math.abs(Math.min(b.w, b.h, b.d) - unit) < unit * 0.01) || boxes[0];
+  const offset = [reference.x, reference.y, reference.z].map(v => v / unit - Math.round(v / unit));
+
+  const cells = new Map<string, [number, number, number, string]>();
+
+  boxes.forEach(b => {
+    // Number of voxels per side; particles under half a voxel are dropped
+    const n = Math.round(((b.w + b.h + b.d) / 3) / unit);
+    if (n < 1 || n > MAX_BOX_VOXELS) return;
+
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        for (let l = 0; l < n; l++) {
+          const cx = b.x / unit + i - (n - 1) / 2;
+          const cy = b.y / unit + j - (n - 1) / 2;
+          const cz = b.z / unit + l - (n - 1) / 2;
+          const gx = Math.round(cx - offset[0]);
+          const gy = Math.round(cy - offset[1]);
+          const gz = Math.round(cz - offset[2]);
+          cells.set(`${gx},${gy},${gz}`, [gx, gy, gz, b.color.toLowerCase()]);
+        }
+      }
+    }
+  });
+
+  const entries = Array.from(cells.values());
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  entries.forEach(e => {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], e[axis] as number);
+      max[axis] = Math.max(max[axis], e[axis] as number);
+    }
+  });
+
+  // Palette ordered by frequency
+  const frequency = new Map<string, number>();
+  entries.forEach(e => frequency.set(e[3], (frequency.get(e[3]) || 0) + 1));
+  const palette = Array.from(frequency.entries()).sort((a, b) => b[1] - a[1]).map(([color]) => color);
+  const paletteIndex = new Map(palette.map((color, i) => [color, i]));
+
+  const voxels: GridVoxel[] = entries.map(([x, y, z, color]) => ({
+    x: x - min[0],
+    y: y - min[1],
+    z: z - min[2],
+    color: paletteIndex.get(color)!,
+  }));
+
+  return {
+    size: [max[0] - min[0] + 1, max[1] - min[1] + 1, max[2] - min[2] + 1],
+    palette,
+    voxels,
+  };
+};
+
+/**
+ * Limits a model's palette to `maxColors` entries, keeping the most used
+ * colours and remapping the rest to their nearest kept neighbour.
+ */
+export const reducePalette = (model: VoxelModel, maxColors: number): VoxelModel => {
+  if (model.palette.length <= maxColors) return model;
+
+  const usage = new Array(model.palette.length).fill(0);
+  model.voxels.forEach(v => usage[v.color]++);
+
+  const keep = model.palette
+    .map((color, i) => ({ color, i, count: usage[i] }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, maxColors);
+  const palette = keep.map(k => k.color);
+
+  const remap = model.palette.map(color => nearestColorIndex(color, palette));
+
+  return {
+    ...model,
+    palette,
+    voxels: model.voxels.map(v => ({ ...v, color: remap[v.color] })),
+  };
+};
+
+/**
+ * Counts voxels per colour, most used first (same shape as the scene monitor's stats).
+ */
+export const computeVoxelStats = (model: VoxelModel): VoxelStat[] => {
+  const counts = new Array(model.palette.length).fill(0);
+  model.voxels.forEach(v => counts[v.color]++);
+  return model.palette
+    .map((color, i) => ({ color, count: counts[i] }))
+    .filter(stat => stat.count > 0)
+    .sort((a, b) => b.count - a.count);
+};
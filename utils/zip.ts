@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+}
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+};
+
+export const crc32 = (data: Uint8Array): number => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 255] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+};
+
+/**
+ * Builds an uncompressed (stored) zip archive. Good enough for the XML and
+ * already-compressed image payloads we package, and needs no dependencies.
+ */
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const { time, day } = dosDateTime(new Date());
+
+  const files = entries.map(entry => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    return { name, data, crc: crc32(data), offset: 0 };
+  });
+
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const dv = new DataView(out.buffer);
+  let p = 0;
+
+  // 1. Local file headers followed by the data
+  files.forEach(f => {
+    f.offset = p;
+    dv.setUint32(p, 0x04034b50, true);
+    dv.setUint16(p + 4, 20, true); // Version needed
+    dv.setUint16(p + 6, 0x0800, true); // UTF-8 names
+    dv.setUint16(p + 8, 0, true); // Stored
+    dv.setUint16(p + 10, time, true);
+    dv.setUint16(p + 12, day, true);
+    dv.setUint32(p + 14, f.crc, true);
+    dv.setUint32(p + 18, f.data.length, true);
+    dv.setUint32(p + 22, f.data.length, true);
+    dv.setUint16(p + 26, f.name.length, true);
+    dv.setUint16(p + 28, 0, true);
+    out.set(f.name, p + 30);
+    out.set(f.data, p + 30 + f.name.length);
+    p += 30 + f.name.length + f.data.length;
+  });
+
+  // 2. Central directory
+  const centralStart = p;
+  files.forEach(f => {
+    dv.setUint32(p, 0x02014b50, true);
+    dv.setUint16(p + 4, 20, true); // Version made by
+    dv.setUint16(p + 6, 20, true); // Version needed
+    dv.setUint16(p + 8, 0x0800, true);
+    dv.setUint16(p + 10, 0, true);
+    dv.setUint16(p + 12, time, true);
+    dv.setUint16(p + 14, day, true);
+    dv.setUint32(p + 16, f.crc, true);
+    dv.setUint32(p + 20, f.data.length, true);
+    dv.setUint32(p + 24, f.data.length, true);
+    dv.setUint16(p + 28, f.name.length, true);
+    // Extra, comment, disk number, attributes all zero
+    dv.setUint32(p + 42, f.offset, true);
+    out.set(f.name, p + 46);
+    p += 46 + f.name.length;
+  });
+
+  // 3. End of central directory
+  dv.setUint32(p, 0x06054b50, true);
+  dv.setUint16(p + 8, files.length, true);
+  dv.setUint16(p + 10, files.length, true);
+  dv.setUint32(p + 12, p - centralStart, true);
+  dv.setUint32(p + 16, centralStart, true);
+
+  return out;
+};
+
+export interface ZipFile {
+  name: string;
+  data: Uint8Array;
+}
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads every file of a zip archive through its central directory. Supports
+ * stored and deflated entries (what common zip tools write); the CRC of each
+ * file is checked.
+ */
+export const readZip = async (archive: Uint8Array): Promise<ZipFile[]> => {
+  const dv = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+
+  // 1. Find the end of central directory record (followed by a comment of up to 64 KB)
+  let end = -1;
+  for (let p = archive.length - 22; p >= Math.max(0, archive.length - 22 - 0xffff); p--) {
+    if (dv.getUint32(p, true) === 0x06054b50) {
+      end = p;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("Not a zip archive.");
+
+  const count = dv.getUint16(end + 10, true);
+  let p = dv.getUint32(end + 16, true);
+  const files: ZipFile[] = [];
+
+  // 2. Walk the central directory; sizes there are reliable even when the
+  // local headers defer them to a data descriptor
+  for (let i = 0; i < count; i++) {
+    if (dv.getUint32(p, true) !== 0x02014b50) throw new Error("Corrupt zip central directory.");
+    const method = dv.getUint16(p + 10, true);
+    const crc = dv.getUint32(p + 16, true);
+    const compressedSize = dv.getUint32(p + 20, true);
+    const nameLength = dv.getUint16(p + 28, true);
+    const extraLength = dv.getUint16(p + 30, true);
+    const commentLength = dv.getUint16(p + 32, true);
+    const offset = dv.getUint32(p + 42, true);
+    const name = decoder.decode(archive.subarray(p + 46, p + 46 + nameLength));
+    p += 46 + nameLength + extraLength + commentLength;
+
+    // Directories carry no data
+    if (name.endsWith('/')) continue;
+
+    const dataStart = offset + 30 + dv.getUint16(offset + 26, true) + dv.getUint16(offset + 28, true);
+    const raw = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array;
+    if (method === 0) {
+      data = raw.slice();
+    } else if (method === 8) {
+      data = await inflateRaw(raw);
+    } else {
+      throw new Error(`Unsupported compression in zip entry ${name}.`);
+    }
+    if (crc32(data) !== crc) throw new Error(`Zip entry ${name} is corrupt.`);
+
+    files.push({ name, data });
+  }
+
+  return files;
+};
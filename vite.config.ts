@@ -1,18 +1,69 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Connect, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { THREE_VENDOR_PATH, THREE_VERSION, VENDORED_FILES } from './utils/threeVendor';
+import { MODEL_PROVIDERS } from './services/providers/types';
+
+// Serves the pinned Three.js files scenes import (see utils/threeVendor.ts) and
+// copies them into the build. Scenes run in sandboxed frames with an opaque
+// origin, so the files are sent with CORS headers.
+const vendorThree = (): Plugin => {
+    const root = path.resolve(__dirname, 'node_modules/three');
+    const read = (file: string) => fs.readFileSync(path.join(root, file));
+
+    const serve: Connect.NextHandleFunction = (req, res) => {
+        const file = decodeURIComponent((req.url || '').split('?')[0]).replace(/^\//, '');
+        if (!VENDORED_FILES.includes(file)) {
+            // Not the SPA fallback: a missing addon should fail to load
+            res.statusCode = 404;
+            res.end();
+            return;
+        }
+        res.setHeader('Content-Type', 'text/javascript; charset=utf-8');
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+        res.end(read(file));
+    };
+
+    return {
+        name: 'vendor-three',
+        buildStart() {
+            const { version } = JSON.parse(fs.readFileSync(path.join(root, 'package.json'), 'utf-8'));
+            if (version !== THREE_VERSION) {
+                this.error(`Installed three ${version} does not match THREE_VERSION ${THREE_VERSION} in utils/threeVendor.ts.`);
+            }
+        },
+        configureServer(server) {
+            server.middlewares.use(THREE_VENDOR_PATH, serve);
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use(THREE_VENDOR_PATH, serve);
+        },
+        generateBundle() {
+            VENDORED_FILES.forEach(file => {
+                this.emitFile({ type: 'asset', fileName: `${THREE_VENDOR_PATH.slice(1)}/${file}`, source: read(file) });
+            });
+        },
+    };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The app picks its backend when it loads, so a typo must stop the build instead
+    if (env.MODEL_PROVIDER && !(MODEL_PROVIDERS as readonly string[]).includes(env.MODEL_PROVIDER)) {
+        throw new Error(`Unknown MODEL_PROVIDER "${env.MODEL_PROVIDER}". Use ${MODEL_PROVIDERS.map(p => `"${p}"`).join(' or ')}.`);
+    }
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), vendorThree()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER)
       },
       resolve: {
         alias: {